@@ -1,33 +1,77 @@
-import { useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
 import DashboardLayout, { adminTabs } from './DashboardLayout';
 import AdminOverview from './admin/AdminOverview';
 import AdminComplaints from './admin/AdminComplaints';
 import AdminCategories from './admin/AdminCategories';
+import AdminTemplates from './admin/AdminTemplates';
+import AdminDepartments from './admin/AdminDepartments';
+import AdminWorkflow from './admin/AdminWorkflow';
+import AdminSlaPolicies from './admin/AdminSlaPolicies';
+import AdminEscalations from './admin/AdminEscalations';
+import AdminTriage from './admin/AdminTriage';
 import AdminReports from './admin/AdminReports';
 import AdminActivityLog from './admin/AdminActivityLog';
+import AdminUsers from './admin/AdminUsers';
+import NotificationPreferences from './NotificationPreferences';
+import AdminSearchPalette from './admin/AdminSearchPalette';
+
+// Tabs whose complaints can be opened directly, e.g. /dashboard/queue/<id>
+const COMPLAINT_TABS = ['complaints', 'queue'];
 
 export default function AdminDashboard() {
-  const [activeTab, setActiveTab] = useState('overview');
+  // Tabs are routed as /dashboard/<tab>, complaints as /dashboard/complaints/<id>
+  const { tab: tabParam, complaintId } = useParams();
+  const navigate = useNavigate();
+  const { can } = useAuth();
+  const tabs = adminTabs.filter((t) => !t.permission || can(t.permission));
+  // Without access to the overview, /dashboard opens the first tab the admin may use
+  const defaultTab = tabs.some((t) => t.id === 'overview') ? 'overview' : tabs[0].id;
+  const tab = tabParam || defaultTab;
+
+  const setActiveTab = (id: string) => navigate(id === defaultTab ? '/dashboard' : `/dashboard/${id}`);
+
+  if (!tabs.some((t) => t.id === tab) || (complaintId && !COMPLAINT_TABS.includes(tab))) {
+    return <Navigate to="/dashboard" replace />;
+  }
 
   const renderContent = () => {
-    switch (activeTab) {
+    switch (tab) {
       case 'overview':
         return <AdminOverview onNavigate={setActiveTab} />;
       case 'complaints':
-        return <AdminComplaints />;
+        return <AdminComplaints key="all" />;
+      case 'queue':
+        return <AdminComplaints key="queue" queue />;
       case 'categories':
         return <AdminCategories />;
+      case 'templates':
+        return <AdminTemplates />;
+      case 'departments':
+        return <AdminDepartments />;
+      case 'workflow':
+        return <AdminWorkflow />;
+      case 'sla':
+        return <AdminSlaPolicies />;
+      case 'escalations':
+        return <AdminEscalations />;
+      case 'triage':
+        return <AdminTriage />;
       case 'reports':
         return <AdminReports />;
       case 'activity':
         return <AdminActivityLog />;
+      case 'users':
+        return <AdminUsers />;
+      case 'notifications':
+        return <NotificationPreferences />;
       default:
         return <AdminOverview onNavigate={setActiveTab} />;
     }
   };
 
   return (
-    <DashboardLayout activeTab={activeTab} onTabChange={setActiveTab} tabs={adminTabs}>
+    <DashboardLayout activeTab={tab} onTabChange={setActiveTab} tabs={tabs} actions={<AdminSearchPalette tabs={tabs} />}>
       {renderContent()}
     </DashboardLayout>
   );
@@ -3,6 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { useIsMobile } from '@/hooks/use-mobile';
+import NotificationCenter from './NotificationCenter';
 import { 
   GraduationCap, 
   LogOut, 
@@ -14,9 +15,19 @@ import {
   Moon,
   Sun,
   FolderOpen,
-  History
+  History,
+  Inbox,
+  GitBranch,
+  Timer,
+  Siren,
+  Sparkles,
+  BellRing,
+  Building2,
+  UserCog,
+  MessageSquareText
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { Permission } from '@/lib/permissions';
 import { useTheme } from 'next-themes';
 
 interface DashboardLayoutProps {
@@ -24,9 +35,11 @@ interface DashboardLayoutProps {
   activeTab: string;
   onTabChange: (tab: string) => void;
   tabs: { id: string; label: string; icon: ReactNode }[];
+  /** Extra header buttons shown next to the notification bell. */
+  actions?: ReactNode;
 }
 
-export default function DashboardLayout({ children, activeTab, onTabChange, tabs }: DashboardLayoutProps) {
+export default function DashboardLayout({ children, activeTab, onTabChange, tabs, actions }: DashboardLayoutProps) {
   const { signOut, role } = useAuth();
   const isMobile = useIsMobile();
   const [open, setOpen] = useState(false);
@@ -45,10 +58,16 @@ export default function DashboardLayout({ children, activeTab, onTabChange, tabs
           <div className="h-10 w-10 rounded-xl bg-sidebar-primary/20 flex items-center justify-center">
             <GraduationCap className="h-6 w-6 text-sidebar-primary" />
           </div>
-          <div>
+          <div className="flex-1">
             <span className="text-xl font-display font-bold text-sidebar-foreground">aLooi</span>
             <p className="text-xs text-sidebar-foreground/60 capitalize">{role} Portal</p>
           </div>
+          {!isMobile && (
+            <div className="flex items-center">
+              {actions}
+              <NotificationCenter />
+            </div>
+          )}
         </div>
       </div>
 
@@ -118,6 +137,10 @@ export default function DashboardLayout({ children, activeTab, onTabChange, tabs
             <GraduationCap className="h-6 w-6 text-sidebar-primary" />
             <span className="text-lg font-display font-bold text-sidebar-foreground">aLooi</span>
           </div>
+          <div className="ml-auto flex items-center">
+            {actions}
+            <NotificationCenter />
+          </div>
         </header>
       )}
 
@@ -143,12 +166,23 @@ export const studentTabs = [
   { id: 'overview', label: 'Overview', icon: <LayoutDashboard className="h-4 w-4" /> },
   { id: 'complaints', label: 'My Complaints', icon: <FileText className="h-4 w-4" /> },
   { id: 'new', label: 'New Complaint', icon: <PlusCircle className="h-4 w-4" /> },
+  { id: 'notifications', label: 'Notifications', icon: <BellRing className="h-4 w-4" /> },
 ];
 
-export const adminTabs = [
-  { id: 'overview', label: 'Overview', icon: <LayoutDashboard className="h-4 w-4" /> },
-  { id: 'complaints', label: 'All Complaints', icon: <FileText className="h-4 w-4" /> },
-  { id: 'categories', label: 'Categories', icon: <FolderOpen className="h-4 w-4" /> },
-  { id: 'reports', label: 'Reports', icon: <BarChart3 className="h-4 w-4" /> },
-  { id: 'activity', label: 'Activity Log', icon: <History className="h-4 w-4" /> },
+// Each admin tab needs a permission; see role_permissions for who holds which
+export const adminTabs: { id: string; label: string; icon: ReactNode; permission?: Permission }[] = [
+  { id: 'overview', label: 'Overview', icon: <LayoutDashboard className="h-4 w-4" />, permission: 'view_complaints' },
+  { id: 'complaints', label: 'All Complaints', icon: <FileText className="h-4 w-4" />, permission: 'view_complaints' },
+  { id: 'queue', label: 'My Queue', icon: <Inbox className="h-4 w-4" />, permission: 'update_status' },
+  { id: 'categories', label: 'Categories', icon: <FolderOpen className="h-4 w-4" />, permission: 'manage_categories' },
+  { id: 'templates', label: 'Templates', icon: <MessageSquareText className="h-4 w-4" />, permission: 'manage_templates' },
+  { id: 'departments', label: 'Departments', icon: <Building2 className="h-4 w-4" />, permission: 'manage_settings' },
+  { id: 'workflow', label: 'Workflow', icon: <GitBranch className="h-4 w-4" />, permission: 'manage_settings' },
+  { id: 'sla', label: 'SLA Policies', icon: <Timer className="h-4 w-4" />, permission: 'manage_settings' },
+  { id: 'escalations', label: 'Escalations', icon: <Siren className="h-4 w-4" />, permission: 'manage_settings' },
+  { id: 'triage', label: 'Auto-Triage', icon: <Sparkles className="h-4 w-4" />, permission: 'manage_settings' },
+  { id: 'reports', label: 'Reports', icon: <BarChart3 className="h-4 w-4" />, permission: 'view_complaints' },
+  { id: 'activity', label: 'Activity Log', icon: <History className="h-4 w-4" />, permission: 'view_complaints' },
+  { id: 'users', label: 'Users', icon: <UserCog className="h-4 w-4" />, permission: 'manage_users' },
+  { id: 'notifications', label: 'Notifications', icon: <BellRing className="h-4 w-4" /> },
 ];
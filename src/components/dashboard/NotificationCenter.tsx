@@ -0,0 +1,183 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useRealtimeChanges } from '@/hooks/use-realtime';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import { Bell, CheckCheck, MessageSquare, RefreshCw, Flag, UserCheck, AtSign, Siren } from 'lucide-react';
+
+type Notification = Tables<'notifications'>;
+
+const MAX_NOTIFICATIONS = 50;
+
+const typeIcons: Record<string, React.ElementType> = {
+  status_change: RefreshCw,
+  priority_change: Flag,
+  comment: MessageSquare,
+  assignment: UserCheck,
+  mention: AtSign,
+  escalation: Siren,
+};
+
+export default function NotificationCenter({ className }: { className?: string }) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const unreadCount = notifications.filter((n) => !n.read_at).length;
+
+  useEffect(() => {
+    if (user) {
+      fetchNotifications();
+    }
+  }, [user]);
+
+  useRealtimeChanges({
+    table: 'notifications',
+    filter: user ? `user_id=eq.${user.id}` : undefined,
+    enabled: !!user,
+    onChange: (payload) => {
+      if (payload.eventType === 'INSERT') {
+        setNotifications((current) =>
+          current.some((n) => n.id === payload.new.id)
+            ? current
+            : [payload.new, ...current].slice(0, MAX_NOTIFICATIONS)
+        );
+      } else if (payload.eventType === 'UPDATE') {
+        setNotifications((current) => current.map((n) => (n.id === payload.new.id ? payload.new : n)));
+      } else if (payload.eventType === 'DELETE') {
+        setNotifications((current) => current.filter((n) => n.id !== payload.old.id));
+      }
+    },
+  });
+
+  const fetchNotifications = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: false })
+        .limit(MAX_NOTIFICATIONS);
+
+      if (error) throw error;
+      setNotifications(data || []);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const markAsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) => current.map((n) => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: readAt })
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error marking notifications as read:', error);
+      toast.error('Failed to update notifications');
+      fetchNotifications();
+    }
+  };
+
+  const markAllAsRead = () => markAsRead(notifications.filter((n) => !n.read_at).map((n) => n.id));
+
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.read_at) markAsRead([notification.id]);
+    setOpen(false);
+    if (notification.complaint_id) {
+      navigate(`/dashboard/complaints/${notification.complaint_id}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('relative text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar-accent/50', className)}
+          aria-label={unreadCount > 0 ? `${unreadCount} unread notifications` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 sm:w-96 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+          <div>
+            <p className="font-display font-semibold">Notifications</p>
+            <p className="text-xs text-muted-foreground">{unreadCount > 0 ? `${unreadCount} unread` : 'All caught up'}</p>
+          </div>
+          <Button variant="ghost" size="sm" className="gap-1.5 text-xs" onClick={markAllAsRead} disabled={unreadCount === 0}>
+            <CheckCheck className="h-3.5 w-3.5" />
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-[420px] overflow-y-auto">
+          {loading ? (
+            <div className="p-4 space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="text-center py-10 px-4">
+              <Bell className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">No notifications yet</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-border">
+              {notifications.map((notification) => {
+                const Icon = typeIcons[notification.type] || Bell;
+                return (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    onClick={() => handleOpenNotification(notification)}
+                    className={cn(
+                      'w-full flex items-start gap-3 px-4 py-3 text-left hover:bg-muted/50 transition-colors',
+                      !notification.read_at && 'bg-primary/5'
+                    )}
+                  >
+                    <div className="h-8 w-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                      <Icon className="h-4 w-4 text-muted-foreground" />
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-0.5">
+                      <p className={cn('text-sm line-clamp-1', !notification.read_at && 'font-medium')}>{notification.title}</p>
+                      {notification.body && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    {!notification.read_at && <span className="h-2 w-2 rounded-full bg-primary mt-2 shrink-0" />}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
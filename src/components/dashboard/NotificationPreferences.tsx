@@ -0,0 +1,130 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  DELIVERY_MODE_LABELS,
+  DeliveryMode,
+  NOTIFICATION_EVENTS,
+  NotificationEventType,
+} from '@/lib/notifications';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Mail } from 'lucide-react';
+
+const DELIVERY_MODES = Object.keys(DELIVERY_MODE_LABELS) as DeliveryMode[];
+
+export default function NotificationPreferences() {
+  const { user, role } = useAuth();
+  const [preferences, setPreferences] = useState<Partial<Record<NotificationEventType, DeliveryMode>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<NotificationEventType | null>(null);
+
+  const events = NOTIFICATION_EVENTS.filter((e) => e.roles.includes(role === 'admin' ? 'admin' : 'student'));
+
+  useEffect(() => {
+    if (user) {
+      fetchPreferences();
+    }
+  }, [user]);
+
+  const fetchPreferences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('event_type, delivery')
+        .eq('user_id', user!.id);
+
+      if (error) throw error;
+      setPreferences(
+        Object.fromEntries((data || []).map((p) => [p.event_type, p.delivery as DeliveryMode]))
+      );
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      toast.error('Failed to load notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleChange = async (eventType: NotificationEventType, delivery: DeliveryMode) => {
+    const previous = preferences[eventType];
+    setPreferences((current) => ({ ...current, [eventType]: delivery }));
+    setSaving(eventType);
+
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user!.id, event_type: eventType, delivery }, { onConflict: 'user_id,event_type' });
+
+      if (error) throw error;
+      toast.success('Notification preference saved');
+    } catch (error: unknown) {
+      console.error('Error saving notification preference:', error);
+      toast.error((error as Error).message || 'Failed to save preference');
+      setPreferences((current) => ({ ...current, [eventType]: previous }));
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      <div>
+        <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Notifications</h1>
+        <p className="text-muted-foreground mt-1 text-sm md:text-base">
+          Choose how you want to be emailed about complaint activity
+        </p>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Mail className="h-5 w-5" />
+            Email Preferences
+          </CardTitle>
+          <CardDescription>
+            In-app notifications are always shown. Daily digests are sent once a morning and summarize the previous day.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-20 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : (
+            events.map((event) => (
+              <div
+                key={event.type}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-lg border border-border"
+              >
+                <div>
+                  <p className="font-medium text-foreground">{event.label}</p>
+                  <p className="text-sm text-muted-foreground">{event.description}</p>
+                </div>
+                <Select
+                  value={preferences[event.type] || 'immediate'}
+                  onValueChange={(value) => handleChange(event.type, value as DeliveryMode)}
+                  disabled={saving === event.type}
+                >
+                  <SelectTrigger className="w-full sm:w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {DELIVERY_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,27 +1,38 @@
-import { useState } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
 import DashboardLayout, { studentTabs } from './DashboardLayout';
 import StudentOverview from './student/StudentOverview';
 import StudentComplaints from './student/StudentComplaints';
 import NewComplaint from './student/NewComplaint';
+import NotificationPreferences from './NotificationPreferences';
 
 export default function StudentDashboard() {
-  const [activeTab, setActiveTab] = useState('overview');
+  // Tabs are routed as /dashboard/<tab>, complaints as /dashboard/complaints/<id>
+  const { tab = 'overview', complaintId } = useParams();
+  const navigate = useNavigate();
+
+  const setActiveTab = (id: string) => navigate(id === 'overview' ? '/dashboard' : `/dashboard/${id}`);
+
+  if (!studentTabs.some((t) => t.id === tab) || (complaintId && tab !== 'complaints')) {
+    return <Navigate to="/dashboard" replace />;
+  }
 
   const renderContent = () => {
-    switch (activeTab) {
+    switch (tab) {
       case 'overview':
         return <StudentOverview onNavigate={setActiveTab} />;
       case 'complaints':
         return <StudentComplaints />;
       case 'new':
         return <NewComplaint onSuccess={() => setActiveTab('complaints')} />;
+      case 'notifications':
+        return <NotificationPreferences />;
       default:
         return <StudentOverview onNavigate={setActiveTab} />;
     }
   };
 
   return (
-    <DashboardLayout activeTab={activeTab} onTabChange={setActiveTab} tabs={studentTabs}>
+    <DashboardLayout activeTab={tab} onTabChange={setActiveTab} tabs={studentTabs}>
       {renderContent()}
     </DashboardLayout>
   );
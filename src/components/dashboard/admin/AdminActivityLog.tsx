@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Badge } from '@/components/ui/badge';
+import { StatusBadge } from '@/components/ui/status-badge';
 import { Search, History, Filter } from 'lucide-react';
 
 interface LogEntry {
@@ -15,7 +15,10 @@ interface LogEntry {
   new_status: string | null;
   notes: string | null;
   created_at: string;
-  performed_by: string;
+  /** Null for actions taken automatically, e.g. by escalation rules, and for those of the student. */
+  performed_by: string | null;
+  /** The student who filed the complaint acted, e.g. by reopening it; their id is not recorded. */
+  performed_by_submitter: boolean;
   admin_name?: string;
   complaint_subject?: string;
 }
@@ -47,7 +50,7 @@ export default function AdminActivityLog() {
 
       if (logsData && logsData.length > 0) {
         // Fetch admin names
-        const adminIds = [...new Set(logsData.map(l => l.performed_by))];
+        const adminIds = [...new Set(logsData.map(l => l.performed_by).filter(Boolean))];
         const { data: profiles } = await supabase
           .from('profiles')
           .select('user_id, full_name')
@@ -66,7 +69,9 @@ export default function AdminActivityLog() {
 
         const enrichedLogs = logsData.map(log => ({
           ...log,
-          admin_name: profileMap.get(log.performed_by) || 'Unknown',
+          admin_name: log.performed_by
+            ? profileMap.get(log.performed_by) || 'Unknown'
+            : log.performed_by_submitter ? 'Student' : 'System',
           complaint_subject: complaintMap.get(log.complaint_id) || 'Unknown',
         }));
 
@@ -100,6 +105,8 @@ export default function AdminActivityLog() {
         filtered = filtered.filter((l) => l.action.toLowerCase().includes('status'));
       } else if (actionFilter === 'priority') {
         filtered = filtered.filter((l) => l.action.toLowerCase().includes('priority'));
+      } else if (actionFilter === 'assignment') {
+        filtered = filtered.filter((l) => l.action.toLowerCase().includes('assign'));
       } else if (actionFilter === 'bulk') {
         filtered = filtered.filter((l) => l.action.toLowerCase().includes('bulk'));
       }
@@ -108,20 +115,6 @@ export default function AdminActivityLog() {
     setFilteredLogs(filtered);
   };
 
-  const getStatusBadge = (status: string | null) => {
-    if (!status) return null;
-    const colors: Record<string, string> = {
-      submitted: 'bg-muted text-muted-foreground',
-      in_review: 'bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400',
-      resolved: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400',
-    };
-    return (
-      <Badge variant="outline" className={colors[status] || ''}>
-        {status.replace('_', ' ')}
-      </Badge>
-    );
-  };
-
   return (
     <div className="p-4 md:p-8 space-y-6 animate-fade-in">
       {/* Header */}
@@ -157,6 +150,7 @@ export default function AdminActivityLog() {
                 <SelectItem value="all">All Actions</SelectItem>
                 <SelectItem value="status">Status Changes</SelectItem>
                 <SelectItem value="priority">Priority Changes</SelectItem>
+                <SelectItem value="assignment">Assignments</SelectItem>
                 <SelectItem value="bulk">Bulk Updates</SelectItem>
               </SelectContent>
             </Select>
@@ -213,9 +207,9 @@ export default function AdminActivityLog() {
                       <TableCell>
                         {log.old_status && log.new_status && (
                           <div className="flex items-center gap-1">
-                            {getStatusBadge(log.old_status)}
+                            <StatusBadge status={log.old_status} />
                             <span className="text-muted-foreground">→</span>
-                            {getStatusBadge(log.new_status)}
+                            <StatusBadge status={log.new_status} />
                           </div>
                         )}
                       </TableCell>
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { toast } from 'sonner';
@@ -15,9 +16,12 @@ interface Category {
   id: string;
   name: string;
   description: string | null;
+  department_id: string | null;
   created_at: string;
 }
 
+const NO_DEPARTMENT = 'none';
+
 const categorySchema = z.object({
   name: z.string().trim().min(2, 'Name must be at least 2 characters').max(50, 'Name must be less than 50 characters'),
   description: z.string().trim().max(200, 'Description must be less than 200 characters').optional(),
@@ -25,6 +29,7 @@ const categorySchema = z.object({
 
 export default function AdminCategories() {
   const [categories, setCategories] = useState<Category[]>([]);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -34,9 +39,11 @@ export default function AdminCategories() {
   
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [departmentId, setDepartmentId] = useState(NO_DEPARTMENT);
 
   useEffect(() => {
     fetchCategories();
+    fetchDepartments();
   }, []);
 
   const fetchCategories = async () => {
@@ -56,10 +63,18 @@ export default function AdminCategories() {
     }
   };
 
+  const fetchDepartments = async () => {
+    const { data } = await supabase.from('departments').select('id, name').order('name');
+    setDepartments(data || []);
+  };
+
+  const departmentName = (id: string | null) => departments.find((d) => d.id === id)?.name;
+
   const openCreateDialog = () => {
     setEditingCategory(null);
     setName('');
     setDescription('');
+    setDepartmentId(NO_DEPARTMENT);
     setDialogOpen(true);
   };
 
@@ -67,6 +82,7 @@ export default function AdminCategories() {
     setEditingCategory(category);
     setName(category.name);
     setDescription(category.description || '');
+    setDepartmentId(category.department_id || NO_DEPARTMENT);
     setDialogOpen(true);
   };
 
@@ -87,6 +103,7 @@ export default function AdminCategories() {
           .update({
             name: validated.name,
             description: validated.description || null,
+            department_id: departmentId === NO_DEPARTMENT ? null : departmentId,
           })
           .eq('id', editingCategory.id);
 
@@ -99,6 +116,7 @@ export default function AdminCategories() {
           .insert({
             name: validated.name,
             description: validated.description || null,
+            department_id: departmentId === NO_DEPARTMENT ? null : departmentId,
           });
 
         if (error) throw error;
@@ -128,7 +146,7 @@ export default function AdminCategories() {
       // Check if category has complaints
       const { count } = await supabase
         .from('complaints')
-        .select('*', { count: 'exact', head: true })
+        .select('id', { count: 'exact', head: true })
         .eq('category_id', categoryToDelete.id);
 
       if (count && count > 0) {
@@ -199,7 +217,12 @@ export default function AdminCategories() {
                   style={{ animationDelay: `${index * 30}ms` }}
                 >
                   <div className="space-y-1 flex-1 min-w-0">
-                    <p className="font-medium">{category.name}</p>
+                    <p className="font-medium">
+                      {category.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        → {departmentName(category.department_id) || 'No department'}
+                      </span>
+                    </p>
                     {category.description && (
                       <p className="text-sm text-muted-foreground line-clamp-1">{category.description}</p>
                     )}
@@ -270,6 +293,26 @@ export default function AdminCategories() {
               />
               <p className="text-xs text-muted-foreground text-right">{description.length}/200</p>
             </div>
+
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEPARTMENT}>No department</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Complaints in this category are routed to this department. Without one, only super admins see them.
+              </p>
+            </div>
           </div>
 
           <DialogFooter>
@@ -1,5 +1,7 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflow } from '@/contexts/WorkflowContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -9,39 +11,100 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
 import { toast } from 'sonner';
-import { FileText, Search, Filter, Eye, Loader2, Paperclip, Download, CheckSquare, Send, MessageSquare, AlertTriangle, AlertCircle, Info, Flame } from 'lucide-react';
+import { FileText, Search, Filter, Eye, Loader2, Paperclip, CheckSquare, Send, MessageSquare, AlertTriangle, AlertCircle, Info, Flame, UserCheck, ArrowDownUp, Lock, Users, GitMerge, Link2 } from 'lucide-react';
 import { StatusBadge } from '@/components/ui/status-badge';
+import { SlaIndicator } from '@/components/ui/sla-indicator';
+import { NewActivityBadge } from '@/components/ui/new-activity-badge';
+import { PrivacyBadges } from '@/components/ui/privacy-badges';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { sendNotification } from '@/lib/notifications';
+import { useRealtimeChanges } from '@/hooks/use-realtime';
+import { AttachmentGallery } from '@/components/ui/attachment-gallery';
+import { AttachButton, AttachmentList } from '@/components/ui/attachment-picker';
+import { Attachment, fetchAttachments, isComplaintAttachment, uploadAttachments } from '@/lib/attachments';
+import { chunk, getPageCount, getPageItems } from '@/lib/pagination';
+import { ViewFilters, hasViewFilters, viewFiltersFromParams } from '@/lib/saved-views';
+import { findMentions, splitMentions } from '@/lib/mentions';
+import { ResponseTemplate, TemplateValues } from '@/lib/templates';
+import SavedViews from './SavedViews';
+import MentionInput from './MentionInput';
+import TemplatePicker from './TemplatePicker';
+import PossibleDuplicates from './PossibleDuplicates';
+import RelatedComplaints from './RelatedComplaints';
+import TriageSuggestion from './TriageSuggestion';
+import type { Database } from '@/integrations/supabase/types';
 
 type Priority = 'low' | 'medium' | 'high' | 'critical';
 
+type ComplaintRow = Database['public']['Functions']['list_admin_complaints']['Returns'][number];
+
 interface Complaint {
   id: string;
   subject: string;
   description: string;
-  status: 'submitted' | 'in_review' | 'resolved';
+  status: string;
   priority: Priority;
   admin_response: string | null;
-  attachment_url: string | null;
+  attachment_count: number;
   created_at: string;
   updated_at: string;
   resolved_at: string | null;
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  resolution_due_at: string | null;
   category: { id: string; name: string };
-  profile: { full_name: string; email: string };
+  department_id: string | null;
+  department_name: string | null;
+  /** Null when the student filed anonymously and the admin may not see who they are. */
+  profile: { full_name: string; email: string } | null;
+  user_id: string | null;
+  is_anonymous: boolean;
+  is_confidential: boolean;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  /** Set once the complaint was merged into another as a duplicate. */
+  merged_into: string | null;
+  /** The incident this complaint is linked to. */
+  parent_id: string | null;
+}
+
+interface AdminProfile {
   user_id: string;
+  full_name: string;
+  /** Departments the admin handles; null for super admins, who handle all of them. */
+  departments: string[] | null;
+  canSeeConfidential: boolean;
+  canBeAssigned: boolean;
+  deactivated: boolean;
 }
 
 interface Comment {
   id: string;
   content: string;
   is_admin: boolean;
+  /** Admin-only note, hidden from the student. */
+  is_internal: boolean;
+  /** The complaint the comment was written on, when it was moved here by a merge. */
+  merged_from_complaint_id: string | null;
   created_at: string;
-  user_id: string;
+  /** The staff member who wrote it; null for student messages and notes added by escalation rules. */
+  author_id: string | null;
 }
 
+const COMMENT_COLUMNS = 'id, content, is_admin, is_internal, merged_from_complaint_id, created_at, author_id';
+
 const priorityConfig: Record<Priority, { label: string; color: string; icon: React.ElementType }> = {
   low: { label: 'Low', color: 'bg-muted text-muted-foreground', icon: Info },
   medium: { label: 'Medium', color: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400', icon: AlertCircle },
@@ -60,141 +123,474 @@ function PriorityBadge({ priority }: { priority: Priority }) {
   );
 }
 
-export default function AdminComplaints() {
-  const { user } = useAuth();
+const UNASSIGNED = 'unassigned';
+const NO_DEPARTMENT = 'none';
+
+const PAGE_SIZE = 25;
+// "Select all matching" fetches ids in batches of the API's row limit
+const SELECT_ALL_BATCH = 1000;
+// Keeps `in` filters of bulk updates well within URL length limits
+const BULK_CHUNK_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type SortColumn = 'created_at' | 'updated_at' | 'priority_rank' | 'sla_due_at';
+
+const sortOptions: Record<string, { label: string; column: SortColumn; ascending: boolean }> = {
+  newest: { label: 'Newest first', column: 'created_at', ascending: false },
+  oldest: { label: 'Oldest first', column: 'created_at', ascending: true },
+  updated: { label: 'Recently updated', column: 'updated_at', ascending: false },
+  priority: { label: 'Highest priority', column: 'priority_rank', ascending: false },
+  sla: { label: 'SLA due soonest', column: 'sla_due_at', ascending: true },
+};
+
+const toComplaint = (row: ComplaintRow): Complaint => ({
+  ...row,
+  category: { id: row.category_id, name: row.category_name || 'Uncategorized' },
+  profile: row.user_id
+    ? { full_name: row.student_name || 'Unknown', email: row.student_email || 'Unknown' }
+    : null,
+});
+
+// Bursts of realtime events (e.g. a bulk update) collapse into a single refetch
+const REFRESH_DEBOUNCE_MS = 300;
+
+interface AdminComplaintsProps {
+  queue?: boolean;
+}
+
+export default function AdminComplaints({ queue = false }: AdminComplaintsProps) {
+  const { user, isSuperAdmin, can } = useAuth();
+  const canUpdate = can('update_status');
+  const canComment = can('comment');
+  const navigate = useNavigate();
+  // The open complaint lives in the path and the filters in the query string,
+  // e.g. /dashboard/complaints/<id>?status=pending
+  const { complaintId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const basePath = queue ? '/dashboard/queue' : '/dashboard/complaints';
+  const { statuses, nextStatuses, canTransition, getLabel } = useWorkflow();
   const [complaints, setComplaints] = useState<Complaint[]>([]);
-  const [filteredComplaints, setFilteredComplaints] = useState<Complaint[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
   const [loading, setLoading] = useState(true);
   const [updating, setUpdating] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [categoryFilter, setCategoryFilter] = useState<string>('all');
-  const [priorityFilter, setPriorityFilter] = useState<string>('all');
+  const searchQuery = searchParams.get('q') || '';
+  const statusFilter = searchParams.get('status') || 'all';
+  const categoryFilter = searchParams.get('category') || 'all';
+  const departmentFilter = searchParams.get('department') || 'all';
+  const priorityFilter = searchParams.get('priority') || 'all';
+  const assignmentFilter = queue ? 'mine' : searchParams.get('assignee') || 'all';
+  const sortParam = searchParams.get('sort') || '';
+  const sortKey = Object.keys(sortOptions).includes(sortParam) ? sortParam : 'newest';
+  const page = Math.max(1, Number(searchParams.get('page')) || 1);
+  const pageCount = getPageCount(totalCount, PAGE_SIZE);
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  // Only an unfiltered list picks up the admin's default saved view
+  const [applyDefaultView] = useState(() => !complaintId && !hasViewFilters(viewFiltersFromParams(searchParams)));
   const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
   const [newStatus, setNewStatus] = useState<string>('');
   const [newPriority, setNewPriority] = useState<Priority>('medium');
+  const [newAssignee, setNewAssignee] = useState<string>(UNASSIGNED);
   const [adminResponse, setAdminResponse] = useState('');
   const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([]);
+  // Everyone who may view complaints; the assignable ones are kept separately
+  const [staff, setStaff] = useState<AdminProfile[]>([]);
+  const [admins, setAdmins] = useState<AdminProfile[]>([]);
+  const [templates, setTemplates] = useState<ResponseTemplate[]>([]);
   
-  // Bulk selection
-  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Bulk selection survives paging: complaint id → its status when selected
+  const [selectedIds, setSelectedIds] = useState<Map<string, string>>(new Map());
+  const [selectingAll, setSelectingAll] = useState(false);
   const [bulkUpdating, setBulkUpdating] = useState(false);
   const [bulkStatus, setBulkStatus] = useState<string>('');
   const [bulkPriority, setBulkPriority] = useState<string>('');
+  const [bulkAssignee, setBulkAssignee] = useState<string>('');
   
   // Comments
   const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState('');
   const [sendingComment, setSendingComment] = useState(false);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [internalNote, setInternalNote] = useState(false);
+  const [commentUploadProgress, setCommentUploadProgress] = useState<number[] | undefined>();
+
+  // Attachments of the open complaint, including those on comments
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Other students who +1'd the open complaint instead of filing their own
+  const [supporterCount, setSupporterCount] = useState(0);
+
+  // Realtime
+  const [newActivity, setNewActivity] = useState<Set<string>>(new Set());
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+  // Ignores responses to list requests that have since been superseded
+  const latestRequest = useRef(0);
 
   useEffect(() => {
-    fetchComplaints();
     fetchCategories();
+    fetchDepartments();
+    fetchAdmins();
+    fetchTemplates();
+    return () => clearTimeout(refreshTimer.current);
   }, []);
 
   useEffect(() => {
-    filterComplaints();
-  }, [complaints, searchQuery, statusFilter, categoryFilter, priorityFilter]);
+    fetchComplaints();
+  }, [searchQuery, statusFilter, categoryFilter, departmentFilter, priorityFilter, assignmentFilter, sortKey, page]);
+
+  useEffect(() => {
+    if (searchInput === searchQuery) return;
+    const timer = setTimeout(() => setFilter('q', searchInput), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Follow the URL when it changes underneath the input, e.g. on back navigation
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
+  // Step back when the current page no longer exists, e.g. after a bulk update
+  useEffect(() => {
+    if (!loading && page > pageCount) setFilter('page', String(pageCount));
+  }, [loading, page, pageCount]);
+
+  useEffect(() => {
+    if (!complaintId) {
+      setSelectedComplaint(null);
+      return;
+    }
+    if (loading || selectedComplaint?.id === complaintId) return;
+
+    const complaint = complaints.find((c) => c.id === complaintId);
+    if (complaint) {
+      openComplaint(complaint);
+      return;
+    }
+
+    // Linked complaints are not necessarily on the current page
+    supabase
+      .rpc('list_admin_complaints', {})
+      .eq('id', complaintId)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data) {
+          openComplaint(toComplaint(data));
+        } else {
+          toast.error('That complaint could not be found');
+          navigate({ pathname: basePath, search: searchParams.toString() }, { replace: true });
+        }
+      });
+  }, [complaintId, loading]);
+
+  // Keep the open dialog's header in sync without touching the edit form
+  useEffect(() => {
+    setSelectedComplaint((current) => current && (complaints.find((c) => c.id === current.id) || current));
+  }, [complaints]);
+
+  const scheduleRefresh = () => {
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(fetchComplaints, REFRESH_DEBOUNCE_MS);
+  };
+
+  const markNewActivity = (complaintId: string) => {
+    setNewActivity((current) => new Set(current).add(complaintId));
+  };
+
+  useRealtimeChanges({
+    table: 'complaints',
+    onChange: (payload) => {
+      if (payload.eventType === 'INSERT') {
+        markNewActivity(payload.new.id);
+      }
+      scheduleRefresh();
+    },
+  });
+
+  useRealtimeChanges({
+    table: 'complaint_comments',
+    onChange: (payload) => {
+      if (payload.eventType !== 'INSERT') return;
+      const comment = payload.new as Comment & { complaint_id: string };
+
+      if (selectedComplaint?.id === comment.complaint_id) {
+        setComments((current) =>
+          current.some((c) => c.id === comment.id) ? current : [...current, comment]
+        );
+      } else if (comment.author_id !== user?.id) {
+        markNewActivity(comment.complaint_id);
+      }
+    },
+  });
+
+  useRealtimeChanges({
+    table: 'complaint_attachments',
+    enabled: !!user,
+    onChange: (payload) => {
+      if (payload.eventType !== 'INSERT' || selectedComplaint?.id !== payload.new.complaint_id) return;
+      appendAttachments([payload.new]);
+    },
+  });
+
+  const appendAttachments = (added: Attachment[]) => {
+    setAttachments((current) => [...current, ...added.filter((a) => !current.some((c) => c.id === a.id))]);
+  };
 
   const fetchCategories = async () => {
     const { data } = await supabase.from('categories').select('id, name').order('name');
     setCategories(data || []);
   };
 
+  const fetchDepartments = async () => {
+    const { data } = await supabase.from('departments').select('id, name').order('name');
+    setDepartments(data || []);
+  };
+
+  const fetchTemplates = async () => {
+    const { data } = await supabase
+      .from('response_templates')
+      .select('id, title, body, category_id')
+      .order('title');
+    setTemplates(data || []);
+  };
+
+  const fetchAdmins = async () => {
+    const [{ data: roles }, { data: rolePermissions }] = await Promise.all([
+      supabase.from('user_roles').select('user_id, role').neq('role', 'student'),
+      supabase
+        .from('role_permissions')
+        .select('role, permission')
+        .in('permission', ['view_complaints', 'update_status', 'handle_confidential']),
+    ]);
+    const holders = (permission: string) =>
+      new Set(
+        (roles || [])
+          .filter(r => (rolePermissions || []).some(p => p.permission === permission && p.role === r.role))
+          .map(r => r.user_id)
+      );
+
+    // Only admins who may update complaints can be assigned one
+    const canView = holders('view_complaints');
+    const canBeAssigned = holders('update_status');
+    const confidentialHandlers = holders('handle_confidential');
+    const adminIds = (roles || [])
+      .filter(r => r.role === 'admin' && canView.has(r.user_id))
+      .map(r => r.user_id);
+    if (adminIds.length === 0) {
+      setStaff([]);
+      setAdmins([]);
+      return;
+    }
+
+    const [{ data: profiles }, { data: members }] = await Promise.all([
+      supabase
+        .from('profiles')
+        .select('user_id, full_name, deactivated_at')
+        .in('user_id', adminIds)
+        .order('full_name'),
+      supabase.from('department_members').select('user_id, department_id'),
+    ]);
+
+    const superAdmins = new Set((roles || []).filter(r => r.role === 'super_admin').map(r => r.user_id));
+    const loaded = (profiles || []).map((profile) => ({
+      user_id: profile.user_id,
+      full_name: profile.full_name,
+      departments: superAdmins.has(profile.user_id)
+        ? null
+        : (members || []).filter(m => m.user_id === profile.user_id).map(m => m.department_id),
+      canSeeConfidential: confidentialHandlers.has(profile.user_id),
+      canBeAssigned: canBeAssigned.has(profile.user_id),
+      deactivated: !!profile.deactivated_at,
+    }));
+    setStaff(loaded);
+    setAdmins(loaded.filter(a => a.canBeAssigned));
+  };
+
+  /** Whether the current admin works in the complaint's department, as opposed to having been mentioned on it. */
+  const handlesComplaint = (complaint: Complaint) => {
+    const me = staff.find(a => a.user_id === user?.id);
+    return (
+      !me ||
+      me.departments === null ||
+      (complaint.department_id !== null && me.departments.includes(complaint.department_id))
+    );
+  };
+
+  const templateValues = (complaint: Complaint): TemplateValues => ({
+    student_name: complaint.profile?.full_name || 'Student',
+    subject: complaint.subject,
+    category: complaint.category?.name,
+    status: getLabel(complaint.status),
+    admin_name: staff.find(a => a.user_id === user?.id)?.full_name,
+  });
+
+  /** Active admins who can be brought into the complaint's conversation. */
+  const mentionCandidates = (complaint: Complaint) =>
+    staff.filter(
+      (a) => !a.deactivated && a.user_id !== user?.id && (!complaint.is_confidential || a.canSeeConfidential)
+    );
+
+  /** Admins allowed to take complaints of a department, plus whoever already has the complaint. */
+  const assignableAdmins = (complaint: Complaint) =>
+    admins.filter(
+      (a) =>
+        a.user_id === complaint.assigned_to ||
+        ((!complaint.is_confidential || a.canSeeConfidential) &&
+          (a.departments === null ||
+            (complaint.department_id !== null && a.departments.includes(complaint.department_id))))
+    );
+
+  const adminName = (userId: string | null) => {
+    if (!userId) return 'Unassigned';
+    if (userId === user?.id) return 'Me';
+    return staff.find(a => a.user_id === userId)?.full_name || 'Unknown admin';
+  };
+
+  /** The list query with the current search and filters; ordering and paging are up to the caller. */
+  const listQuery = (count?: 'exact') => {
+    let query = supabase.rpc('list_admin_complaints', { _search: searchQuery.trim() || undefined }, { count });
+
+    if (statusFilter !== 'all') query = query.eq('status', statusFilter);
+    if (categoryFilter !== 'all') query = query.eq('category_id', categoryFilter);
+    if (departmentFilter === NO_DEPARTMENT) {
+      query = query.is('department_id', null);
+    } else if (departmentFilter !== 'all') {
+      query = query.eq('department_id', departmentFilter);
+    }
+    if (priorityFilter !== 'all') query = query.eq('priority', priorityFilter as Priority);
+    if (assignmentFilter === 'mine') {
+      query = query.eq('assigned_to', user!.id);
+    } else if (assignmentFilter === UNASSIGNED) {
+      query = query.is('assigned_to', null);
+    }
+
+    return query;
+  };
+
   const fetchComplaints = async () => {
+    const request = ++latestRequest.current;
+    const sort = sortOptions[sortKey];
+
     try {
-      const { data, error } = await supabase
-        .from('complaints')
-        .select(`*, category:categories(id, name)`)
-        .order('created_at', { ascending: false });
+      const { data, count, error } = await listQuery('exact')
+        .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+        .order('id')
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
 
       if (error) throw error;
+      if (request !== latestRequest.current) return;
 
-      if (data && data.length > 0) {
-        const userIds = [...new Set(data.map(c => c.user_id))];
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('user_id, full_name, email')
-          .in('user_id', userIds);
-
-        const profileMap = new Map(profiles?.map(p => [p.user_id, { full_name: p.full_name, email: p.email }]) || []);
-        
-        const complaintsWithProfiles = data.map(c => ({
-          ...c,
-          priority: (c as any).priority || 'medium',
-          profile: profileMap.get(c.user_id) || { full_name: 'Unknown', email: 'Unknown' }
-        }));
-        
-        setComplaints(complaintsWithProfiles as unknown as Complaint[]);
-      } else {
-        setComplaints([]);
-      }
+      setComplaints((data || []).map(toComplaint));
+      setTotalCount(count || 0);
     } catch (error) {
       console.error('Error fetching complaints:', error);
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) setLoading(false);
     }
   };
 
-  const filterComplaints = () => {
-    let filtered = [...complaints];
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (c) =>
-          c.subject.toLowerCase().includes(query) ||
-          c.description.toLowerCase().includes(query) ||
-          c.profile?.full_name?.toLowerCase().includes(query) ||
-          c.profile?.email?.toLowerCase().includes(query)
-      );
-    }
+  const setFilter = (key: string, value: string) => {
+    setSearchParams(
+      (params) => {
+        if (value && value !== 'all') {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+        // Any change other than paging starts again from the first page
+        if (key !== 'page') params.delete('page');
+        return params;
+      },
+      { replace: true }
+    );
+  };
 
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter((c) => c.status === statusFilter);
-    }
+  // Saved views replace every filter and go back to the first page
+  const applyView = (filters: ViewFilters) => {
+    setSearchParams(new URLSearchParams(filters as Record<string, string>), { replace: true });
+  };
 
-    if (categoryFilter !== 'all') {
-      filtered = filtered.filter((c) => c.category?.id === categoryFilter);
-    }
+  const pageHref = (target: number) => {
+    const params = new URLSearchParams(searchParams);
+    params.set('page', String(target));
+    return `?${params.toString()}`;
+  };
 
-    if (priorityFilter !== 'all') {
-      filtered = filtered.filter((c) => c.priority === priorityFilter);
-    }
+  const goToPage = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target < 1 || target > pageCount || target === page) return;
+    setFilter('page', String(target));
+  };
+
+  const showComplaint = (complaint: Complaint) => {
+    navigate({ pathname: `${basePath}/${complaint.id}`, search: searchParams.toString() });
+  };
 
-    setFilteredComplaints(filtered);
+  const closeComplaint = () => {
+    navigate({ pathname: basePath, search: searchParams.toString() });
   };
 
   const openComplaint = async (complaint: Complaint) => {
     setSelectedComplaint(complaint);
+    setNewActivity((current) => {
+      const next = new Set(current);
+      next.delete(complaint.id);
+      return next;
+    });
     setNewStatus(complaint.status);
     setNewPriority(complaint.priority);
+    setNewAssignee(complaint.assigned_to || UNASSIGNED);
     setAdminResponse(complaint.admin_response || '');
     setNewComment('');
-    
-    // Fetch comments
+    setCommentFiles([]);
+    setInternalNote(false);
+    setAttachments([]);
+    fetchAttachments(complaint.id)
+      .then(setAttachments)
+      .catch((error) => console.error('Error fetching attachments:', error));
+    setSupporterCount(0);
+    supabase
+      .from('complaint_supporters')
+      .select('*', { count: 'exact', head: true })
+      .eq('complaint_id', complaint.id)
+      .then(({ count }) => setSupporterCount(count || 0));
+    await fetchComments(complaint.id);
+  };
+
+  // Includes comments merged in from duplicates, and on a duplicate those moved away
+  const fetchComments = async (complaintId: string) => {
     const { data } = await supabase
       .from('complaint_comments')
-      .select('*')
-      .eq('complaint_id', complaint.id)
+      .select(COMMENT_COLUMNS)
+      .or(`complaint_id.eq.${complaintId},merged_from_complaint_id.eq.${complaintId}`)
       .order('created_at', { ascending: true });
     setComments((data as Comment[]) || []);
   };
 
+  /** Reloads the open complaint's thread after a merge moved comments and files around. */
+  const refreshThread = (complaintId: string) => {
+    fetchComments(complaintId);
+    fetchAttachments(complaintId)
+      .then(setAttachments)
+      .catch((error) => console.error('Error fetching attachments:', error));
+  };
+
   const handleUpdateComplaint = async () => {
     if (!selectedComplaint) return;
 
     setUpdating(true);
 
     try {
+      const assignee = newAssignee === UNASSIGNED ? null : newAssignee;
+      const assigneeChanged = assignee !== selectedComplaint.assigned_to;
+
       const updates: Record<string, unknown> = {
         status: newStatus,
         priority: newPriority,
         admin_response: adminResponse.trim() || null,
       };
 
-      if (newStatus === 'resolved' && selectedComplaint.status !== 'resolved') {
-        updates.resolved_at = new Date().toISOString();
+      if (assigneeChanged) {
+        updates.assigned_to = assignee;
+        updates.assigned_at = assignee ? new Date().toISOString() : null;
       }
 
       const { error: updateError } = await supabase
@@ -207,13 +603,23 @@ export default function AdminComplaints() {
       // Log the action
       await supabase.from('complaint_logs').insert([{
         complaint_id: selectedComplaint.id,
-        action: `Status: ${selectedComplaint.status} → ${newStatus}, Priority: ${selectedComplaint.priority} → ${newPriority}`,
-        old_status: selectedComplaint.status as 'submitted' | 'in_review' | 'resolved',
-        new_status: newStatus as 'submitted' | 'in_review' | 'resolved',
+        action: `Status: ${getLabel(selectedComplaint.status)} → ${getLabel(newStatus)}, Priority: ${selectedComplaint.priority} → ${newPriority}`,
+        old_status: selectedComplaint.status,
+        new_status: newStatus,
         notes: adminResponse.trim() || null,
         performed_by: user!.id,
       }]);
 
+      if (assigneeChanged) {
+        await supabase.from('complaint_logs').insert([{
+          complaint_id: selectedComplaint.id,
+          action: assignee
+            ? `Assigned: ${adminName(selectedComplaint.assigned_to)} → ${adminName(assignee)}`
+            : `Unassigned from ${adminName(selectedComplaint.assigned_to)}`,
+          performed_by: user!.id,
+        }]);
+      }
+
       // Send email notifications for status and priority changes
       if (newStatus !== selectedComplaint.status) {
         sendNotification({
@@ -233,8 +639,15 @@ export default function AdminComplaints() {
         }).catch(console.error);
       }
 
+      if (assigneeChanged && assignee && assignee !== user!.id) {
+        sendNotification({
+          type: 'assignment',
+          complaintId: selectedComplaint.id,
+        }).catch(console.error);
+      }
+
       toast.success('Complaint updated successfully');
-      setSelectedComplaint(null);
+      closeComplaint();
       fetchComplaints();
     } catch (error: unknown) {
       console.error('Error updating complaint:', error);
@@ -245,7 +658,7 @@ export default function AdminComplaints() {
   };
 
   const handleSendComment = async () => {
-    if (!selectedComplaint || !newComment.trim()) return;
+    if (!selectedComplaint || (!newComment.trim() && commentFiles.length === 0)) return;
 
     setSendingComment(true);
     try {
@@ -256,83 +669,195 @@ export default function AdminComplaints() {
           user_id: user!.id,
           content: newComment.trim(),
           is_admin: true,
+          is_internal: internalNote,
         }])
-        .select()
+        .select(COMMENT_COLUMNS)
         .single();
 
       if (error) throw error;
 
-      // Send email notification for admin comment
-      sendNotification({
-        type: 'admin_comment',
-        complaintId: selectedComplaint.id,
-        comment: newComment.trim(),
-      }).catch(console.error);
+      setComments((current) =>
+        current.some((c) => c.id === data.id) ? current : [...current, data as Comment]
+      );
+
+      const mentioned = findMentions(data.content, mentionCandidates(selectedComplaint));
+      if (mentioned.length > 0) {
+        const { error: mentionError } = await supabase.from('comment_mentions').insert(
+          mentioned.map((admin) => ({
+            comment_id: data.id,
+            complaint_id: selectedComplaint.id,
+            mentioned_user_id: admin.user_id,
+            mentioned_by: user!.id,
+          }))
+        );
+
+        if (mentionError) {
+          console.error('Error saving mentions:', mentionError);
+          toast.error('Could not notify the mentioned admins');
+        } else {
+          sendNotification({
+            type: 'mention',
+            complaintId: selectedComplaint.id,
+            commentId: data.id,
+          }).catch(console.error);
+        }
+      }
+
+      if (commentFiles.length > 0) {
+        setCommentUploadProgress(commentFiles.map(() => 0));
+        try {
+          appendAttachments(
+            await uploadAttachments({
+              files: commentFiles,
+              complaintId: selectedComplaint.id,
+              commentId: data.id,
+              userId: user!.id,
+              onProgress: (index, percent) =>
+                setCommentUploadProgress((current) => current?.map((p, i) => (i === index ? percent : p))),
+            })
+          );
+        } catch (uploadError) {
+          // The message itself went through; keep the files so they can be sent again
+          console.error('Upload error:', uploadError);
+          toast.error(`${internalNote ? 'Note' : 'Message'} sent, but the attachments could not be uploaded`);
+          setNewComment('');
+          return;
+        }
+      }
+
+      // Internal notes stay between admins, so the student isn't emailed
+      if (!internalNote) {
+        sendNotification({
+          type: 'admin_comment',
+          complaintId: selectedComplaint.id,
+          comment: newComment.trim() || `Sent ${commentFiles.length} attachment(s)`,
+        }).catch(console.error);
+      }
 
-      setComments([...comments, data as Comment]);
       setNewComment('');
-      toast.success('Comment sent');
+      setCommentFiles([]);
+      toast.success(internalNote ? 'Internal note added' : 'Comment sent');
     } catch (error: unknown) {
       console.error('Error sending comment:', error);
       toast.error('Failed to send comment');
     } finally {
       setSendingComment(false);
+      setCommentUploadProgress(undefined);
     }
   };
 
-  const toggleSelection = (id: string) => {
-    const newSet = new Set(selectedIds);
-    if (newSet.has(id)) {
-      newSet.delete(id);
+  const toggleSelection = (complaint: Complaint) => {
+    const next = new Map(selectedIds);
+    if (next.has(complaint.id)) {
+      next.delete(complaint.id);
     } else {
-      newSet.add(id);
+      next.set(complaint.id, complaint.status);
     }
-    setSelectedIds(newSet);
+    setSelectedIds(next);
   };
 
-  const toggleSelectAll = () => {
-    if (selectedIds.size === filteredComplaints.length) {
-      setSelectedIds(new Set());
+  const pageSelected = complaints.length > 0 && complaints.every((c) => selectedIds.has(c.id));
+
+  const toggleSelectPage = () => {
+    const next = new Map(selectedIds);
+    if (pageSelected) {
+      complaints.forEach((c) => next.delete(c.id));
     } else {
-      setSelectedIds(new Set(filteredComplaints.map(c => c.id)));
+      complaints.forEach((c) => next.set(c.id, c.status));
+    }
+    setSelectedIds(next);
+  };
+
+  const selectAllMatching = async () => {
+    setSelectingAll(true);
+    try {
+      const next = new Map<string, string>();
+      for (let from = 0; from < totalCount; from += SELECT_ALL_BATCH) {
+        const { data, error } = await listQuery()
+          .select('id, status')
+          .order('id')
+          .range(from, from + SELECT_ALL_BATCH - 1);
+
+        if (error) throw error;
+        (data || []).forEach((c) => next.set(c.id, c.status));
+        if (!data || data.length < SELECT_ALL_BATCH) break;
+      }
+      setSelectedIds(next);
+    } catch (error) {
+      console.error('Error selecting complaints:', error);
+      toast.error('Failed to select all matching complaints');
+    } finally {
+      setSelectingAll(false);
     }
   };
 
   const handleBulkUpdate = async () => {
     if (selectedIds.size === 0) return;
-    if (!bulkStatus && !bulkPriority) {
-      toast.error('Select a status or priority to update');
+    if (!bulkStatus && !bulkPriority && !bulkAssignee) {
+      toast.error('Select a status, priority or assignee to update');
       return;
     }
 
+    if (bulkStatus) {
+      const blocked = Array.from(selectedIds.values()).filter(
+        (status) => !canTransition(status, bulkStatus)
+      );
+      if (blocked.length > 0) {
+        toast.error(`${blocked.length} selected complaint(s) cannot move to "${getLabel(bulkStatus)}"`);
+        return;
+      }
+    }
+
     setBulkUpdating(true);
     try {
+      const bulkAssigneeId = bulkAssignee === UNASSIGNED ? null : bulkAssignee;
       const updates: Record<string, unknown> = {};
       if (bulkStatus) updates.status = bulkStatus;
       if (bulkPriority) updates.priority = bulkPriority;
-      if (bulkStatus === 'resolved') updates.resolved_at = new Date().toISOString();
+      if (bulkAssignee) {
+        updates.assigned_to = bulkAssigneeId;
+        updates.assigned_at = bulkAssigneeId ? new Date().toISOString() : null;
+      }
 
-      const { error } = await supabase
-        .from('complaints')
-        .update(updates)
-        .in('id', Array.from(selectedIds));
+      const ids = Array.from(selectedIds.keys());
+      for (const batch of chunk(ids, BULK_CHUNK_SIZE)) {
+        const { error } = await supabase
+          .from('complaints')
+          .update(updates)
+          .in('id', batch);
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       // Log bulk action
-      const logEntries = Array.from(selectedIds).map(id => ({
+      const changes = [
+        bulkStatus && `Status → ${getLabel(bulkStatus)}`,
+        bulkPriority && `Priority → ${bulkPriority}`,
+        bulkAssignee && (bulkAssigneeId ? `Assigned → ${adminName(bulkAssigneeId)}` : 'Unassigned'),
+      ].filter(Boolean);
+
+      const logEntries = ids.map(id => ({
         complaint_id: id,
-        action: `Bulk update: ${bulkStatus ? `Status → ${bulkStatus}` : ''}${bulkStatus && bulkPriority ? ', ' : ''}${bulkPriority ? `Priority → ${bulkPriority}` : ''}`,
-        new_status: bulkStatus as 'submitted' | 'in_review' | 'resolved' | null || null,
+        action: `Bulk update: ${changes.join(', ')}`,
+        new_status: bulkStatus || null,
         performed_by: user!.id,
       }));
 
-      await supabase.from('complaint_logs').insert(logEntries);
+      for (const batch of chunk(logEntries, SELECT_ALL_BATCH)) {
+        await supabase.from('complaint_logs').insert(batch);
+      }
+
+      if (bulkAssigneeId && bulkAssigneeId !== user!.id) {
+        ids.forEach((id) => {
+          sendNotification({ type: 'assignment', complaintId: id }).catch(console.error);
+        });
+      }
 
       toast.success(`Updated ${selectedIds.size} complaints`);
-      setSelectedIds(new Set());
+      setSelectedIds(new Map());
       setBulkStatus('');
       setBulkPriority('');
+      setBulkAssignee('');
       fetchComplaints();
     } catch (error) {
       console.error('Bulk update error:', error);
@@ -346,8 +871,10 @@ export default function AdminComplaints() {
     <div className="p-4 md:p-8 space-y-6 animate-fade-in">
       {/* Header */}
       <div>
-        <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">All Complaints</h1>
-        <p className="text-muted-foreground mt-1 text-sm md:text-base">Review and manage student complaints</p>
+        <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">{queue ? 'My Queue' : 'All Complaints'}</h1>
+        <p className="text-muted-foreground mt-1 text-sm md:text-base">
+          {queue ? 'Complaints currently assigned to you' : 'Review and manage student complaints'}
+        </p>
       </div>
 
       {/* Filters */}
@@ -357,25 +884,25 @@ export default function AdminComplaints() {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Search by subject, description, student name or email..."
+                placeholder="Search complaints, responses, comments or students..."
                 className="pl-10"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={(value) => setFilter('status', value)}>
               <SelectTrigger className="w-full lg:w-40">
                 <Filter className="h-4 w-4 mr-2" />
                 <SelectValue placeholder="Status" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="submitted">Submitted</SelectItem>
-                <SelectItem value="in_review">In Review</SelectItem>
-                <SelectItem value="resolved">Resolved</SelectItem>
+                {statuses.map((status) => (
+                  <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
-            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+            <Select value={priorityFilter} onValueChange={(value) => setFilter('priority', value)}>
               <SelectTrigger className="w-full lg:w-40">
                 <SelectValue placeholder="Priority" />
               </SelectTrigger>
@@ -387,7 +914,7 @@ export default function AdminComplaints() {
                 <SelectItem value="critical">Critical</SelectItem>
               </SelectContent>
             </Select>
-            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <Select value={categoryFilter} onValueChange={(value) => setFilter('category', value)}>
               <SelectTrigger className="w-full lg:w-40">
                 <SelectValue placeholder="Category" />
               </SelectTrigger>
@@ -398,12 +925,58 @@ export default function AdminComplaints() {
                 ))}
               </SelectContent>
             </Select>
+            {isSuperAdmin && departments.length > 0 && (
+              <Select value={departmentFilter} onValueChange={(value) => setFilter('department', value)}>
+                <SelectTrigger className="w-full lg:w-40">
+                  <SelectValue placeholder="Department" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Departments</SelectItem>
+                  <SelectItem value={NO_DEPARTMENT}>No department</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department.id} value={department.id}>{department.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {!queue && (
+              <Select value={assignmentFilter} onValueChange={(value) => setFilter('assignee', value)}>
+                <SelectTrigger className="w-full lg:w-44">
+                  <UserCheck className="h-4 w-4 mr-2" />
+                  <SelectValue placeholder="Assignment" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="mine">Assigned to me</SelectItem>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={sortKey} onValueChange={(value) => setFilter('sort', value === 'newest' ? '' : value)}>
+              <SelectTrigger className="w-full lg:w-48">
+                <ArrowDownUp className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Sort" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(sortOptions).map(([key, option]) => (
+                  <SelectItem key={key} value={key}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardContent>
       </Card>
 
+      {/* Saved Views */}
+      <SavedViews
+        filters={viewFiltersFromParams(searchParams)}
+        onApply={applyView}
+        applyDefault={applyDefaultView}
+        ownerName={adminName}
+      />
+
       {/* Bulk Actions */}
-      {selectedIds.size > 0 && (
+      {canUpdate && selectedIds.size > 0 && (
         <Card className="shadow-card border-primary/50 bg-primary/5">
           <CardContent className="p-4">
             <div className="flex flex-col sm:flex-row items-start sm:items-center gap-4">
@@ -417,9 +990,9 @@ export default function AdminComplaints() {
                     <SelectValue placeholder="Set status" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="submitted">Submitted</SelectItem>
-                    <SelectItem value="in_review">In Review</SelectItem>
-                    <SelectItem value="resolved">Resolved</SelectItem>
+                    {statuses.map((status) => (
+                      <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <Select value={bulkPriority} onValueChange={setBulkPriority}>
@@ -433,15 +1006,48 @@ export default function AdminComplaints() {
                     <SelectItem value="critical">Critical</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select value={bulkAssignee} onValueChange={setBulkAssignee}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="Assign to" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {admins.map((admin) => (
+                      <SelectItem key={admin.user_id} value={admin.user_id}>
+                        {admin.user_id === user?.id ? `${admin.full_name} (me)` : admin.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                 <Button onClick={handleBulkUpdate} disabled={bulkUpdating}>
                   {bulkUpdating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                   Apply
                 </Button>
-                <Button variant="outline" onClick={() => setSelectedIds(new Set())}>
+                <Button variant="outline" onClick={() => setSelectedIds(new Map())}>
                   Clear
                 </Button>
               </div>
             </div>
+            {pageSelected && totalCount > complaints.length && (
+              <p className="text-sm text-muted-foreground mt-3">
+                {selectedIds.size >= totalCount ? (
+                  <>All {totalCount} matching complaints are selected.</>
+                ) : (
+                  <>
+                    All {complaints.length} complaints on this page are selected.{' '}
+                    <Button
+                      variant="link"
+                      className="h-auto p-0"
+                      onClick={selectAllMatching}
+                      disabled={selectingAll}
+                    >
+                      {selectingAll && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+                      Select all {totalCount} matching complaints
+                    </Button>
+                  </>
+                )}
+              </p>
+            )}
           </CardContent>
         </Card>
       )}
@@ -451,16 +1057,16 @@ export default function AdminComplaints() {
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <CardTitle className="font-display">Complaints ({filteredComplaints.length})</CardTitle>
+              <CardTitle className="font-display">Complaints ({totalCount})</CardTitle>
               <CardDescription>Click on a complaint to view and update</CardDescription>
             </div>
-            {filteredComplaints.length > 0 && (
-              <Button variant="outline" size="sm" onClick={toggleSelectAll} className="gap-2">
+            {canUpdate && complaints.length > 0 && (
+              <Button variant="outline" size="sm" onClick={toggleSelectPage} className="gap-2">
                 <Checkbox
-                  checked={selectedIds.size === filteredComplaints.length && filteredComplaints.length > 0}
+                  checked={pageSelected}
                   className="pointer-events-none"
                 />
-                Select All
+                Select Page
               </Button>
             )}
           </div>
@@ -472,42 +1078,66 @@ export default function AdminComplaints() {
                 <div key={i} className="h-24 bg-muted animate-pulse rounded-lg" />
               ))}
             </div>
-          ) : filteredComplaints.length === 0 ? (
+          ) : complaints.length === 0 ? (
             <div className="text-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
               <p className="text-muted-foreground">No complaints found</p>
             </div>
           ) : (
             <div className="space-y-3">
-              {filteredComplaints.map((complaint, index) => (
+              {complaints.map((complaint, index) => (
                 <div
                   key={complaint.id}
-                  className="flex items-center gap-4 p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors animate-slide-in"
+                  className={`flex items-center gap-4 p-4 rounded-lg border hover:bg-muted/50 transition-colors animate-slide-in ${
+                    newActivity.has(complaint.id) ? 'border-primary/50 bg-primary/5' : 'border-border'
+                  }`}
                   style={{ animationDelay: `${index * 30}ms` }}
                 >
-                  <Checkbox
-                    checked={selectedIds.has(complaint.id)}
-                    onCheckedChange={() => toggleSelection(complaint.id)}
-                    onClick={(e) => e.stopPropagation()}
-                  />
+                  {canUpdate && (
+                    <Checkbox
+                      checked={selectedIds.has(complaint.id)}
+                      onCheckedChange={() => toggleSelection(complaint)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                  )}
                   <div
                     className="flex items-center justify-between flex-1 min-w-0 cursor-pointer"
-                    onClick={() => openComplaint(complaint)}
+                    onClick={() => showComplaint(complaint)}
                   >
                     <div className="space-y-1 flex-1 min-w-0">
                       <div className="flex items-center gap-2 flex-wrap">
                         <p className="font-medium">{complaint.subject}</p>
                         <StatusBadge status={complaint.status} />
                         <PriorityBadge priority={complaint.priority} />
-                        {complaint.attachment_url && (
+                        <SlaIndicator complaint={complaint} />
+                        <PrivacyBadges anonymous={complaint.is_anonymous} confidential={complaint.is_confidential} />
+                        {complaint.merged_into && (
+                          <Badge variant="outline" className="gap-1">
+                            <GitMerge className="h-3 w-3" />
+                            Merged
+                          </Badge>
+                        )}
+                        {complaint.parent_id && (
+                          <Badge variant="outline" className="gap-1">
+                            <Link2 className="h-3 w-3" />
+                            Incident
+                          </Badge>
+                        )}
+                        {newActivity.has(complaint.id) && <NewActivityBadge />}
+                        {complaint.attachment_count > 0 && (
                           <Paperclip className="h-3.5 w-3.5 text-muted-foreground" />
                         )}
                       </div>
                       <p className="text-sm text-muted-foreground line-clamp-1">{complaint.description}</p>
                       <p className="text-xs text-muted-foreground">
-                        <span className="font-medium">{complaint.profile?.full_name || 'Unknown'}</span>
+                        <span className={complaint.profile ? 'font-medium' : 'font-medium italic'}>
+                          {complaint.profile ? complaint.profile.full_name : 'Anonymous student'}
+                        </span>
                         {' • '}{complaint.category?.name}
+                        {complaint.department_name && <>{' • '}{complaint.department_name}</>}
                         {' • '}{new Date(complaint.created_at).toLocaleDateString()}
+                        {' • '}
+                        <span className={complaint.assigned_to ? '' : 'italic'}>{adminName(complaint.assigned_to)}</span>
                       </p>
                     </div>
                     <Button variant="ghost" size="icon" className="shrink-0 ml-4">
@@ -518,11 +1148,50 @@ export default function AdminComplaints() {
               ))}
             </div>
           )}
+
+          {pageCount > 1 && (
+            <div className="flex flex-col sm:flex-row items-center justify-between gap-3 mt-6">
+              <p className="text-sm text-muted-foreground">
+                Showing {(page - 1) * PAGE_SIZE + 1}–{Math.min(page * PAGE_SIZE, totalCount)} of {totalCount}
+              </p>
+              <Pagination className="mx-0 w-auto">
+                <PaginationContent>
+                  <PaginationItem>
+                    <PaginationPrevious
+                      href={pageHref(page - 1)}
+                      onClick={goToPage(page - 1)}
+                      aria-disabled={page === 1}
+                      className={page === 1 ? 'pointer-events-none opacity-50' : ''}
+                    />
+                  </PaginationItem>
+                  {getPageItems(page, pageCount).map((item, index) => (
+                    <PaginationItem key={`${item}-${index}`}>
+                      {item === 'ellipsis' ? (
+                        <PaginationEllipsis />
+                      ) : (
+                        <PaginationLink href={pageHref(item)} onClick={goToPage(item)} isActive={item === page}>
+                          {item}
+                        </PaginationLink>
+                      )}
+                    </PaginationItem>
+                  ))}
+                  <PaginationItem>
+                    <PaginationNext
+                      href={pageHref(page + 1)}
+                      onClick={goToPage(page + 1)}
+                      aria-disabled={page === pageCount}
+                      className={page === pageCount ? 'pointer-events-none opacity-50' : ''}
+                    />
+                  </PaginationItem>
+                </PaginationContent>
+              </Pagination>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Update Dialog */}
-      <Dialog open={!!selectedComplaint} onOpenChange={() => setSelectedComplaint(null)}>
+      <Dialog open={!!selectedComplaint} onOpenChange={(open) => !open && closeComplaint()}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
           {selectedComplaint && (
             <>
@@ -531,11 +1200,31 @@ export default function AdminComplaints() {
                   <DialogTitle className="font-display">{selectedComplaint.subject}</DialogTitle>
                   <StatusBadge status={selectedComplaint.status} />
                   <PriorityBadge priority={selectedComplaint.priority} />
+                  <SlaIndicator complaint={selectedComplaint} />
+                  <PrivacyBadges anonymous={selectedComplaint.is_anonymous} confidential={selectedComplaint.is_confidential} />
                 </div>
                 <DialogDescription>
-                  Submitted by <span className="font-medium">{selectedComplaint.profile?.full_name}</span> ({selectedComplaint.profile?.email})
+                  {selectedComplaint.profile ? (
+                    <>
+                      Submitted by <span className="font-medium">{selectedComplaint.profile.full_name}</span> ({selectedComplaint.profile.email})
+                      {selectedComplaint.is_anonymous && ' • filed anonymously'}
+                    </>
+                  ) : (
+                    <>Submitted anonymously. Replies reach the student through comments.</>
+                  )}
                   <br />
-                  {selectedComplaint.category?.name} • {new Date(selectedComplaint.created_at).toLocaleString()}
+                  {selectedComplaint.category?.name} • {selectedComplaint.department_name || 'No department'}
+                  {' • '}{new Date(selectedComplaint.created_at).toLocaleString()}
+                  {' • '}Assigned to {adminName(selectedComplaint.assigned_to)}
+                  {supporterCount > 0 && (
+                    <>
+                      <br />
+                      <span className="inline-flex items-center gap-1 font-medium text-foreground">
+                        <Users className="h-3.5 w-3.5" />
+                        {supporterCount} other {supporterCount === 1 ? 'student has' : 'students have'} +1'd this complaint
+                      </span>
+                    </>
+                  )}
                 </DialogDescription>
               </DialogHeader>
               
@@ -546,28 +1235,43 @@ export default function AdminComplaints() {
                     <p className="text-foreground bg-muted/50 p-4 rounded-lg">{selectedComplaint.description}</p>
                   </div>
 
-                  {selectedComplaint.attachment_url && (
+                  {attachments.some((a) => isComplaintAttachment(a, selectedComplaint.id)) && (
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Attachment</h4>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="gap-2"
-                        onClick={async () => {
-                          const { data } = await supabase.storage
-                            .from('complaint-attachments')
-                            .createSignedUrl(selectedComplaint.attachment_url!, 60);
-                          if (data?.signedUrl) {
-                            window.open(data.signedUrl, '_blank');
-                          }
-                        }}
-                      >
-                        <Download className="h-4 w-4" />
-                        View Attachment
-                      </Button>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Attachments</h4>
+                      <AttachmentGallery attachments={attachments.filter((a) => isComplaintAttachment(a, selectedComplaint.id))} />
                     </div>
                   )}
 
+                  {!selectedComplaint.merged_into && (
+                    <TriageSuggestion
+                      complaint={selectedComplaint}
+                      categories={categories}
+                      canEdit={canUpdate && handlesComplaint(selectedComplaint)}
+                      onReviewed={fetchComplaints}
+                    />
+                  )}
+
+                  {!selectedComplaint.merged_into && (
+                    <PossibleDuplicates
+                      complaint={selectedComplaint}
+                      onOpen={(id) => navigate({ pathname: `${basePath}/${id}`, search: searchParams.toString() })}
+                    />
+                  )}
+
+                  <RelatedComplaints
+                    complaint={selectedComplaint}
+                    canEdit={canUpdate && handlesComplaint(selectedComplaint)}
+                    onOpen={(id) => navigate({ pathname: `${basePath}/${id}`, search: searchParams.toString() })}
+                    onChanged={() => {
+                      refreshThread(selectedComplaint.id);
+                      fetchComplaints();
+                    }}
+                    onIncidentResolved={() => {
+                      closeComplaint();
+                      fetchComplaints();
+                    }}
+                  />
+
                   {/* Comments Section */}
                   <div>
                     <h4 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
@@ -582,94 +1286,206 @@ export default function AdminComplaints() {
                           <div
                             key={comment.id}
                             className={`p-3 rounded-lg ${
-                              comment.is_admin
+                              comment.is_internal
+                                ? 'bg-amber-500/10 border border-dashed border-amber-500/40 ml-8'
+                                : comment.is_admin
                                 ? 'bg-primary/10 border border-primary/20 ml-8'
                                 : 'bg-muted mr-8'
                             }`}
                           >
                             <div className="flex items-center gap-2 mb-1">
-                              <span className="text-xs font-medium">
-                                {comment.is_admin ? 'Admin' : 'Student'}
-                              </span>
+                              {comment.is_internal ? (
+                                <span className="text-xs font-medium flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                                  <Lock className="h-3 w-3" />
+                                  Internal note • {comment.author_id ? adminName(comment.author_id) : 'System'}
+                                </span>
+                              ) : (
+                                <span className="text-xs font-medium">
+                                  {comment.is_admin ? 'Admin' : 'Student'}
+                                </span>
+                              )}
                               <span className="text-xs text-muted-foreground">
                                 {new Date(comment.created_at).toLocaleString()}
                               </span>
+                              {comment.merged_from_complaint_id && comment.merged_from_complaint_id !== selectedComplaint.id && (
+                                <span className="text-xs text-muted-foreground flex items-center gap-1">
+                                  <GitMerge className="h-3 w-3" />
+                                  From a merged complaint
+                                </span>
+                              )}
                             </div>
-                            <p className="text-sm">{comment.content}</p>
+                            {comment.content && (
+                              <p className="text-sm">
+                                {splitMentions(comment.content, staff).map((segment, i) =>
+                                  segment.mention ? (
+                                    <span key={i} className="font-medium text-primary">{segment.text}</span>
+                                  ) : (
+                                    segment.text
+                                  )
+                                )}
+                              </p>
+                            )}
+                            <AttachmentGallery
+                              attachments={attachments.filter((a) => a.comment_id === comment.id)}
+                              compact
+                              className="mt-2"
+                            />
                           </div>
                         ))
                       )}
                     </div>
-                    <div className="flex gap-2">
-                      <Input
-                        placeholder="Type a comment..."
-                        value={newComment}
-                        onChange={(e) => setNewComment(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSendComment()}
-                      />
-                      <Button size="icon" onClick={handleSendComment} disabled={sendingComment || !newComment.trim()}>
-                        {sendingComment ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-                      </Button>
-                    </div>
+                    {canComment && (
+                      <>
+                        <AttachmentList
+                          files={commentFiles}
+                          onChange={setCommentFiles}
+                          progress={commentUploadProgress}
+                          disabled={sendingComment}
+                          className="mb-2"
+                        />
+                        <div className="flex items-center gap-2 mb-2">
+                          <Switch
+                            id="internal-note"
+                            checked={internalNote}
+                            onCheckedChange={setInternalNote}
+                            disabled={sendingComment}
+                          />
+                          <Label htmlFor="internal-note" className="text-sm font-normal flex items-center gap-1.5">
+                            <Lock className="h-3.5 w-3.5" />
+                            Internal note
+                            <span className="text-muted-foreground">(only visible to admins)</span>
+                          </Label>
+                        </div>
+                        <div className="flex gap-2">
+                          <MentionInput
+                            placeholder={
+                              internalNote ? 'Write a note for other admins, @ to mention...' : 'Type a comment, @ to mention an admin...'
+                            }
+                            className={internalNote ? 'border-dashed border-amber-500/60' : undefined}
+                            value={newComment}
+                            onChange={setNewComment}
+                            candidates={mentionCandidates(selectedComplaint)}
+                            onSubmit={handleSendComment}
+                          />
+                          <TemplatePicker
+                            templates={templates}
+                            categoryId={selectedComplaint.category?.id || null}
+                            values={templateValues(selectedComplaint)}
+                            // The composer is a single line, so line breaks become spaces
+                            onInsert={(text) => {
+                              const line = text.replace(/\s*\n+\s*/g, ' ');
+                              setNewComment((current) => (current.trim() ? `${current.trimEnd()} ${line}` : line));
+                            }}
+                            disabled={sendingComment}
+                            compact
+                          />
+                          <AttachButton files={commentFiles} onChange={setCommentFiles} disabled={sendingComment} compact />
+                          <Button size="icon" onClick={handleSendComment} disabled={sendingComment || (!newComment.trim() && commentFiles.length === 0)}>
+                            {sendingComment ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </>
+                    )}
                   </div>
 
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label>Update Status</Label>
-                      <Select value={newStatus} onValueChange={setNewStatus}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="submitted">Submitted</SelectItem>
-                          <SelectItem value="in_review">In Review</SelectItem>
-                          <SelectItem value="resolved">Resolved</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
+                  {canUpdate && handlesComplaint(selectedComplaint) ? (
+                    <>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div className="space-y-2">
+                          <Label>Update Status</Label>
+                          {/* A merged complaint stays closed; its primary carries on */}
+                          <Select value={newStatus} onValueChange={setNewStatus} disabled={!!selectedComplaint.merged_into}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {nextStatuses(selectedComplaint.status).map((status) => (
+                                <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
 
-                    <div className="space-y-2">
-                      <Label>Update Priority</Label>
-                      <Select value={newPriority} onValueChange={(v) => setNewPriority(v as Priority)}>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="low">Low</SelectItem>
-                          <SelectItem value="medium">Medium</SelectItem>
-                          <SelectItem value="high">High</SelectItem>
-                          <SelectItem value="critical">Critical</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
+                        <div className="space-y-2">
+                          <Label>Update Priority</Label>
+                          <Select value={newPriority} onValueChange={(v) => setNewPriority(v as Priority)}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="low">Low</SelectItem>
+                              <SelectItem value="medium">Medium</SelectItem>
+                              <SelectItem value="high">High</SelectItem>
+                              <SelectItem value="critical">Critical</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
 
-                  <div className="space-y-2">
-                    <Label>Admin Response</Label>
-                    <Textarea
-                      placeholder="Add your response or resolution notes..."
-                      value={adminResponse}
-                      onChange={(e) => setAdminResponse(e.target.value)}
-                      rows={4}
-                    />
-                  </div>
-                </div>
-              </ScrollArea>
+                        <div className="space-y-2">
+                          <Label>Assigned To</Label>
+                          <Select value={newAssignee} onValueChange={setNewAssignee}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                              {assignableAdmins(selectedComplaint).map((admin) => (
+                                <SelectItem key={admin.user_id} value={admin.user_id}>
+                                  {admin.user_id === user?.id ? `${admin.full_name} (me)` : admin.full_name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
 
-              <DialogFooter className="mt-6">
-                <Button variant="outline" onClick={() => setSelectedComplaint(null)}>
-                  Cancel
-                </Button>
-                <Button onClick={handleUpdateComplaint} disabled={updating}>
-                  {updating ? (
-                    <>
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Updating...
+                      <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <Label>Admin Response</Label>
+                          <TemplatePicker
+                            templates={templates}
+                            categoryId={selectedComplaint.category?.id || null}
+                            values={templateValues(selectedComplaint)}
+                            onInsert={(text) =>
+                              setAdminResponse((current) => (current.trim() ? `${current.trimEnd()}\n\n${text}` : text))
+                            }
+                          />
+                        </div>
+                        <Textarea
+                          placeholder="Add your response or resolution notes..."
+                          value={adminResponse}
+                          onChange={(e) => setAdminResponse(e.target.value)}
+                          rows={4}
+                        />
+                      </div>
                     </>
                   ) : (
-                    'Update Complaint'
+                    selectedComplaint.admin_response && (
+                      <div>
+                        <h4 className="text-sm font-medium text-muted-foreground mb-2">Admin Response</h4>
+                        <p className="text-foreground bg-muted/50 p-4 rounded-lg whitespace-pre-wrap">{selectedComplaint.admin_response}</p>
+                      </div>
+                    )
                   )}
+                </div>
+              </ScrollArea>
+
+              <DialogFooter className="mt-6">
+                <Button variant="outline" onClick={closeComplaint}>
+                  {canUpdate && handlesComplaint(selectedComplaint) ? 'Cancel' : 'Close'}
                 </Button>
+                {canUpdate && handlesComplaint(selectedComplaint) && (
+                  <Button onClick={handleUpdateComplaint} disabled={updating}>
+                    {updating ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Updating...
+                      </>
+                    ) : (
+                      'Update Complaint'
+                    )}
+                  </Button>
+                )}
               </DialogFooter>
             </>
           )}
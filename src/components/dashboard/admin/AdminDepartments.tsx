@@ -0,0 +1,458 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Building2, Plus, Pencil, Trash2, Loader2, Users } from 'lucide-react';
+import { z } from 'zod';
+
+interface Department {
+  id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+}
+
+interface AdminProfile {
+  user_id: string;
+  full_name: string;
+  email: string;
+}
+
+const departmentSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters').max(50, 'Name must be less than 50 characters'),
+  description: z.string().trim().max(200, 'Description must be less than 200 characters').optional(),
+});
+
+export default function AdminDepartments() {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string; department_id: string | null }[]>([]);
+  const [members, setMembers] = useState<{ department_id: string; user_id: string }[]>([]);
+  const [admins, setAdmins] = useState<AdminProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDepartment, setEditingDepartment] = useState<Department | null>(null);
+  const [departmentToDelete, setDepartmentToDelete] = useState<Department | null>(null);
+  const [membersDepartment, setMembersDepartment] = useState<Department | null>(null);
+  const [togglingMember, setTogglingMember] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+
+  useEffect(() => {
+    fetchDepartments();
+    fetchAdmins();
+  }, []);
+
+  const fetchDepartments = async () => {
+    try {
+      const [departmentsResult, categoriesResult, membersResult] = await Promise.all([
+        supabase.from('departments').select('id, name, description, created_at').order('name'),
+        supabase.from('categories').select('id, name, department_id').order('name'),
+        supabase.from('department_members').select('department_id, user_id'),
+      ]);
+
+      if (departmentsResult.error) throw departmentsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (membersResult.error) throw membersResult.error;
+
+      setDepartments(departmentsResult.data || []);
+      setCategories(categoriesResult.data || []);
+      setMembers(membersResult.data || []);
+    } catch (error) {
+      console.error('Error fetching departments:', error);
+      toast.error('Failed to load departments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchAdmins = async () => {
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role', 'admin');
+
+    if (!roles || roles.length === 0) {
+      setAdmins([]);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, full_name, email')
+      .in('user_id', roles.map(r => r.user_id))
+      .order('full_name');
+    setAdmins(profiles || []);
+  };
+
+  const adminName = (userId: string) => admins.find(a => a.user_id === userId)?.full_name || 'Unknown admin';
+
+  const openCreateDialog = () => {
+    setEditingDepartment(null);
+    setName('');
+    setDescription('');
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (department: Department) => {
+    setEditingDepartment(department);
+    setName(department.name);
+    setDescription(department.description || '');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = departmentSchema.parse({ name, description: description || undefined });
+      setSaving(true);
+
+      if (editingDepartment) {
+        const { error } = await supabase
+          .from('departments')
+          .update({
+            name: validated.name,
+            description: validated.description || null,
+          })
+          .eq('id', editingDepartment.id);
+
+        if (error) throw error;
+        toast.success('Department updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('departments')
+          .insert({
+            name: validated.name,
+            description: validated.description || null,
+          });
+
+        if (error) throw error;
+        toast.success('Department created successfully');
+      }
+
+      setDialogOpen(false);
+      fetchDepartments();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving department:', error);
+        toast.error((error as Error).message || 'Failed to save department');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!departmentToDelete) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('departments')
+        .delete()
+        .eq('id', departmentToDelete.id);
+
+      if (error) throw error;
+
+      toast.success('Department deleted successfully');
+      setDepartmentToDelete(null);
+      fetchDepartments();
+    } catch (error: unknown) {
+      console.error('Error deleting department:', error);
+      toast.error((error as Error).message || 'Failed to delete department');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMember = async (department: Department, userId: string, isMember: boolean) => {
+    setTogglingMember(userId);
+    try {
+      const { error } = isMember
+        ? await supabase
+            .from('department_members')
+            .delete()
+            .eq('department_id', department.id)
+            .eq('user_id', userId)
+        : await supabase
+            .from('department_members')
+            .insert({ department_id: department.id, user_id: userId });
+
+      if (error) throw error;
+
+      setMembers((current) =>
+        isMember
+          ? current.filter((m) => !(m.department_id === department.id && m.user_id === userId))
+          : [...current, { department_id: department.id, user_id: userId }]
+      );
+    } catch (error: unknown) {
+      console.error('Error updating department members:', error);
+      toast.error((error as Error).message || 'Failed to update members');
+    } finally {
+      setTogglingMember(null);
+    }
+  };
+
+  const unroutedCategories = categories.filter((c) => !c.department_id);
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Departments</h1>
+          <p className="text-muted-foreground mt-1 text-sm md:text-base">
+            Route complaints to the teams that handle them
+          </p>
+        </div>
+        <Button onClick={openCreateDialog} className="gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          Add Department
+        </Button>
+      </div>
+
+      {/* Departments List */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">All Departments ({departments.length})</CardTitle>
+          <CardDescription>
+            New complaints go to the department owning their category. Department admins only see their
+            department's complaints; super admins see everything.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-20 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : departments.length === 0 ? (
+            <div className="text-center py-12">
+              <Building2 className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No departments yet</p>
+              <Button variant="outline" className="mt-4" onClick={openCreateDialog}>
+                Create Your First Department
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {departments.map((department, index) => {
+                const departmentCategories = categories.filter((c) => c.department_id === department.id);
+                const departmentMembers = members.filter((m) => m.department_id === department.id);
+                return (
+                  <div
+                    key={department.id}
+                    className="flex items-start justify-between p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors animate-slide-in"
+                    style={{ animationDelay: `${index * 30}ms` }}
+                  >
+                    <div className="space-y-2 flex-1 min-w-0">
+                      <div>
+                        <p className="font-medium">{department.name}</p>
+                        {department.description && (
+                          <p className="text-sm text-muted-foreground line-clamp-1">{department.description}</p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-1.5">
+                        {departmentCategories.length === 0 ? (
+                          <span className="text-xs text-muted-foreground italic">No categories</span>
+                        ) : (
+                          departmentCategories.map((category) => (
+                            <Badge key={category.id} variant="secondary">{category.name}</Badge>
+                          ))
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {departmentMembers.length === 0
+                          ? 'No admins yet'
+                          : departmentMembers.map((m) => adminName(m.user_id)).join(', ')}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 ml-4">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setMembersDepartment(department)}
+                        title="Manage admins"
+                      >
+                        <Users className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => openEditDialog(department)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => setDepartmentToDelete(department)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {!loading && unroutedCategories.length > 0 && (
+            <p className="text-sm text-muted-foreground mt-4">
+              Not routed to a department (only super admins see these complaints):{' '}
+              {unroutedCategories.map((c) => c.name).join(', ')}. Assign them under Categories.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {editingDepartment ? 'Edit Department' : 'Create Department'}
+            </DialogTitle>
+            <DialogDescription>
+              {editingDepartment
+                ? 'Update the department details below'
+                : 'Add a team that complaints can be routed to'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="department-name">Name *</Label>
+              <Input
+                id="department-name"
+                placeholder="e.g., Facilities"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={50}
+              />
+              <p className="text-xs text-muted-foreground text-right">{name.length}/50</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="department-description">Description (optional)</Label>
+              <Textarea
+                id="department-description"
+                placeholder="What this department handles..."
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+                maxLength={200}
+              />
+              <p className="text-xs text-muted-foreground text-right">{description.length}/200</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : editingDepartment ? (
+                'Update Department'
+              ) : (
+                'Create Department'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Members Dialog */}
+      <Dialog open={!!membersDepartment} onOpenChange={(open) => !open && setMembersDepartment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">{membersDepartment?.name} Admins</DialogTitle>
+            <DialogDescription>
+              These admins see and handle the department's complaints
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-80 overflow-y-auto space-y-1 py-2">
+            {admins.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">No admins found</p>
+            ) : (
+              admins.map((admin) => {
+                const isMember = members.some(
+                  (m) => m.department_id === membersDepartment?.id && m.user_id === admin.user_id
+                );
+                return (
+                  <label
+                    key={admin.user_id}
+                    className="flex items-center gap-3 p-2 rounded-md hover:bg-muted/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={isMember}
+                      disabled={togglingMember === admin.user_id}
+                      onCheckedChange={() => membersDepartment && toggleMember(membersDepartment, admin.user_id, isMember)}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">{admin.full_name}</p>
+                      <p className="text-xs text-muted-foreground truncate">{admin.email}</p>
+                    </div>
+                  </label>
+                );
+              })
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMembersDepartment(null)}>
+              Done
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!departmentToDelete} onOpenChange={(open) => !open && setDepartmentToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Department</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{departmentToDelete?.name}"? Its categories and complaints
+              will no longer be routed to a department and only super admins will see them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
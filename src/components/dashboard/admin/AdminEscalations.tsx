@@ -0,0 +1,567 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Siren, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { z } from 'zod';
+
+type Priority = 'low' | 'medium' | 'high' | 'critical';
+type EscalationRule = Tables<'escalation_rules'>;
+
+// Select value for "no condition" or "no action"
+const ANY = 'any';
+const PRIORITIES: Priority[] = ['low', 'medium', 'high', 'critical'];
+
+const ruleSchema = z
+  .object({
+    name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be less than 100 characters'),
+    min_age_hours: z.number().int('Hours must be whole numbers').min(1, 'Age must be at least 1 hour'),
+    raise_priority_to: z.string().nullable(),
+    assign_to: z.string().nullable(),
+    notify_user_id: z.string().nullable(),
+    internal_note: z.string().trim().max(2000, 'Internal note must be less than 2000 characters').nullable(),
+  })
+  .refine((r) => r.raise_priority_to || r.assign_to || r.notify_user_id || r.internal_note, {
+    message: 'Choose at least one action',
+  });
+
+export default function AdminEscalations() {
+  const { user } = useAuth();
+  const { statuses, getLabel } = useWorkflow();
+  const [rules, setRules] = useState<EscalationRule[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [admins, setAdmins] = useState<{ user_id: string; full_name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<EscalationRule | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<EscalationRule | null>(null);
+
+  const [name, setName] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [status, setStatus] = useState(ANY);
+  const [priority, setPriority] = useState(ANY);
+  const [categoryId, setCategoryId] = useState(ANY);
+  const [minAgeHours, setMinAgeHours] = useState('');
+  const [requireNoAdminResponse, setRequireNoAdminResponse] = useState(false);
+  const [raisePriorityTo, setRaisePriorityTo] = useState(ANY);
+  const [assignTo, setAssignTo] = useState(ANY);
+  const [notifyUserId, setNotifyUserId] = useState(ANY);
+  const [internalNote, setInternalNote] = useState('');
+
+  useEffect(() => {
+    fetchRules();
+    fetchCategories();
+    fetchAdmins();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('escalation_rules')
+        .select('*')
+        .order('created_at');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching escalation rules:', error);
+      toast.error('Failed to load escalation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    const { data } = await supabase.from('categories').select('id, name').order('name');
+    setCategories(data || []);
+  };
+
+  const fetchAdmins = async () => {
+    const { data: roles } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role', 'admin');
+
+    if (!roles || roles.length === 0) {
+      setAdmins([]);
+      return;
+    }
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', roles.map(r => r.user_id))
+      .is('deactivated_at', null)
+      .order('full_name');
+    setAdmins(profiles || []);
+  };
+
+  const adminName = (userId: string) => admins.find(a => a.user_id === userId)?.full_name || 'Unknown admin';
+  const categoryName = (id: string) => categories.find((c) => c.id === id)?.name || 'Unknown';
+
+  const describeConditions = (rule: EscalationRule) =>
+    [
+      rule.status && getLabel(rule.status),
+      rule.priority && `${rule.priority} priority`,
+      rule.category_id && categoryName(rule.category_id),
+      `older than ${rule.min_age_hours}h`,
+      rule.require_no_admin_response && 'no admin reply',
+    ].filter(Boolean);
+
+  const describeActions = (rule: EscalationRule) =>
+    [
+      rule.raise_priority_to && `Raise to ${rule.raise_priority_to}`,
+      rule.assign_to && `Assign to ${adminName(rule.assign_to)}`,
+      rule.notify_user_id && `Notify ${adminName(rule.notify_user_id)}`,
+      rule.internal_note && 'Add internal note',
+    ].filter(Boolean);
+
+  const openCreateDialog = () => {
+    setEditingRule(null);
+    setName('');
+    setIsActive(true);
+    setStatus(ANY);
+    setPriority(ANY);
+    setCategoryId(ANY);
+    setMinAgeHours('');
+    setRequireNoAdminResponse(false);
+    setRaisePriorityTo(ANY);
+    setAssignTo(ANY);
+    setNotifyUserId(ANY);
+    setInternalNote('');
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (rule: EscalationRule) => {
+    setEditingRule(rule);
+    setName(rule.name);
+    setIsActive(rule.is_active);
+    setStatus(rule.status || ANY);
+    setPriority(rule.priority || ANY);
+    setCategoryId(rule.category_id || ANY);
+    setMinAgeHours(String(rule.min_age_hours));
+    setRequireNoAdminResponse(rule.require_no_admin_response);
+    setRaisePriorityTo(rule.raise_priority_to || ANY);
+    setAssignTo(rule.assign_to || ANY);
+    setNotifyUserId(rule.notify_user_id || ANY);
+    setInternalNote(rule.internal_note || '');
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const orNull = (value: string) => (value === ANY ? null : value);
+
+    try {
+      const validated = ruleSchema.parse({
+        name,
+        min_age_hours: Number(minAgeHours),
+        raise_priority_to: orNull(raisePriorityTo),
+        assign_to: orNull(assignTo),
+        notify_user_id: orNull(notifyUserId),
+        internal_note: internalNote.trim() || null,
+      });
+      setSaving(true);
+
+      const values = {
+        name: validated.name,
+        is_active: isActive,
+        status: orNull(status),
+        priority: orNull(priority) as Priority | null,
+        category_id: orNull(categoryId),
+        min_age_hours: validated.min_age_hours,
+        require_no_admin_response: requireNoAdminResponse,
+        raise_priority_to: validated.raise_priority_to as Priority | null,
+        assign_to: validated.assign_to,
+        notify_user_id: validated.notify_user_id,
+        internal_note: validated.internal_note,
+      };
+
+      if (editingRule) {
+        const { error } = await supabase
+          .from('escalation_rules')
+          .update(values)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+        toast.success('Escalation rule updated');
+      } else {
+        const { error } = await supabase
+          .from('escalation_rules')
+          .insert({ ...values, created_by: user?.id });
+
+        if (error) throw error;
+        toast.success('Escalation rule created');
+      }
+
+      setDialogOpen(false);
+      fetchRules();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving escalation rule:', error);
+        toast.error((error as Error).message || 'Failed to save escalation rule');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: EscalationRule, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('escalation_rules')
+        .update({ is_active: active })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: active } : r)));
+    } catch (error: unknown) {
+      console.error('Error updating escalation rule:', error);
+      toast.error((error as Error).message || 'Failed to update escalation rule');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!ruleToDelete) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('escalation_rules')
+        .delete()
+        .eq('id', ruleToDelete.id);
+
+      if (error) throw error;
+
+      toast.success('Escalation rule deleted');
+      setDeleteDialogOpen(false);
+      fetchRules();
+    } catch (error: unknown) {
+      console.error('Error deleting escalation rule:', error);
+      toast.error((error as Error).message || 'Failed to delete escalation rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Escalation Rules</h1>
+          <p className="text-muted-foreground mt-1 text-sm md:text-base">Automatic follow-up on stale or critical complaints</p>
+        </div>
+        <Button onClick={openCreateDialog} className="gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">Rules ({rules.length})</CardTitle>
+          <CardDescription>
+            Rules are checked every 15 minutes against open complaints. Each rule acts on a complaint once,
+            and every automated change appears in the activity log under "System".
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="text-center py-12">
+              <Siren className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No escalation rules yet. Nothing is escalated automatically.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>Then</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rules.map((rule) => (
+                    <TableRow key={rule.id} className={rule.is_active ? '' : 'opacity-60'}>
+                      <TableCell className="font-medium">{rule.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {describeConditions(rule).map((condition) => (
+                            <Badge key={condition as string} variant="outline" className="font-normal">{condition}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {describeActions(rule).map((action) => (
+                            <Badge key={action as string} variant="secondary" className="font-normal">{action}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={rule.is_active} onCheckedChange={(checked) => toggleActive(rule, checked)} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 justify-end">
+                          <Button variant="ghost" size="icon" onClick={() => openEditDialog(rule)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => {
+                              setRuleToDelete(rule);
+                              setDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {editingRule ? 'Edit Escalation Rule' : 'Create Escalation Rule'}
+            </DialogTitle>
+            <DialogDescription>
+              Open complaints matching every condition get the actions applied
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name *</Label>
+              <Input
+                id="rule-name"
+                placeholder="e.g., Critical complaints waiting a day"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+              />
+            </div>
+
+            <h4 className="text-sm font-semibold pt-2">When</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any open status</SelectItem>
+                    {statuses.filter((s) => !s.is_final).map((s) => (
+                      <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={priority} onValueChange={setPriority}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any priority</SelectItem>
+                    {PRIORITIES.map((p) => (
+                      <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All categories</SelectItem>
+                    {categories.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-age">Older than (hours) *</Label>
+                <Input
+                  id="rule-age"
+                  type="number"
+                  min={1}
+                  value={minAgeHours}
+                  onChange={(e) => setMinAgeHours(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="rule-no-response">No admin reply yet</Label>
+                <p className="text-xs text-muted-foreground">Internal notes don't count as a reply</p>
+              </div>
+              <Switch id="rule-no-response" checked={requireNoAdminResponse} onCheckedChange={setRequireNoAdminResponse} />
+            </div>
+
+            <h4 className="text-sm font-semibold pt-2">Then</h4>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Raise priority to</Label>
+                <Select value={raisePriorityTo} onValueChange={setRaisePriorityTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Keep priority</SelectItem>
+                    {PRIORITIES.filter((p) => p !== 'low').map((p) => (
+                      <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Reassign to</Label>
+                <Select value={assignTo} onValueChange={setAssignTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Keep assignee</SelectItem>
+                    {admins.map((a) => (
+                      <SelectItem key={a.user_id} value={a.user_id}>{a.full_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Notify supervisor</Label>
+              <Select value={notifyUserId} onValueChange={setNotifyUserId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Nobody</SelectItem>
+                  {admins.map((a) => (
+                    <SelectItem key={a.user_id} value={a.user_id}>{a.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Complaints are only reassigned to or shown to admins who may handle them
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rule-note">Internal note</Label>
+              <Textarea
+                id="rule-note"
+                placeholder="e.g., Escalated: no response within 24 hours."
+                value={internalNote}
+                onChange={(e) => setInternalNote(e.target.value)}
+                rows={3}
+                maxLength={2000}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule-active">Active</Label>
+              <Switch id="rule-active" checked={isActive} onCheckedChange={setIsActive} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim() || !minAgeHours}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : editingRule ? (
+                'Update Rule'
+              ) : (
+                'Create Rule'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Escalation Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{ruleToDelete?.name}"? Changes it already made to complaints are kept.
+              To pause a rule instead, switch it off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
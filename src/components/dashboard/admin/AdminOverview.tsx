@@ -1,9 +1,12 @@
 import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useWorkflow } from '@/contexts/WorkflowContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Clock, CheckCircle, AlertCircle, ArrowRight, TrendingUp } from 'lucide-react';
+import { FileText, Clock, CheckCircle, AlertCircle, ArrowRight, TrendingUp, Timer, TimerOff } from 'lucide-react';
 import { StatusBadge } from '@/components/ui/status-badge';
+import { SlaIndicator } from '@/components/ui/sla-indicator';
+import { SlaFields, getSlaStatus } from '@/lib/sla';
 
 interface Stats {
   total: number;
@@ -15,70 +18,88 @@ interface Stats {
 interface RecentComplaint {
   id: string;
   subject: string;
-  status: 'submitted' | 'in_review' | 'resolved';
+  status: string;
   created_at: string;
   category: { name: string };
   profile: { full_name: string };
 }
 
+interface SlaWatchComplaint extends SlaFields {
+  id: string;
+  subject: string;
+  status: string;
+}
+
 const AdminOverview = ({ onNavigate }: { onNavigate: (tab: string) => void }) => {
   const [stats, setStats] = useState<Stats>({ total: 0, submitted: 0, inReview: 0, resolved: 0 });
   const [recentComplaints, setRecentComplaints] = useState<RecentComplaint[]>([]);
+  const [slaCounts, setSlaCounts] = useState({ breached: 0, atRisk: 0 });
+  const [slaWatch, setSlaWatch] = useState<SlaWatchComplaint[]>([]);
   const [loading, setLoading] = useState(true);
+  const { statuses, isInitial, isFinal } = useWorkflow();
 
   useEffect(() => {
-    fetchData();
-  }, []);
+    if (statuses.length > 0) {
+      fetchData();
+    }
+  }, [statuses]);
 
   const fetchData = async () => {
     try {
       // Fetch all complaints for stats
       const { data: allComplaints, error: allError } = await supabase
         .from('complaints')
-        .select('status');
+        .select('id, subject, status, created_at, resolved_at, first_response_due_at, first_responded_at, resolution_due_at');
 
       if (allError) throw allError;
 
       if (allComplaints) {
+        const submitted = allComplaints.filter(c => isInitial(c.status)).length;
+        const resolved = allComplaints.filter(c => isFinal(c.status)).length;
         setStats({
           total: allComplaints.length,
-          submitted: allComplaints.filter(c => c.status === 'submitted').length,
-          inReview: allComplaints.filter(c => c.status === 'in_review').length,
-          resolved: allComplaints.filter(c => c.status === 'resolved').length,
+          submitted,
+          inReview: allComplaints.length - submitted - resolved,
+          resolved,
         });
+
+        // SLA watch: open complaints that are overdue or close to their deadline
+        const now = new Date();
+        const urgent = allComplaints
+          .filter(c => !isFinal(c.status))
+          .map(c => ({ complaint: c, sla: getSlaStatus(c, false, now) }))
+          .filter(({ sla }) => sla.state === 'breached' || sla.state === 'at_risk');
+
+        setSlaCounts({
+          breached: urgent.filter(({ sla }) => sla.state === 'breached').length,
+          atRisk: urgent.filter(({ sla }) => sla.state === 'at_risk').length,
+        });
+        setSlaWatch(
+          urgent
+            .sort((a, b) => a.sla.remainingMs - b.sla.remainingMs)
+            .slice(0, 5)
+            .map(({ complaint }) => complaint)
+        );
       }
 
-      // Fetch recent complaints
+      // Recent complaints, through the admin list so anonymous students stay masked
       const { data: recent, error: recentError } = await supabase
-        .from('complaints')
-        .select(`
-          id, subject, status, created_at, user_id,
-          category:categories(name)
-        `)
+        .rpc('list_admin_complaints', {})
         .order('created_at', { ascending: false })
         .limit(5);
 
       if (recentError) throw recentError;
 
-      // Fetch profiles for each complaint's user
-      if (recent && recent.length > 0) {
-        const userIds = [...new Set(recent.map(c => c.user_id))];
-        const { data: profiles } = await supabase
-          .from('profiles')
-          .select('user_id, full_name')
-          .in('user_id', userIds);
-
-        const profileMap = new Map(profiles?.map(p => [p.user_id, p.full_name]) || []);
-        
-        const complaintsWithProfiles = recent.map(c => ({
-          ...c,
-          profile: { full_name: profileMap.get(c.user_id) || 'Unknown' }
-        }));
-        
-        setRecentComplaints(complaintsWithProfiles as unknown as RecentComplaint[]);
-      } else {
-        setRecentComplaints([]);
-      }
+      setRecentComplaints(
+        (recent || []).map((c) => ({
+          id: c.id,
+          subject: c.subject,
+          status: c.status,
+          created_at: c.created_at,
+          category: { name: c.category_name },
+          profile: { full_name: c.student_name || (c.is_anonymous ? 'Anonymous student' : 'Unknown') },
+        }))
+      );
     } catch (error) {
       console.error('Error fetching data:', error);
     } finally {
@@ -146,6 +167,56 @@ const AdminOverview = ({ onNavigate }: { onNavigate: (tab: string) => void }) =>
         </CardContent>
       </Card>
 
+      {/* SLA Watch */}
+      <Card className="shadow-card">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="font-display">SLA Watch</CardTitle>
+            <CardDescription>Open complaints that are overdue or close to their deadline</CardDescription>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            <span className="flex items-center gap-1.5 text-red-600 dark:text-red-400">
+              <TimerOff className="h-4 w-4" />
+              <span className="font-display font-bold text-lg">{slaCounts.breached}</span> breached
+            </span>
+            <span className="flex items-center gap-1.5 text-orange-600 dark:text-orange-400">
+              <Timer className="h-4 w-4" />
+              <span className="font-display font-bold text-lg">{slaCounts.atRisk}</span> at risk
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2].map((i) => (
+                <div key={i} className="h-14 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : slaWatch.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="h-10 w-10 text-status-resolved mx-auto mb-3" />
+              <p className="text-muted-foreground">All open complaints are within their SLA</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {slaWatch.map((complaint) => (
+                <div
+                  key={complaint.id}
+                  className="flex items-center justify-between gap-4 p-4 rounded-lg bg-muted/50 hover:bg-muted transition-colors cursor-pointer"
+                  onClick={() => onNavigate(`complaints/${complaint.id}`)}
+                >
+                  <p className="font-medium truncate">{complaint.subject}</p>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <SlaIndicator complaint={complaint} />
+                    <StatusBadge status={complaint.status} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Recent Complaints */}
       <Card className="shadow-card">
         <CardHeader className="flex flex-row items-center justify-between">
@@ -177,7 +248,7 @@ const AdminOverview = ({ onNavigate }: { onNavigate: (tab: string) => void }) =>
                   key={complaint.id}
                   className="flex items-center justify-between p-4 rounded-lg bg-muted/50 hover:bg-muted transition-colors cursor-pointer animate-slide-in"
                   style={{ animationDelay: `${index * 50}ms` }}
-                  onClick={() => onNavigate('complaints')}
+                  onClick={() => onNavigate(`complaints/${complaint.id}`)}
                 >
                   <div className="space-y-1">
                     <p className="font-medium">{complaint.subject}</p>
@@ -1,9 +1,15 @@
 import { useEffect, useState, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { getStatusTone } from '@/lib/workflow';
+import { SlaState, evaluateSlaTarget } from '@/lib/sla';
+import { CsatSummary, groupCsat, summarizeCsat } from '@/lib/csat';
+import { SuggestionAcceptance, summarizeAcceptance } from '@/lib/triage';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend, AreaChart, Area, RadialBarChart, RadialBar, ComposedChart, Line } from 'recharts';
-import { Download, Users, FileText, CheckCircle, Filter, TrendingUp, Clock, Calendar, Target, Zap, ArrowUpRight, ArrowDownRight, Minus, RefreshCw, BarChart3, PieChartIcon } from 'lucide-react';
+import { Download, Users, FileText, CheckCircle, Filter, TrendingUp, Clock, Calendar, Target, Zap, ArrowUpRight, ArrowDownRight, Minus, RefreshCw, BarChart3, PieChartIcon, Timer, Star, Sparkles } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -51,6 +57,33 @@ interface PriorityData {
   fill: string;
 }
 
+interface SlaSummary {
+  firstResponseRate: number;
+  resolutionRate: number;
+  evaluated: number;
+  breachedOpen: number;
+}
+
+interface SlaPriorityData {
+  name: string;
+  firstResponse: number;
+  resolution: number;
+}
+
+interface CsatGroupData extends CsatSummary {
+  name: string;
+}
+
+interface CsatTrendData {
+  date: string;
+  average: number | null;
+  responses: number;
+}
+
+interface TriagePriorityData extends SuggestionAcceptance {
+  name: string;
+}
+
 interface PerformanceMetric {
   label: string;
   value: number;
@@ -76,13 +109,9 @@ const PRIORITY_COLORS = {
   critical: 'hsl(0, 84%, 60%)',
 };
 
-const STATUS_COLORS = {
-  submitted: 'hsl(215, 14%, 45%)',
-  in_review: 'hsl(38, 92%, 50%)',
-  resolved: 'hsl(142, 71%, 45%)',
-};
-
 export default function AdminReports() {
+  const { statuses, isFinal } = useWorkflow();
+  const { can } = useAuth();
   const [categoryStats, setCategoryStats] = useState<CategoryStats[]>([]);
   const [statusStats, setStatusStats] = useState<StatusStats[]>([]);
   const [totalComplaints, setTotalComplaints] = useState(0);
@@ -95,6 +124,16 @@ export default function AdminReports() {
   const [resolutionTimeData, setResolutionTimeData] = useState<ResolutionTimeData[]>([]);
   const [priorityData, setPriorityData] = useState<PriorityData[]>([]);
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetric[]>([]);
+  const [slaSummary, setSlaSummary] = useState<SlaSummary>({ firstResponseRate: 0, resolutionRate: 0, evaluated: 0, breachedOpen: 0 });
+  const [slaByPriority, setSlaByPriority] = useState<SlaPriorityData[]>([]);
+  const [csatSummary, setCsatSummary] = useState<CsatSummary>({ responses: 0, average: 0, csat: 0 });
+  const [csatResponseRate, setCsatResponseRate] = useState(0);
+  const [csatByCategory, setCsatByCategory] = useState<CsatGroupData[]>([]);
+  const [csatByAdmin, setCsatByAdmin] = useState<CsatGroupData[]>([]);
+  const [csatTrend, setCsatTrend] = useState<CsatTrendData[]>([]);
+  const [priorityAcceptance, setPriorityAcceptance] = useState<SuggestionAcceptance>({ reviewed: 0, accepted: 0, rate: 0, pending: 0 });
+  const [categoryAcceptance, setCategoryAcceptance] = useState<SuggestionAcceptance>({ reviewed: 0, accepted: 0, rate: 0, pending: 0 });
+  const [triageByPriority, setTriageByPriority] = useState<TriagePriorityData[]>([]);
   const [dateRange, setDateRange] = useState<'7d' | '14d' | '30d' | '90d'>('7d');
   
   // Export filters
@@ -116,9 +155,14 @@ export default function AdminReports() {
   }, [dateRange]);
 
   useEffect(() => {
-    fetchReportData();
+    if (statuses.length > 0) {
+      fetchReportData();
+    }
+  }, [dateRange, statuses]);
+
+  useEffect(() => {
     fetchCategories();
-  }, [dateRange]);
+  }, []);
 
   const fetchCategories = async () => {
     const { data } = await supabase.from('categories').select('id, name').order('name');
@@ -137,26 +181,27 @@ export default function AdminReports() {
       // Fetch all complaints with categories
       const { data: complaints } = await supabase
         .from('complaints')
-        .select('status, priority, created_at, resolved_at, category:categories(name)');
+        .select('status, priority, created_at, resolved_at, first_response_due_at, first_responded_at, resolution_due_at, suggested_priority, suggested_category_id, priority_suggestion_accepted, category_suggestion_accepted, category:categories!complaints_category_id_fkey(name)');
 
       if (complaints) {
         setTotalComplaints(complaints.length);
 
         // Status stats
-        const statusCounts = {
-          submitted: complaints.filter(c => c.status === 'submitted').length,
-          in_review: complaints.filter(c => c.status === 'in_review').length,
-          resolved: complaints.filter(c => c.status === 'resolved').length,
-        };
-
-        setStatusStats([
-          { name: 'Pending', value: statusCounts.submitted, color: STATUS_COLORS.submitted, fill: STATUS_COLORS.submitted },
-          { name: 'In Review', value: statusCounts.in_review, color: STATUS_COLORS.in_review, fill: STATUS_COLORS.in_review },
-          { name: 'Resolved', value: statusCounts.resolved, color: STATUS_COLORS.resolved, fill: STATUS_COLORS.resolved },
-        ]);
+        setStatusStats(
+          statuses.map(status => {
+            const color = getStatusTone(status.color).chart;
+            return {
+              name: status.label,
+              value: complaints.filter(c => c.status === status.key).length,
+              color,
+              fill: color,
+            };
+          })
+        );
 
+        const finalCount = complaints.filter(c => isFinal(c.status)).length;
         const rate = complaints.length > 0 
-          ? Math.round((statusCounts.resolved / complaints.length) * 100) 
+          ? Math.round((finalCount / complaints.length) * 100) 
           : 0;
         setResolutionRate(rate);
 
@@ -176,7 +221,7 @@ export default function AdminReports() {
         ]);
 
         // Calculate average resolution time
-        const resolvedComplaints = complaints.filter(c => c.status === 'resolved' && c.resolved_at);
+        const resolvedComplaints = complaints.filter(c => isFinal(c.status) && c.resolved_at);
         let avgDays = 0;
         if (resolvedComplaints.length > 0) {
           const totalDays = resolvedComplaints.reduce((acc, c) => {
@@ -193,7 +238,7 @@ export default function AdminReports() {
         setPerformanceMetrics([
           { label: 'Resolution Rate', value: rate, target: 80, unit: '%', trend: rate >= 70 ? 'up' : 'down', trendValue: 5 },
           { label: 'Avg. Resolution', value: avgDays, target: 3, unit: 'days', trend: avgDays <= 3 ? 'up' : 'down', trendValue: avgDays <= 3 ? 0.5 : -0.3 },
-          { label: 'Active Cases', value: statusCounts.submitted + statusCounts.in_review, target: 10, unit: '', trend: 'stable', trendValue: 0 },
+          { label: 'Active Cases', value: complaints.length - finalCount, target: 10, unit: '', trend: 'stable', trendValue: 0 },
           { label: 'This Week', value: complaints.filter(c => {
             const created = new Date(c.created_at);
             const weekAgo = new Date();
@@ -202,6 +247,55 @@ export default function AdminReports() {
           }).length, target: 20, unit: 'new', trend: 'stable', trendValue: 2 },
         ]);
 
+        // SLA compliance: only targets that are decided (completed or already overdue) count
+        const now = new Date();
+        const slaResults = complaints.map(c => ({
+          priority: c.priority,
+          open: !isFinal(c.status),
+          firstResponse: evaluateSlaTarget(c.created_at, c.first_response_due_at, c.first_responded_at, now),
+          resolution: evaluateSlaTarget(c.created_at, c.resolution_due_at, isFinal(c.status) ? c.resolved_at : null, now),
+        }));
+
+        const complianceRate = (states: SlaState[]) => {
+          const decided = states.filter(state => state === 'met' || state === 'breached');
+          return decided.length > 0
+            ? Math.round((decided.filter(state => state === 'met').length / decided.length) * 100)
+            : 0;
+        };
+
+        setSlaSummary({
+          firstResponseRate: complianceRate(slaResults.map(r => r.firstResponse)),
+          resolutionRate: complianceRate(slaResults.map(r => r.resolution)),
+          evaluated: slaResults.filter(r => r.resolution === 'met' || r.resolution === 'breached').length,
+          breachedOpen: slaResults.filter(r => r.open && (r.firstResponse === 'breached' || r.resolution === 'breached')).length,
+        });
+
+        setSlaByPriority(
+          (['critical', 'high', 'medium', 'low'] as const).map(priority => {
+            const results = slaResults.filter(r => r.priority === priority);
+            return {
+              name: priority.charAt(0).toUpperCase() + priority.slice(1),
+              firstResponse: complianceRate(results.map(r => r.firstResponse)),
+              resolution: complianceRate(results.map(r => r.resolution)),
+            };
+          })
+        );
+
+        // Auto-triage: how often admins follow the suggested priority and category
+        const withPrioritySuggestion = complaints.filter(c => c.suggested_priority);
+        setPriorityAcceptance(summarizeAcceptance(withPrioritySuggestion.map(c => c.priority_suggestion_accepted)));
+        setCategoryAcceptance(
+          summarizeAcceptance(complaints.filter(c => c.suggested_category_id).map(c => c.category_suggestion_accepted))
+        );
+        setTriageByPriority(
+          (['critical', 'high', 'medium', 'low'] as const).map(priority => ({
+            name: priority.charAt(0).toUpperCase() + priority.slice(1),
+            ...summarizeAcceptance(
+              withPrioritySuggestion.filter(c => c.suggested_priority === priority).map(c => c.priority_suggestion_accepted)
+            ),
+          }))
+        );
+
         // Calculate resolution time by category
         const catResolutionTimes: Record<string, { total: number; count: number }> = {};
         resolvedComplaints.forEach((c: any) => {
@@ -274,6 +368,56 @@ export default function AdminReports() {
           });
         }
         setTrendData(trendDays);
+
+        // Satisfaction (CSAT) from post-resolution surveys
+        const { data: ratings } = await supabase
+          .from('complaint_ratings')
+          .select('rating, created_at, complaint:complaints(assigned_to, category:categories!complaints_category_id_fkey(name))');
+
+        if (ratings) {
+          setCsatSummary(summarizeCsat(ratings.map(r => r.rating)));
+          setCsatResponseRate(
+            resolvedComplaints.length > 0 ? Math.round((ratings.length / resolvedComplaints.length) * 100) : 0
+          );
+          setCsatByCategory(groupCsat(ratings, r => r.complaint?.category?.name || 'Unknown'));
+
+          const adminIds = [...new Set(ratings.map(r => r.complaint?.assigned_to).filter(Boolean))] as string[];
+          const { data: adminProfiles } = adminIds.length > 0
+            ? await supabase.from('profiles').select('user_id, full_name').in('user_id', adminIds)
+            : { data: [] };
+          const adminNames = new Map((adminProfiles || []).map(p => [p.user_id, p.full_name]));
+          setCsatByAdmin(
+            groupCsat(ratings, r =>
+              r.complaint?.assigned_to ? adminNames.get(r.complaint.assigned_to) || 'Unknown admin' : 'Unassigned'
+            )
+          );
+
+          // Daily buckets for short ranges, weekly otherwise
+          const bucketDays = dateRangeDays <= 14 ? 1 : 7;
+          const buckets: CsatTrendData[] = [];
+          for (let end = dateRangeDays - 1; end >= 0; end -= bucketDays) {
+            const from = new Date();
+            from.setHours(0, 0, 0, 0);
+            from.setDate(from.getDate() - end);
+            const to = new Date(from);
+            to.setDate(to.getDate() + bucketDays);
+
+            const inBucket = ratings.filter(r => {
+              const created = new Date(r.created_at);
+              return created >= from && created < to;
+            });
+            const summary = summarizeCsat(inBucket.map(r => r.rating));
+
+            buckets.push({
+              date: bucketDays === 1
+                ? from.toLocaleDateString('en-US', { weekday: 'short', day: 'numeric' })
+                : from.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+              average: summary.responses > 0 ? summary.average : null,
+              responses: summary.responses,
+            });
+          }
+          setCsatTrend(buckets);
+        }
       }
 
       // Fetch unique students count
@@ -291,17 +435,13 @@ export default function AdminReports() {
   const exportToCSV = async () => {
     setExporting(true);
     try {
+      // The admin list leaves out students the admin may not identify
       let query = supabase
-        .from('complaints')
-        .select(`
-          id, subject, description, status, priority, admin_response, created_at, updated_at, resolved_at,
-          category:categories(name),
-          user_id
-        `)
+        .rpc('list_admin_complaints', {})
         .order('created_at', { ascending: false });
 
       if (filterStatus !== 'all') {
-        query = query.eq('status', filterStatus as 'submitted' | 'in_review' | 'resolved');
+        query = query.eq('status', filterStatus);
       }
       if (filterCategory !== 'all') {
         query = query.eq('category_id', filterCategory);
@@ -323,28 +463,20 @@ export default function AdminReports() {
         return;
       }
 
-      const userIds = [...new Set(complaints.map(c => c.user_id))];
-      const { data: profiles } = await supabase
-        .from('profiles')
-        .select('user_id, full_name, email')
-        .in('user_id', userIds);
-
-      const profileMap = new Map(profiles?.map(p => [p.user_id, p]) || []);
-
-      const headers = ['ID', 'Subject', 'Category', 'Status', 'Priority', 'Student Name', 'Student Email', 'Created At', 'Resolved At', 'Resolution Days', 'Admin Response'];
-      const rows = complaints.map((c: any) => {
-        const profile = profileMap.get(c.user_id);
+      const headers = ['ID', 'Subject', 'Category', 'Status', 'Priority', 'Student Name', 'Student Email', 'Confidential', 'Created At', 'Resolved At', 'Resolution Days', 'Admin Response'];
+      const rows = complaints.map((c) => {
         const resolutionDays = c.resolved_at 
           ? Math.ceil((new Date(c.resolved_at).getTime() - new Date(c.created_at).getTime()) / (1000 * 60 * 60 * 24))
           : '';
         return [
           c.id,
           `"${(c.subject || '').replace(/"/g, '""')}"`,
-          c.category?.name || '',
-          c.status,
+          c.category_name || '',
+          statuses.find(s => s.key === c.status)?.label || c.status,
           c.priority,
-          profile?.full_name || '',
-          profile?.email || '',
+          c.student_name || (c.is_anonymous ? 'Anonymous' : ''),
+          c.student_email || '',
+          c.is_confidential ? 'Yes' : 'No',
           new Date(c.created_at).toLocaleString(),
           c.resolved_at ? new Date(c.resolved_at).toLocaleString() : '',
           resolutionDays,
@@ -479,7 +611,7 @@ export default function AdminReports() {
 
       {/* Main Charts */}
       <Tabs defaultValue="trends" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-3 lg:w-auto lg:inline-grid">
+        <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-grid">
           <TabsTrigger value="trends" className="gap-2">
             <TrendingUp className="h-4 w-4" />
             <span className="hidden sm:inline">Trends</span>
@@ -492,6 +624,18 @@ export default function AdminReports() {
             <BarChart3 className="h-4 w-4" />
             <span className="hidden sm:inline">Categories</span>
           </TabsTrigger>
+          <TabsTrigger value="sla" className="gap-2">
+            <Timer className="h-4 w-4" />
+            <span className="hidden sm:inline">SLA</span>
+          </TabsTrigger>
+          <TabsTrigger value="satisfaction" className="gap-2">
+            <Star className="h-4 w-4" />
+            <span className="hidden sm:inline">Satisfaction</span>
+          </TabsTrigger>
+          <TabsTrigger value="triage" className="gap-2">
+            <Sparkles className="h-4 w-4" />
+            <span className="hidden sm:inline">Triage</span>
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="trends" className="space-y-4">
@@ -699,7 +843,7 @@ export default function AdminReports() {
                     <p className="text-sm text-muted-foreground">Resolved</p>
                   </div>
                 </div>
-                <div className="flex-1 grid grid-cols-3 gap-4">
+                <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-4">
                   {statusStats.map(stat => (
                     <div key={stat.name} className="text-center p-4 rounded-xl bg-muted/50">
                       <div className="h-3 w-3 rounded-full mx-auto mb-2" style={{ backgroundColor: stat.fill }} />
@@ -810,76 +954,322 @@ export default function AdminReports() {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="sla" className="space-y-4">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'First Response Met', value: `${slaSummary.firstResponseRate}%` },
+              { label: 'Resolution Met', value: `${slaSummary.resolutionRate}%` },
+              { label: 'Evaluated Complaints', value: slaSummary.evaluated },
+              { label: 'Open & Breached', value: slaSummary.breachedOpen },
+            ].map(item => (
+              <Card key={item.label} className="shadow-lg border-0">
+                <CardContent className="p-5">
+                  <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{item.label}</p>
+                  <p className="text-2xl md:text-3xl font-display font-bold mt-1">{loading ? '—' : item.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="shadow-lg border-0">
+            <CardHeader>
+              <CardTitle className="font-display flex items-center gap-2">
+                <Timer className="h-5 w-5 text-primary" />
+                SLA Compliance by Priority
+              </CardTitle>
+              <CardDescription>Share of first-response and resolution targets met (decided targets only)</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <LoadingSkeleton height="h-72" />
+              ) : (
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={slaByPriority} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                      <XAxis dataKey="name" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                      <YAxis
+                        domain={[0, 100]}
+                        tickFormatter={(v) => `${v}%`}
+                        tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <Tooltip
+                        formatter={(value: number) => `${value}%`}
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '12px'
+                        }}
+                      />
+                      <Legend />
+                      <Bar dataKey="firstResponse" name="First Response" fill="hsl(217, 91%, 60%)" radius={[6, 6, 0, 0]} />
+                      <Bar dataKey="resolution" name="Resolution" fill="hsl(142, 71%, 45%)" radius={[6, 6, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="satisfaction" className="space-y-4">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'CSAT', value: `${csatSummary.csat}%` },
+              { label: 'Average Rating', value: `${csatSummary.average} / 5` },
+              { label: 'Responses', value: csatSummary.responses },
+              { label: 'Response Rate', value: `${csatResponseRate}%` },
+            ].map(item => (
+              <Card key={item.label} className="shadow-lg border-0">
+                <CardContent className="p-5">
+                  <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{item.label}</p>
+                  <p className="text-2xl md:text-3xl font-display font-bold mt-1">{loading ? '—' : item.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="shadow-lg border-0">
+            <CardHeader>
+              <CardTitle className="font-display flex items-center gap-2">
+                <Star className="h-5 w-5 text-primary" />
+                Satisfaction Over Time
+              </CardTitle>
+              <CardDescription>Average rating of surveys submitted in the selected period</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <LoadingSkeleton height="h-72" />
+              ) : (
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={csatTrend} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                      <XAxis dataKey="date" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} tickLine={false} />
+                      <YAxis yAxisId="rating" domain={[0, 5]} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} axisLine={false} tickLine={false} />
+                      <YAxis yAxisId="responses" orientation="right" allowDecimals={false} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} axisLine={false} tickLine={false} />
+                      <Tooltip
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '12px'
+                        }}
+                      />
+                      <Legend />
+                      <Bar yAxisId="responses" dataKey="responses" name="Responses" fill="hsl(217, 91%, 60%)" fillOpacity={0.3} radius={[6, 6, 0, 0]} />
+                      <Line yAxisId="rating" type="monotone" dataKey="average" name="Average Rating" stroke="hsl(38, 92%, 50%)" strokeWidth={2} connectNulls />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card className="shadow-lg border-0">
+              <CardHeader>
+                <CardTitle className="font-display">Satisfaction by Category</CardTitle>
+                <CardDescription>Average rating per complaint category</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <LoadingSkeleton height="h-72" />
+                ) : csatByCategory.length === 0 ? (
+                  <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">No ratings yet</div>
+                ) : (
+                  <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={csatByCategory} layout="vertical" margin={{ top: 0, right: 30, left: 20, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="hsl(var(--border))" />
+                        <XAxis type="number" domain={[0, 5]} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                        <YAxis dataKey="name" type="category" width={110} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                        <Tooltip
+                          formatter={(value: number, _name, item) => [`${value} / 5 (${item.payload.responses} ratings, ${item.payload.csat}% satisfied)`, 'Average']}
+                          contentStyle={{
+                            backgroundColor: 'hsl(var(--card))',
+                            border: '1px solid hsl(var(--border))',
+                            borderRadius: '12px'
+                          }}
+                        />
+                        <Bar dataKey="average" name="Average" fill="hsl(38, 92%, 50%)" radius={[0, 6, 6, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-lg border-0">
+              <CardHeader>
+                <CardTitle className="font-display">Satisfaction by Admin</CardTitle>
+                <CardDescription>Average rating per assigned admin</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {loading ? (
+                  <LoadingSkeleton height="h-72" />
+                ) : csatByAdmin.length === 0 ? (
+                  <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">No ratings yet</div>
+                ) : (
+                  <div className="h-72">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={csatByAdmin} layout="vertical" margin={{ top: 0, right: 30, left: 20, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="hsl(var(--border))" />
+                        <XAxis type="number" domain={[0, 5]} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                        <YAxis dataKey="name" type="category" width={110} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                        <Tooltip
+                          formatter={(value: number, _name, item) => [`${value} / 5 (${item.payload.responses} ratings, ${item.payload.csat}% satisfied)`, 'Average']}
+                          contentStyle={{
+                            backgroundColor: 'hsl(var(--card))',
+                            border: '1px solid hsl(var(--border))',
+                            borderRadius: '12px'
+                          }}
+                        />
+                        <Bar dataKey="average" name="Average" fill="hsl(38, 92%, 50%)" radius={[0, 6, 6, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="triage" className="space-y-4">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Priority Accepted', value: `${priorityAcceptance.rate}%` },
+              { label: 'Category Accepted', value: `${categoryAcceptance.rate}%` },
+              { label: 'Reviewed Suggestions', value: priorityAcceptance.reviewed + categoryAcceptance.reviewed },
+              { label: 'Awaiting Review', value: priorityAcceptance.pending + categoryAcceptance.pending },
+            ].map(item => (
+              <Card key={item.label} className="shadow-lg border-0">
+                <CardContent className="p-5">
+                  <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{item.label}</p>
+                  <p className="text-2xl md:text-3xl font-display font-bold mt-1">{loading ? '—' : item.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card className="shadow-lg border-0">
+            <CardHeader>
+              <CardTitle className="font-display flex items-center gap-2">
+                <Sparkles className="h-5 w-5 text-primary" />
+                Priority Suggestions Accepted
+              </CardTitle>
+              <CardDescription>
+                Share of reviewed suggestions where admins kept the suggested priority, by suggested priority
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <LoadingSkeleton height="h-72" />
+              ) : priorityAcceptance.reviewed === 0 ? (
+                <div className="h-72 flex items-center justify-center text-sm text-muted-foreground">No reviewed suggestions yet</div>
+              ) : (
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={triageByPriority} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
+                      <XAxis dataKey="name" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                      <YAxis
+                        domain={[0, 100]}
+                        tickFormatter={(v) => `${v}%`}
+                        tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }}
+                        axisLine={false}
+                        tickLine={false}
+                      />
+                      <Tooltip
+                        formatter={(value: number, _name, item) => [`${value}% of ${item.payload.reviewed} reviewed (${item.payload.pending} pending)`, 'Accepted']}
+                        contentStyle={{
+                          backgroundColor: 'hsl(var(--card))',
+                          border: '1px solid hsl(var(--border))',
+                          borderRadius: '12px'
+                        }}
+                      />
+                      <Bar dataKey="rate" name="Accepted" fill="hsl(280, 65%, 60%)" radius={[6, 6, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
 
       {/* Export Section */}
-      <Card className="shadow-lg border-0 bg-gradient-to-br from-primary/5 to-accent/5">
-        <CardHeader>
-          <CardTitle className="font-display flex items-center gap-2">
-            <Download className="h-5 w-5 text-primary" />
-            Export Data
-          </CardTitle>
-          <CardDescription>Download filtered complaint data as CSV</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
-            <div className="space-y-2">
-              <Label htmlFor="filter-status" className="text-xs font-medium">Status</Label>
-              <Select value={filterStatus} onValueChange={setFilterStatus}>
-                <SelectTrigger id="filter-status">
-                  <SelectValue placeholder="All Statuses" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Statuses</SelectItem>
-                  <SelectItem value="submitted">Pending</SelectItem>
-                  <SelectItem value="in_review">In Review</SelectItem>
-                  <SelectItem value="resolved">Resolved</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+      {can('export_reports') && (
+        <Card className="shadow-lg border-0 bg-gradient-to-br from-primary/5 to-accent/5">
+          <CardHeader>
+            <CardTitle className="font-display flex items-center gap-2">
+              <Download className="h-5 w-5 text-primary" />
+              Export Data
+            </CardTitle>
+            <CardDescription>Download filtered complaint data as CSV</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="filter-status" className="text-xs font-medium">Status</Label>
+                <Select value={filterStatus} onValueChange={setFilterStatus}>
+                  <SelectTrigger id="filter-status">
+                    <SelectValue placeholder="All Statuses" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Statuses</SelectItem>
+                    {statuses.map(status => (
+                      <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="filter-category" className="text-xs font-medium">Category</Label>
-              <Select value={filterCategory} onValueChange={setFilterCategory}>
-                <SelectTrigger id="filter-category">
-                  <SelectValue placeholder="All Categories" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
-                  {categories.map(cat => (
-                    <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="filter-category" className="text-xs font-medium">Category</Label>
+                <Select value={filterCategory} onValueChange={setFilterCategory}>
+                  <SelectTrigger id="filter-category">
+                    <SelectValue placeholder="All Categories" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Categories</SelectItem>
+                    {categories.map(cat => (
+                      <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="date-from" className="text-xs font-medium">From Date</Label>
-              <Input
-                id="date-from"
-                type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="date-from" className="text-xs font-medium">From Date</Label>
+                <Input
+                  id="date-from"
+                  type="date"
+                  value={dateFrom}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                />
+              </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="date-to" className="text-xs font-medium">To Date</Label>
-              <Input
-                id="date-to"
-                type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="date-to" className="text-xs font-medium">To Date</Label>
+                <Input
+                  id="date-to"
+                  type="date"
+                  value={dateTo}
+                  onChange={(e) => setDateTo(e.target.value)}
+                />
+              </div>
             
-            <Button onClick={exportToCSV} disabled={exporting} className="gap-2 h-10">
-              <Download className="h-4 w-4" />
-              {exporting ? 'Exporting...' : 'Export CSV'}
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
+              <Button onClick={exportToCSV} disabled={exporting} className="gap-2 h-10">
+                <Download className="h-4 w-4" />
+                {exporting ? 'Exporting...' : 'Export CSV'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { parseHeadline } from '@/lib/search';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { FileText, Loader2, MessageSquare, Search } from 'lucide-react';
+
+type SearchResult = Database['public']['Functions']['search_complaints']['Returns'][number];
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MAX_RESULTS = 20;
+
+function Headline({ headline }: { headline: string }) {
+  return (
+    <>
+      {parseHeadline(headline).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface AdminSearchPaletteProps {
+  /** Dashboard tabs offered under "Go to". */
+  tabs: { id: string; label: string; icon: React.ReactNode }[];
+  className?: string;
+}
+
+export default function AdminSearchPalette({ tabs, className }: AdminSearchPaletteProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Ignores responses to searches that have since been superseded
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      latestRequest.current++;
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timer = setTimeout(() => search(trimmed), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const search = async (text: string) => {
+    const request = ++latestRequest.current;
+    try {
+      const { data, error } = await supabase.rpc('search_complaints', { _query: text, _limit: MAX_RESULTS });
+      if (error) throw error;
+      if (request === latestRequest.current) setResults(data || []);
+    } catch (error) {
+      console.error('Error searching complaints:', error);
+      if (request === latestRequest.current) setResults([]);
+    } finally {
+      if (request === latestRequest.current) setSearching(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery('');
+  };
+
+  const go = (path: string) => {
+    handleOpenChange(false);
+    navigate(path);
+  };
+
+  const matchingTabs = tabs.filter((tab) => tab.label.toLowerCase().includes(query.trim().toLowerCase()));
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn('text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar-accent/50', className)}
+        onClick={() => setOpen(true)}
+        aria-label="Search complaints"
+        title="Search (Ctrl+K)"
+      >
+        <Search className="h-5 w-5" />
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+          <DialogTitle className="sr-only">Search complaints</DialogTitle>
+          {/* Results are ranked by the database, so cmdk's own filtering is off */}
+          <Command
+            shouldFilter={false}
+            className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+          >
+            <CommandInput
+              placeholder="Search complaints, responses and comments..."
+              value={query}
+              onValueChange={setQuery}
+            />
+            <CommandList className="max-h-[420px]">
+              {searching && results.length === 0 ? (
+                <div className="py-6 flex justify-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <CommandEmpty>No results found.</CommandEmpty>
+              )}
+
+              {results.length > 0 && (
+                <CommandGroup heading="Complaints">
+                  {results.map((result) => {
+                    const Icon = result.match_source === 'comment' ? MessageSquare : FileText;
+                    return (
+                      <CommandItem
+                        key={result.complaint_id}
+                        value={result.complaint_id}
+                        onSelect={() => go(`/dashboard/complaints/${result.complaint_id}`)}
+                        className="items-start gap-3"
+                      >
+                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                        <div className="flex-1 min-w-0 space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium truncate">{result.subject}</span>
+                            <StatusBadge status={result.status} />
+                          </div>
+                          <p className="text-xs text-muted-foreground line-clamp-2">
+                            {result.match_source === 'comment' && <span className="font-medium">In a comment: </span>}
+                            <Headline headline={result.headline} />
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {result.student_name || 'Unknown'} • {new Date(result.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              )}
+
+              {matchingTabs.length > 0 && (
+                <CommandGroup heading="Go to">
+                  {matchingTabs.map((tab) => (
+                    <CommandItem
+                      key={tab.id}
+                      value={`tab-${tab.id}`}
+                      onSelect={() => go(tab.id === 'overview' ? '/dashboard' : `/dashboard/${tab.id}`)}
+                      className="gap-2"
+                    >
+                      {tab.icon}
+                      {tab.label}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+          <div className="border-t px-3 py-2 text-xs text-muted-foreground flex justify-end">
+            <CommandShortcut>Ctrl K</CommandShortcut>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Timer, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { z } from 'zod';
+
+type Priority = 'low' | 'medium' | 'high' | 'critical';
+
+interface SlaPolicy {
+  id: string;
+  category_id: string | null;
+  priority: Priority;
+  first_response_hours: number;
+  resolution_hours: number;
+}
+
+const ALL_CATEGORIES = 'all';
+const PRIORITY_ORDER: Priority[] = ['critical', 'high', 'medium', 'low'];
+
+const policySchema = z
+  .object({
+    first_response_hours: z.number().int('Hours must be whole numbers').min(1, 'First response target must be at least 1 hour'),
+    resolution_hours: z.number().int('Hours must be whole numbers').min(1, 'Resolution target must be at least 1 hour'),
+  })
+  .refine((p) => p.resolution_hours >= p.first_response_hours, {
+    message: 'Resolution target cannot be shorter than the first response target',
+  });
+
+export default function AdminSlaPolicies() {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<SlaPolicy | null>(null);
+  const [policyToDelete, setPolicyToDelete] = useState<SlaPolicy | null>(null);
+
+  const [categoryId, setCategoryId] = useState(ALL_CATEGORIES);
+  const [priority, setPriority] = useState<Priority>('medium');
+  const [firstResponseHours, setFirstResponseHours] = useState('');
+  const [resolutionHours, setResolutionHours] = useState('');
+
+  useEffect(() => {
+    fetchPolicies();
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    const { data } = await supabase.from('categories').select('id, name').order('name');
+    setCategories(data || []);
+  };
+
+  const fetchPolicies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sla_policies')
+        .select('id, category_id, priority, first_response_hours, resolution_hours');
+
+      if (error) throw error;
+      setPolicies(data || []);
+    } catch (error) {
+      console.error('Error fetching SLA policies:', error);
+      toast.error('Failed to load SLA policies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const categoryName = (id: string | null) =>
+    id ? categories.find((c) => c.id === id)?.name || 'Unknown' : 'All categories';
+
+  // Catch-all policies first, then overrides grouped by category; critical first inside each group
+  const sortedPolicies = [...policies].sort((a, b) => {
+    if (!a.category_id !== !b.category_id) return a.category_id ? 1 : -1;
+    const byCategory = categoryName(a.category_id).localeCompare(categoryName(b.category_id));
+    if (byCategory !== 0) return byCategory;
+    return PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority);
+  });
+
+  const openCreateDialog = () => {
+    setEditingPolicy(null);
+    setCategoryId(ALL_CATEGORIES);
+    setPriority('medium');
+    setFirstResponseHours('');
+    setResolutionHours('');
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (policy: SlaPolicy) => {
+    setEditingPolicy(policy);
+    setCategoryId(policy.category_id || ALL_CATEGORIES);
+    setPriority(policy.priority);
+    setFirstResponseHours(String(policy.first_response_hours));
+    setResolutionHours(String(policy.resolution_hours));
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = policySchema.parse({
+        first_response_hours: Number(firstResponseHours),
+        resolution_hours: Number(resolutionHours),
+      });
+      setSaving(true);
+
+      if (editingPolicy) {
+        const { error } = await supabase
+          .from('sla_policies')
+          .update(validated)
+          .eq('id', editingPolicy.id);
+
+        if (error) throw error;
+        toast.success('SLA policy updated');
+      } else {
+        const { error } = await supabase
+          .from('sla_policies')
+          .insert({
+            category_id: categoryId === ALL_CATEGORIES ? null : categoryId,
+            priority,
+            first_response_hours: validated.first_response_hours,
+            resolution_hours: validated.resolution_hours,
+          });
+
+        if (error) {
+          if (error.code === '23505') {
+            throw new Error('A policy for this category and priority already exists');
+          }
+          throw error;
+        }
+        toast.success('SLA policy created');
+      }
+
+      setDialogOpen(false);
+      fetchPolicies();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving SLA policy:', error);
+        toast.error((error as Error).message || 'Failed to save SLA policy');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!policyToDelete) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('sla_policies')
+        .delete()
+        .eq('id', policyToDelete.id);
+
+      if (error) throw error;
+
+      toast.success('SLA policy deleted');
+      setDeleteDialogOpen(false);
+      fetchPolicies();
+    } catch (error: unknown) {
+      console.error('Error deleting SLA policy:', error);
+      toast.error((error as Error).message || 'Failed to delete SLA policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">SLA Policies</h1>
+          <p className="text-muted-foreground mt-1 text-sm md:text-base">Response and resolution targets per category and priority</p>
+        </div>
+        <Button onClick={openCreateDialog} className="gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          Add Policy
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">Policies ({policies.length})</CardTitle>
+          <CardDescription>
+            A category-specific policy overrides the "All categories" policy for the same priority.
+            Changes apply to new complaints and to complaints whose priority or category changes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : policies.length === 0 ? (
+            <div className="text-center py-12">
+              <Timer className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No SLA policies yet. Complaints will not have due dates.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>First Response</TableHead>
+                    <TableHead>Resolution</TableHead>
+                    <TableHead className="w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedPolicies.map((policy) => (
+                    <TableRow key={policy.id}>
+                      <TableCell className={policy.category_id ? 'font-medium' : 'italic'}>
+                        {categoryName(policy.category_id)}
+                      </TableCell>
+                      <TableCell className="capitalize">{policy.priority}</TableCell>
+                      <TableCell>{policy.first_response_hours}h</TableCell>
+                      <TableCell>{policy.resolution_hours}h</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1 justify-end">
+                          <Button variant="ghost" size="icon" onClick={() => openEditDialog(policy)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => {
+                              setPolicyToDelete(policy);
+                              setDeleteDialogOpen(true);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {editingPolicy ? 'Edit SLA Policy' : 'Create SLA Policy'}
+            </DialogTitle>
+            <DialogDescription>
+              Targets are measured in hours from the moment a complaint is submitted
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select value={categoryId} onValueChange={setCategoryId} disabled={!!editingPolicy}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                    {categories.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>{cat.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select value={priority} onValueChange={(v) => setPriority(v as Priority)} disabled={!!editingPolicy}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="low">Low</SelectItem>
+                    <SelectItem value="medium">Medium</SelectItem>
+                    <SelectItem value="high">High</SelectItem>
+                    <SelectItem value="critical">Critical</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="first-response-hours">First response (hours) *</Label>
+                <Input
+                  id="first-response-hours"
+                  type="number"
+                  min={1}
+                  value={firstResponseHours}
+                  onChange={(e) => setFirstResponseHours(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="resolution-hours">Resolution (hours) *</Label>
+                <Input
+                  id="resolution-hours"
+                  type="number"
+                  min={1}
+                  value={resolutionHours}
+                  onChange={(e) => setResolutionHours(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !firstResponseHours || !resolutionHours}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : editingPolicy ? (
+                'Update Policy'
+              ) : (
+                'Create Policy'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete SLA Policy</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete the {policyToDelete?.priority} policy for {categoryName(policyToDelete?.category_id ?? null)}?
+              Existing due dates are kept; new complaints fall back to the "All categories" policy if one exists.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,356 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { ResponseTemplate, TEMPLATE_PLACEHOLDERS, unknownPlaceholders } from '@/lib/templates';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { MessageSquareText, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { z } from 'zod';
+
+interface Template extends ResponseTemplate {
+  updated_at: string;
+}
+
+const ALL_CATEGORIES = 'all';
+
+const templateSchema = z.object({
+  title: z.string().trim().min(2, 'Title must be at least 2 characters').max(80, 'Title must be less than 80 characters'),
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Please enter the reply text')
+    .max(2000, 'Reply must be less than 2000 characters')
+    .refine((body) => unknownPlaceholders(body).length === 0, (body) => ({
+      message: `Unknown placeholder: {{${unknownPlaceholders(body)[0]}}}`,
+    })),
+});
+
+export default function AdminTemplates() {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<Template | null>(null);
+
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [categoryId, setCategoryId] = useState(ALL_CATEGORIES);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    fetchTemplates();
+    fetchCategories();
+  }, []);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('response_templates')
+        .select('id, title, body, category_id, updated_at')
+        .order('title');
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      toast.error('Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    const { data } = await supabase.from('categories').select('id, name').order('name');
+    setCategories(data || []);
+  };
+
+  const categoryName = (id: string | null) => categories.find((c) => c.id === id)?.name;
+
+  const openCreateDialog = () => {
+    setEditingTemplate(null);
+    setTitle('');
+    setBody('');
+    setCategoryId(ALL_CATEGORIES);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (template: Template) => {
+    setEditingTemplate(template);
+    setTitle(template.title);
+    setBody(template.body);
+    setCategoryId(template.category_id || ALL_CATEGORIES);
+    setDialogOpen(true);
+  };
+
+  /** Inserts a placeholder at the caret of the reply text. */
+  const insertPlaceholder = (key: string) => {
+    const textarea = bodyRef.current;
+    const placeholder = `{{${key}}}`;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + placeholder + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + placeholder.length, start + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = templateSchema.parse({ title, body });
+      setSaving(true);
+
+      const values = {
+        title: validated.title,
+        body: validated.body,
+        category_id: categoryId === ALL_CATEGORIES ? null : categoryId,
+      };
+
+      if (editingTemplate) {
+        const { error } = await supabase.from('response_templates').update(values).eq('id', editingTemplate.id);
+
+        if (error) throw error;
+        toast.success('Template updated successfully');
+      } else {
+        const { error } = await supabase.from('response_templates').insert({ ...values, created_by: user!.id });
+
+        if (error) throw error;
+        toast.success('Template created successfully');
+      }
+
+      setDialogOpen(false);
+      fetchTemplates();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving template:', error);
+        toast.error((error as Error).message || 'Failed to save template');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!templateToDelete) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('response_templates').delete().eq('id', templateToDelete.id);
+
+      if (error) throw error;
+
+      toast.success('Template deleted successfully');
+      setTemplateToDelete(null);
+      fetchTemplates();
+    } catch (error: unknown) {
+      console.error('Error deleting template:', error);
+      toast.error((error as Error).message || 'Failed to delete template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Reply Templates</h1>
+          <p className="text-muted-foreground mt-1 text-sm md:text-base">Canned responses for admin replies and comments</p>
+        </div>
+        <Button onClick={openCreateDialog} className="gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          Add Template
+        </Button>
+      </div>
+
+      {/* Templates List */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">All Templates ({templates.length})</CardTitle>
+          <CardDescription>
+            Templates are offered when answering a complaint; category templates only for complaints of that category
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-20 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="text-center py-12">
+              <MessageSquareText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No templates yet</p>
+              <Button variant="outline" className="mt-4" onClick={openCreateDialog}>
+                Create Your First Template
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {templates.map((template, index) => (
+                <div
+                  key={template.id}
+                  className="flex items-center justify-between p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors animate-slide-in"
+                  style={{ animationDelay: `${index * 30}ms` }}
+                >
+                  <div className="space-y-1 flex-1 min-w-0">
+                    <p className="font-medium">
+                      {template.title}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {template.category_id ? categoryName(template.category_id) || 'Unknown category' : 'All categories'}
+                      </span>
+                    </p>
+                    <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-line">{template.body}</p>
+                    <p className="text-xs text-muted-foreground">
+                      Updated {new Date(template.updated_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 ml-4">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setTemplateToDelete(template)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {editingTemplate ? 'Edit Template' : 'Create Template'}
+            </DialogTitle>
+            <DialogDescription>
+              Placeholders are filled in with the complaint's details when the template is inserted
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-title">Title *</Label>
+              <Input
+                id="template-title"
+                placeholder="e.g., Repair scheduled"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={80}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-body">Reply *</Label>
+              <Textarea
+                id="template-body"
+                ref={bodyRef}
+                placeholder="Hi {{student_name}}, thanks for reporting..."
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={6}
+                maxLength={2000}
+              />
+              <div className="flex flex-wrap gap-1.5">
+                {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                  <Button
+                    key={placeholder.key}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="h-6 px-2 font-mono text-xs"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.key)}
+                  >
+                    {`{{${placeholder.key}}}`}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground text-right">{body.length}/2000</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !title.trim() || !body.trim()}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : editingTemplate ? (
+                'Update Template'
+              ) : (
+                'Create Template'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!templateToDelete} onOpenChange={(open) => !open && setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Template</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{templateToDelete?.title}"? Replies already sent are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
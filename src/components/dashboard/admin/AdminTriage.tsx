@@ -0,0 +1,477 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Priority, TriageReason, parseTriageReasons, scoreTriageReasons } from '@/lib/triage';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { Sparkles, Plus, Pencil, Trash2, Loader2, FlaskConical } from 'lucide-react';
+import { z } from 'zod';
+
+type TriageKeyword = Tables<'triage_keywords'>;
+
+interface Preview {
+  priority: Priority | null;
+  categoryId: string | null;
+  reasons: TriageReason[];
+}
+
+const PRIORITY_ORDER: Priority[] = ['critical', 'high', 'medium', 'low'];
+
+// Keywords point at either a priority or a category; the select encodes which
+const priorityTarget = (priority: Priority) => `priority:${priority}`;
+const categoryTarget = (categoryId: string) => `category:${categoryId}`;
+
+const keywordSchema = z.object({
+  keyword: z
+    .string()
+    .max(60, 'Keyword must be less than 60 characters')
+    .regex(/^[a-z0-9]+([ '-][a-z0-9]+)*$/, 'Keywords may only contain letters, digits, spaces, hyphens and apostrophes'),
+  weight: z.number().int('Weight must be a whole number').min(1, 'Weight must be between 1 and 10').max(10, 'Weight must be between 1 and 10'),
+});
+
+export default function AdminTriage() {
+  const [keywords, setKeywords] = useState<TriageKeyword[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [editingKeyword, setEditingKeyword] = useState<TriageKeyword | null>(null);
+  const [keywordToDelete, setKeywordToDelete] = useState<TriageKeyword | null>(null);
+
+  const [keyword, setKeyword] = useState('');
+  const [weight, setWeight] = useState('');
+  const [target, setTarget] = useState(priorityTarget('high'));
+
+  const [previewSubject, setPreviewSubject] = useState('');
+  const [previewDescription, setPreviewDescription] = useState('');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    fetchKeywords();
+    fetchCategories();
+  }, []);
+
+  const fetchKeywords = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('triage_keywords')
+        .select('*')
+        .order('weight', { ascending: false })
+        .order('keyword');
+
+      if (error) throw error;
+      setKeywords(data || []);
+    } catch (error) {
+      console.error('Error fetching triage keywords:', error);
+      toast.error('Failed to load triage keywords');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    const { data } = await supabase.from('categories').select('id, name').order('name');
+    setCategories(data || []);
+  };
+
+  const categoryName = (id: string) => categories.find((c) => c.id === id)?.name || 'Unknown category';
+
+  const targetOf = (k: TriageKeyword) => (k.priority ? priorityTarget(k.priority) : categoryTarget(k.category_id!));
+
+  const openCreateDialog = (initialTarget: string) => {
+    setEditingKeyword(null);
+    setKeyword('');
+    setWeight('3');
+    setTarget(initialTarget);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (k: TriageKeyword) => {
+    setEditingKeyword(k);
+    setKeyword(k.keyword);
+    setWeight(String(k.weight));
+    setTarget(targetOf(k));
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = keywordSchema.parse({
+        keyword: keyword.trim().toLowerCase().replace(/\s+/g, ' '),
+        weight: Number(weight),
+      });
+      setSaving(true);
+
+      const [kind, value] = target.split(':');
+      const values = {
+        keyword: validated.keyword,
+        weight: validated.weight,
+        priority: kind === 'priority' ? (value as Priority) : null,
+        category_id: kind === 'category' ? value : null,
+      };
+
+      const { error } = editingKeyword
+        ? await supabase.from('triage_keywords').update(values).eq('id', editingKeyword.id)
+        : await supabase.from('triage_keywords').insert(values);
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('This keyword is already listed there');
+        }
+        throw error;
+      }
+
+      toast.success(editingKeyword ? 'Keyword updated' : 'Keyword added');
+      setDialogOpen(false);
+      fetchKeywords();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving triage keyword:', error);
+        toast.error((error as Error).message || 'Failed to save keyword');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!keywordToDelete) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('triage_keywords')
+        .delete()
+        .eq('id', keywordToDelete.id);
+
+      if (error) throw error;
+
+      toast.success('Keyword deleted');
+      setDeleteDialogOpen(false);
+      fetchKeywords();
+    } catch (error: unknown) {
+      console.error('Error deleting triage keyword:', error);
+      toast.error((error as Error).message || 'Failed to delete keyword');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      const { data, error } = await supabase.rpc('preview_triage', {
+        _subject: previewSubject,
+        _description: previewDescription,
+      });
+      if (error) throw error;
+
+      const result = data?.[0];
+      setPreview({
+        priority: result?.priority ?? null,
+        categoryId: result?.category_id ?? null,
+        reasons: parseTriageReasons(result?.reasons),
+      });
+    } catch (error: unknown) {
+      console.error('Error previewing triage:', error);
+      toast.error((error as Error).message || 'Failed to classify the text');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const groups = [
+    ...PRIORITY_ORDER.map((p) => ({
+      target: priorityTarget(p),
+      label: <span className="capitalize">{p} priority</span>,
+      items: keywords.filter((k) => k.priority === p),
+    })),
+    ...categories.map((c) => ({
+      target: categoryTarget(c.id),
+      label: <>{c.name}</>,
+      items: keywords.filter((k) => k.category_id === c.id),
+    })),
+  ];
+
+  const renderKeywords = (items: TriageKeyword[]) =>
+    items.length === 0 ? (
+      <span className="text-sm text-muted-foreground italic">No keywords</span>
+    ) : (
+      <div className="flex flex-wrap gap-1.5">
+        {items.map((k) => (
+          <Badge key={k.id} variant="secondary" className="font-normal gap-1 pr-1">
+            {k.keyword}
+            <span className="text-muted-foreground">×{k.weight}</span>
+            <button type="button" className="ml-1 hover:text-foreground" onClick={() => openEditDialog(k)} aria-label={`Edit ${k.keyword}`}>
+              <Pencil className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              className="hover:text-destructive"
+              onClick={() => {
+                setKeywordToDelete(k);
+                setDeleteDialogOpen(true);
+              }}
+              aria-label={`Delete ${k.keyword}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+    );
+
+  const renderTable = (rows: typeof groups, heading: string) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-40">{heading}</TableHead>
+          <TableHead>Keywords (weight)</TableHead>
+          <TableHead className="w-16" />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((group) => (
+          <TableRow key={group.target}>
+            <TableCell className="font-medium align-top">{group.label}</TableCell>
+            <TableCell>{renderKeywords(group.items)}</TableCell>
+            <TableCell className="align-top">
+              <Button variant="ghost" size="icon" onClick={() => openCreateDialog(group.target)}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Auto-Triage</h1>
+          <p className="text-muted-foreground mt-1 text-sm md:text-base">Keywords that suggest a priority and category for new complaints</p>
+        </div>
+        <Button onClick={() => openCreateDialog(priorityTarget('high'))} className="gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          Add Keyword
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">Priority keywords</CardTitle>
+          <CardDescription>
+            Each keyword found in a complaint's subject or description adds its weight to the score of its priority.
+            The highest score is suggested; without any match, no priority is suggested.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">{renderTable(groups.filter((g) => g.target.startsWith('priority:')), 'Priority')}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">Category keywords</CardTitle>
+          <CardDescription>Scored the same way to suggest a category when the student's choice looks off</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-12 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : categories.length === 0 ? (
+            <div className="text-center py-12">
+              <Sparkles className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No categories yet</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">{renderTable(groups.filter((g) => g.target.startsWith('category:')), 'Category')}</div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Try it
+          </CardTitle>
+          <CardDescription>See what would be suggested for a complaint, using the keywords above</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input placeholder="Subject" value={previewSubject} onChange={(e) => setPreviewSubject(e.target.value)} maxLength={200} />
+          <Textarea
+            placeholder="Description"
+            value={previewDescription}
+            onChange={(e) => setPreviewDescription(e.target.value)}
+            rows={3}
+            maxLength={5000}
+          />
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={previewing || (!previewSubject.trim() && !previewDescription.trim())}
+          >
+            {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+            Suggest
+          </Button>
+
+          {preview && (
+            <div className="rounded-lg bg-muted/50 p-4 space-y-2 text-sm">
+              <p>
+                Priority: <span className="font-medium capitalize">{preview.priority || 'no suggestion'}</span>
+                {' • '}Category: <span className="font-medium">{preview.categoryId ? categoryName(preview.categoryId) : 'no suggestion'}</span>
+              </p>
+              {[
+                ...scoreTriageReasons(preview.reasons, 'priority').map((s) => ({ ...s, name: s.target })),
+                ...scoreTriageReasons(preview.reasons, 'category').map((s) => ({ ...s, name: categoryName(s.target) })),
+              ].map((score) => (
+                <p key={score.target} className="text-xs text-muted-foreground">
+                  <span className="font-medium text-foreground capitalize">{score.name}</span> scored {score.score} from{' '}
+                  {score.keywords.join(', ')}
+                </p>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">{editingKeyword ? 'Edit Keyword' : 'Add Keyword'}</DialogTitle>
+            <DialogDescription>
+              Keywords match whole words, ignoring case. Changes apply to complaints submitted from now on.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="triage-keyword">Keyword *</Label>
+              <Input
+                id="triage-keyword"
+                placeholder="e.g., water leak"
+                value={keyword}
+                onChange={(e) => setKeyword(e.target.value)}
+                maxLength={60}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Suggests</Label>
+                <Select value={target} onValueChange={setTarget}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectLabel>Priority</SelectLabel>
+                      {PRIORITY_ORDER.map((p) => (
+                        <SelectItem key={p} value={priorityTarget(p)} className="capitalize">{p}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                    {categories.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Category</SelectLabel>
+                        {categories.map((c) => (
+                          <SelectItem key={c.id} value={categoryTarget(c.id)}>{c.name}</SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="triage-weight">Weight (1–10) *</Label>
+                <Input
+                  id="triage-weight"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={weight}
+                  onChange={(e) => setWeight(e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !keyword.trim() || !weight}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : editingKeyword ? (
+                'Update Keyword'
+              ) : (
+                'Add Keyword'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Keyword</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{keywordToDelete?.keyword}"? Suggestions already made for existing complaints are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
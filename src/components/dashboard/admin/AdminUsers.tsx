@@ -0,0 +1,501 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { AppRole, STAFF_ROLES } from '@/lib/permissions';
+import { getPageCount } from '@/lib/pagination';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { ChevronLeft, ChevronRight, Filter, History, Loader2, MoreHorizontal, Search, Users } from 'lucide-react';
+
+interface UserRow {
+  user_id: string;
+  full_name: string;
+  email: string;
+  created_at: string;
+  deactivated_at: string | null;
+  roles: AppRole[];
+}
+
+interface RoleChange {
+  id: string;
+  user_id: string;
+  changed_by: string | null;
+  action: string;
+  role: AppRole | null;
+  created_at: string;
+}
+
+type PendingAction =
+  | { kind: 'revoke'; user: UserRow; role: AppRole }
+  | { kind: 'deactivate'; user: UserRow };
+
+const PAGE_SIZE = 25;
+const SEARCH_DEBOUNCE_MS = 300;
+const DEACTIVATED = 'deactivated';
+
+// Every role an admin can grant; staff roles only take effect together with admin access
+const GRANTABLE_ROLES: AppRole[] = ['admin', ...STAFF_ROLES.map((r) => r.role)];
+
+const roleLabel = (role: AppRole) => {
+  if (role === 'admin') return 'Admin access';
+  if (role === 'student') return 'Student';
+  return STAFF_ROLES.find((r) => r.role === role)?.label || role;
+};
+
+const changeLabels: Record<string, string> = {
+  granted: 'granted',
+  revoked: 'revoked',
+  deactivated: 'deactivated the account of',
+  reactivated: 'reactivated the account of',
+};
+
+export default function AdminUsers() {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<UserRow[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState('all');
+  const [page, setPage] = useState(1);
+  const [changes, setChanges] = useState<RoleChange[]>([]);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Ignores responses to list requests that have since been superseded
+  const latestRequest = useRef(0);
+
+  const pageCount = getPageCount(totalCount, PAGE_SIZE);
+
+  useEffect(() => {
+    fetchChanges();
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [searchQuery, roleFilter, page]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchQuery(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const fetchUsers = async () => {
+    const request = ++latestRequest.current;
+
+    try {
+      let query = supabase
+        .from('profiles')
+        .select('user_id, full_name, email, created_at, deactivated_at', { count: 'exact' });
+
+      if (searchQuery) {
+        // Characters with a meaning in PostgREST filters are dropped from the search
+        const term = searchQuery.replace(/[,()%*\\]/g, ' ').trim();
+        if (term) query = query.or(`full_name.ilike.%${term}%,email.ilike.%${term}%`);
+      }
+
+      if (roleFilter === DEACTIVATED) {
+        query = query.not('deactivated_at', 'is', null);
+      } else if (roleFilter !== 'all') {
+        const { data: holders, error: holdersError } = await supabase
+          .from('user_roles')
+          .select('user_id')
+          .eq('role', roleFilter as AppRole);
+        if (holdersError) throw holdersError;
+        query = query.in('user_id', (holders || []).map((h) => h.user_id));
+      }
+
+      const { data: profiles, count, error } = await query
+        .order('full_name')
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      const userIds = (profiles || []).map((p) => p.user_id);
+      const { data: roles, error: rolesError } = userIds.length
+        ? await supabase.from('user_roles').select('user_id, role').in('user_id', userIds)
+        : { data: [], error: null };
+
+      if (rolesError) throw rolesError;
+      if (request !== latestRequest.current) return;
+
+      setUsers(
+        (profiles || []).map((profile) => ({
+          ...profile,
+          roles: (roles || []).filter((r) => r.user_id === profile.user_id).map((r) => r.role),
+        }))
+      );
+      setTotalCount(count || 0);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      toast.error('Failed to load users');
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  const fetchChanges = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('role_changes')
+        .select('id, user_id, changed_by, action, role, created_at')
+        .order('created_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+
+      const ids = [...new Set((data || []).flatMap((c) => [c.user_id, c.changed_by]).filter(Boolean))] as string[];
+      const { data: profiles } = ids.length
+        ? await supabase.from('profiles').select('user_id, full_name').in('user_id', ids)
+        : { data: [] };
+
+      setNames(new Map((profiles || []).map((p) => [p.user_id, p.full_name])));
+      setChanges(data || []);
+    } catch (error) {
+      console.error('Error fetching role changes:', error);
+    }
+  };
+
+  const refresh = () => {
+    fetchUsers();
+    fetchChanges();
+  };
+
+  const grantRole = async (target: UserRow, role: AppRole) => {
+    try {
+      const rows = [{ user_id: target.user_id, role }];
+      if (role !== 'admin' && !target.roles.includes('admin')) {
+        rows.unshift({ user_id: target.user_id, role: 'admin' });
+      }
+
+      const { error } = await supabase.from('user_roles').insert(rows);
+      if (error) throw error;
+
+      toast.success(`${roleLabel(role)} granted to ${target.full_name}`);
+      refresh();
+    } catch (error: unknown) {
+      console.error('Error granting role:', error);
+      toast.error((error as Error).message || 'Failed to grant role');
+    }
+  };
+
+  const revokeRole = async (target: UserRow, role: AppRole) => {
+    // Without admin access the staff roles mean nothing, so they go as well
+    let query = supabase.from('user_roles').delete().eq('user_id', target.user_id);
+    query = role === 'admin' ? query.neq('role', 'student') : query.eq('role', role);
+
+    const { error } = await query;
+    if (error) throw error;
+
+    toast.success(`${roleLabel(role)} revoked from ${target.full_name}`);
+  };
+
+  const setActive = async (target: UserRow, active: boolean) => {
+    const { data, error } = await supabase.functions.invoke('manage-user', {
+      body: { action: active ? 'reactivate' : 'deactivate', userId: target.user_id },
+    });
+
+    if (error) {
+      // The function explains refusals (e.g. the last admin) in its response body
+      const body = await (error as { context?: Response }).context?.json?.().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    if (data?.error) throw new Error(data.error);
+
+    toast.success(`${target.full_name} ${active ? 'reactivated' : 'deactivated'}`);
+  };
+
+  const handleReactivate = async (target: UserRow) => {
+    try {
+      await setActive(target, true);
+      refresh();
+    } catch (error: unknown) {
+      console.error('Error reactivating user:', error);
+      toast.error((error as Error).message || 'Failed to reactivate user');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+
+    try {
+      setSaving(true);
+      if (pendingAction.kind === 'revoke') {
+        await revokeRole(pendingAction.user, pendingAction.role);
+      } else {
+        await setActive(pendingAction.user, false);
+      }
+      setPendingAction(null);
+      refresh();
+    } catch (error: unknown) {
+      console.error('Error updating user:', error);
+      toast.error((error as Error).message || 'Failed to update user');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changeDescription = (change: RoleChange) => {
+    const actor = change.changed_by ? names.get(change.changed_by) || 'Unknown' : 'System';
+    const target = names.get(change.user_id) || 'Unknown';
+    if (change.action === 'granted' || change.action === 'revoked') {
+      const preposition = change.action === 'granted' ? 'to' : 'from';
+      return `${actor} ${changeLabels[change.action]} ${roleLabel(change.role!)} ${preposition} ${target}`;
+    }
+    return `${actor} ${changeLabels[change.action] || change.action} ${target}`;
+  };
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Users</h1>
+        <p className="text-muted-foreground mt-1 text-sm md:text-base">Manage accounts, roles and access</p>
+      </div>
+
+      {/* Filters */}
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          <div className="flex flex-col lg:flex-row gap-3 md:gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select
+              value={roleFilter}
+              onValueChange={(value) => {
+                setRoleFilter(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-full lg:w-48">
+                <Filter className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Users</SelectItem>
+                <SelectItem value="student">Students</SelectItem>
+                {GRANTABLE_ROLES.map((role) => (
+                  <SelectItem key={role} value={role}>{roleLabel(role)}</SelectItem>
+                ))}
+                <SelectItem value={DEACTIVATED}>Deactivated</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Users List */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Users ({totalCount})
+          </CardTitle>
+          <CardDescription>
+            Staff roles need admin access to take effect. The last active admin and super admin cannot be removed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-20 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-12">
+              <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No users found</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Roles</TableHead>
+                    <TableHead className="hidden md:table-cell">Joined</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((row) => {
+                    const isSelf = row.user_id === user?.id;
+                    const revocable = row.roles.filter((r) => r !== 'student');
+                    const grantable = GRANTABLE_ROLES.filter((r) => !row.roles.includes(r));
+                    return (
+                      <TableRow key={row.user_id} className={row.deactivated_at ? 'opacity-60' : undefined}>
+                        <TableCell>
+                          <p className="font-medium">
+                            {row.full_name}
+                            {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                          </p>
+                          <p className="text-xs text-muted-foreground">{row.email}</p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {row.roles.map((role) => (
+                              <Badge key={role} variant={role === 'student' ? 'outline' : 'secondary'}>
+                                {roleLabel(role)}
+                              </Badge>
+                            ))}
+                            {row.deactivated_at && <Badge variant="destructive">Deactivated</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                          {new Date(row.created_at).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" aria-label={`Manage ${row.full_name}`}>
+                                <MoreHorizontal className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {grantable.length > 0 && <DropdownMenuLabel>Grant</DropdownMenuLabel>}
+                              {grantable.map((role) => (
+                                <DropdownMenuItem key={role} onClick={() => grantRole(row, role)}>
+                                  {roleLabel(role)}
+                                </DropdownMenuItem>
+                              ))}
+                              {revocable.length > 0 && (
+                                <>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuLabel>Revoke</DropdownMenuLabel>
+                                </>
+                              )}
+                              {revocable.map((role) => (
+                                <DropdownMenuItem
+                                  key={role}
+                                  onClick={() => setPendingAction({ kind: 'revoke', user: row, role })}
+                                >
+                                  {roleLabel(role)}
+                                </DropdownMenuItem>
+                              ))}
+                              <DropdownMenuSeparator />
+                              {row.deactivated_at ? (
+                                <DropdownMenuItem onClick={() => handleReactivate(row)}>
+                                  Reactivate account
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem
+                                  className="text-destructive focus:text-destructive"
+                                  disabled={isSelf}
+                                  onClick={() => setPendingAction({ kind: 'deactivate', user: row })}
+                                >
+                                  Deactivate account
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+              <span>
+                Page {page} of {pageCount}
+              </span>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Audit Trail */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recent Changes
+          </CardTitle>
+          <CardDescription>The last 50 role and account changes</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {changes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No changes recorded yet</p>
+          ) : (
+            <div className="space-y-2">
+              {changes.map((change) => (
+                <div key={change.id} className="flex items-center justify-between gap-4 text-sm py-2 border-b border-border last:border-0">
+                  <span>{changeDescription(change)}</span>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {new Date(change.created_at).toLocaleString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Confirmation */}
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => !open && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingAction?.kind === 'revoke' ? 'Revoke Role' : 'Deactivate Account'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingAction?.kind === 'revoke'
+                ? pendingAction.role === 'admin'
+                  ? `${pendingAction.user.full_name} will lose admin access and all staff roles.`
+                  : `${pendingAction.user.full_name} will no longer be ${roleLabel(pendingAction.role).toLowerCase()}.`
+                : `${pendingAction?.user.full_name} will lose all access and be unable to sign in until reactivated.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleConfirm}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {pendingAction?.kind === 'revoke' ? 'Revoke' : 'Deactivate'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
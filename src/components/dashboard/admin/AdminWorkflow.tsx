@@ -0,0 +1,571 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { toast } from 'sonner';
+import { GitBranch, Plus, Pencil, Trash2, Loader2, RotateCcw } from 'lucide-react';
+import { z } from 'zod';
+import { ComplaintStatus, STATUS_TONES } from '@/lib/workflow';
+import { fetchReopenSettings } from '@/lib/reopen';
+
+const statusSchema = z.object({
+  key: z.string().trim().regex(/^[a-z][a-z0-9_]*$/, 'Key must start with a letter and contain only lowercase letters, numbers and underscores').max(40, 'Key must be less than 40 characters'),
+  label: z.string().trim().min(2, 'Label must be at least 2 characters').max(40, 'Label must be less than 40 characters'),
+  description: z.string().trim().max(200, 'Description must be less than 200 characters').optional(),
+  sort_order: z.number().int(),
+});
+
+const reopenWindowSchema = z.number().int('Window must be a whole number of days').min(0, 'Window cannot be negative').max(365, 'Window must be at most 365 days');
+
+const toStatusKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').replace(/^[^a-z]+/, '');
+
+export default function AdminWorkflow() {
+  const { statuses, transitions, loading, refresh } = useWorkflow();
+  const [saving, setSaving] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [editingStatus, setEditingStatus] = useState<ComplaintStatus | null>(null);
+  const [statusToDelete, setStatusToDelete] = useState<ComplaintStatus | null>(null);
+  const [togglingTransition, setTogglingTransition] = useState<string | null>(null);
+
+  const [key, setKey] = useState('');
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [color, setColor] = useState('gray');
+  const [sortOrder, setSortOrder] = useState('0');
+  const [isInitial, setIsInitial] = useState(false);
+  const [isFinal, setIsFinal] = useState(false);
+
+  // Student reopening
+  const [reopenWindowDays, setReopenWindowDays] = useState('');
+  const [reopenStatus, setReopenStatus] = useState('');
+  const [savingReopen, setSavingReopen] = useState(false);
+
+  useEffect(() => {
+    fetchReopenSettings()
+      .then((settings) => {
+        setReopenWindowDays(String(settings.windowDays));
+        setReopenStatus(settings.status);
+      })
+      .catch((error) => console.error('Error fetching reopen settings:', error));
+  }, []);
+
+  const openCreateDialog = () => {
+    setEditingStatus(null);
+    setKey('');
+    setLabel('');
+    setDescription('');
+    setColor('gray');
+    setSortOrder(String((statuses[statuses.length - 1]?.sort_order ?? 0) + 10));
+    setIsInitial(false);
+    setIsFinal(false);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (status: ComplaintStatus) => {
+    setEditingStatus(status);
+    setKey(status.key);
+    setLabel(status.label);
+    setDescription(status.description || '');
+    setColor(status.color);
+    setSortOrder(String(status.sort_order));
+    setIsInitial(status.is_initial);
+    setIsFinal(status.is_final);
+    setDialogOpen(true);
+  };
+
+  const openDeleteDialog = (status: ComplaintStatus) => {
+    setStatusToDelete(status);
+    setDeleteDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = statusSchema.parse({
+        key: editingStatus ? editingStatus.key : key,
+        label,
+        description: description || undefined,
+        sort_order: Number(sortOrder) || 0,
+      });
+
+      if (isInitial && isFinal) {
+        toast.error('The initial status cannot also be a final status');
+        return;
+      }
+
+      setSaving(true);
+
+      // Only one status can be the initial one
+      const currentInitial = statuses.find((s) => s.is_initial);
+      if (isInitial && currentInitial && currentInitial.key !== validated.key) {
+        const { error } = await supabase
+          .from('complaint_statuses')
+          .update({ is_initial: false })
+          .eq('key', currentInitial.key);
+        if (error) throw error;
+      }
+
+      const values = {
+        label: validated.label,
+        description: validated.description || null,
+        color,
+        sort_order: validated.sort_order,
+        is_initial: isInitial,
+        is_final: isFinal,
+      };
+
+      if (editingStatus) {
+        const { error } = await supabase
+          .from('complaint_statuses')
+          .update(values)
+          .eq('key', editingStatus.key);
+
+        if (error) throw error;
+        toast.success('Status updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('complaint_statuses')
+          .insert({ key: validated.key, ...values });
+
+        if (error) throw error;
+        toast.success('Status created successfully');
+      }
+
+      setDialogOpen(false);
+      refresh();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving status:', error);
+        toast.error((error as Error).message || 'Failed to save status');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!statusToDelete) return;
+
+    try {
+      setSaving(true);
+
+      if (statusToDelete.is_initial) {
+        toast.error('Choose another initial status before deleting this one');
+        setDeleteDialogOpen(false);
+        return;
+      }
+
+      // Check if status is in use
+      const { count } = await supabase
+        .from('complaints')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', statusToDelete.key);
+
+      if (count && count > 0) {
+        toast.error(`Cannot delete: ${count} complaint(s) are in this status`);
+        setDeleteDialogOpen(false);
+        return;
+      }
+
+      const { error } = await supabase
+        .from('complaint_statuses')
+        .delete()
+        .eq('key', statusToDelete.key);
+
+      if (error) throw error;
+
+      toast.success('Status deleted successfully');
+      setDeleteDialogOpen(false);
+      refresh();
+    } catch (error: unknown) {
+      console.error('Error deleting status:', error);
+      toast.error((error as Error).message || 'Failed to delete status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleTransition = async (from: string, to: string) => {
+    const existing = transitions.find((t) => t.from_status === from && t.to_status === to);
+    const id = `${from}:${to}`;
+    setTogglingTransition(id);
+
+    try {
+      const { error } = existing
+        ? await supabase.from('complaint_status_transitions').delete().eq('id', existing.id)
+        : await supabase.from('complaint_status_transitions').insert({ from_status: from, to_status: to });
+
+      if (error) throw error;
+      await refresh();
+    } catch (error: unknown) {
+      console.error('Error updating transition:', error);
+      toast.error((error as Error).message || 'Failed to update transition');
+    } finally {
+      setTogglingTransition(null);
+    }
+  };
+
+  const handleSaveReopenSettings = async () => {
+    try {
+      const windowDays = reopenWindowSchema.parse(Number(reopenWindowDays));
+      setSavingReopen(true);
+
+      const updates = [
+        supabase.from('app_settings').update({ value: windowDays }).eq('key', 'reopen_window_days'),
+        supabase.from('app_settings').update({ value: reopenStatus }).eq('key', 'reopen_status'),
+      ];
+
+      for (const { error } of await Promise.all(updates)) {
+        if (error) throw error;
+      }
+
+      toast.success('Reopen settings saved');
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving reopen settings:', error);
+        toast.error((error as Error).message || 'Failed to save reopen settings');
+      }
+    } finally {
+      setSavingReopen(false);
+    }
+  };
+
+  const reopenSources = statuses.filter(
+    (s) => s.is_final && transitions.some((t) => t.from_status === s.key && t.to_status === reopenStatus)
+  );
+
+  return (
+    <div className="p-4 md:p-8 space-y-6 animate-fade-in">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-display font-bold text-foreground">Workflow</h1>
+          <p className="text-muted-foreground mt-1 text-sm md:text-base">Configure complaint statuses and the moves allowed between them</p>
+        </div>
+        <Button onClick={openCreateDialog} className="gap-2 w-full sm:w-auto">
+          <Plus className="h-4 w-4" />
+          Add Status
+        </Button>
+      </div>
+
+      {/* Statuses List */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display">Statuses ({statuses.length})</CardTitle>
+          <CardDescription>New complaints start in the initial status; final statuses count as resolved</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="h-16 bg-muted animate-pulse rounded-lg" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {statuses.map((status, index) => (
+                <div
+                  key={status.key}
+                  className="flex items-center justify-between p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors animate-slide-in"
+                  style={{ animationDelay: `${index * 30}ms` }}
+                >
+                  <div className="space-y-1 flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <StatusBadge status={status.key} />
+                      <code className="text-xs text-muted-foreground">{status.key}</code>
+                      {status.is_initial && <Badge variant="secondary">Initial</Badge>}
+                      {status.is_final && <Badge variant="secondary">Final</Badge>}
+                    </div>
+                    {status.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-1">{status.description}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 ml-4">
+                    <Button variant="ghost" size="icon" onClick={() => openEditDialog(status)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => openDeleteDialog(status)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Transitions Matrix */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Allowed Transitions
+          </CardTitle>
+          <CardDescription>Tick a cell to allow moving a complaint from the row status to the column status</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>From \ To</TableHead>
+                  {statuses.map((to) => (
+                    <TableHead key={to.key} className="text-center whitespace-nowrap text-xs">{to.label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {statuses.map((from) => (
+                  <TableRow key={from.key}>
+                    <TableCell className="whitespace-nowrap">
+                      <StatusBadge status={from.key} />
+                    </TableCell>
+                    {statuses.map((to) => (
+                      <TableCell key={to.key} className="text-center">
+                        {from.key === to.key ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : togglingTransition === `${from.key}:${to.key}` ? (
+                          <Loader2 className="h-4 w-4 animate-spin mx-auto" />
+                        ) : (
+                          <Checkbox
+                            checked={transitions.some((t) => t.from_status === from.key && t.to_status === to.key)}
+                            onCheckedChange={() => toggleTransition(from.key, to.key)}
+                            disabled={togglingTransition !== null}
+                          />
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Student Reopening */}
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle className="font-display flex items-center gap-2">
+            <RotateCcw className="h-5 w-5" />
+            Student Reopening
+          </CardTitle>
+          <CardDescription>
+            Let students reopen a finished complaint for a limited time. Only final statuses with a transition to the reopen status can be reopened.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="reopen-window">Reopen window (days)</Label>
+              <Input
+                id="reopen-window"
+                type="number"
+                min={0}
+                max={365}
+                value={reopenWindowDays}
+                onChange={(e) => setReopenWindowDays(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reopen into status</Label>
+              <Select value={reopenStatus} onValueChange={setReopenStatus}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses.filter((s) => !s.is_final).map((status) => (
+                    <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleSaveReopenSettings} disabled={savingReopen || !reopenStatus}>
+              {savingReopen && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {Number(reopenWindowDays) <= 0
+              ? 'Reopening is disabled.'
+              : reopenSources.length > 0
+                ? `Students can reopen complaints in: ${reopenSources.map((s) => s.label).join(', ')}.`
+                : 'No final status has a transition to the reopen status, so students cannot reopen complaints yet.'}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {editingStatus ? 'Edit Status' : 'Create Status'}
+            </DialogTitle>
+            <DialogDescription>
+              {editingStatus
+                ? 'Update how this status is shown to students and admins'
+                : 'Add a new step to the complaint workflow'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="status-label">Label *</Label>
+              <Input
+                id="status-label"
+                placeholder="e.g., Awaiting Student Reply"
+                value={label}
+                onChange={(e) => {
+                  setLabel(e.target.value);
+                  if (!editingStatus) setKey(toStatusKey(e.target.value));
+                }}
+                maxLength={40}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="status-key">Key *</Label>
+              <Input
+                id="status-key"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                disabled={!!editingStatus}
+                maxLength={40}
+              />
+              <p className="text-xs text-muted-foreground">Used internally and in the activity log. Cannot be changed later.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="status-description">Description (optional)</Label>
+              <Textarea
+                id="status-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+                maxLength={200}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Color</Label>
+                <Select value={color} onValueChange={setColor}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(STATUS_TONES).map(([tone, config]) => (
+                      <SelectItem key={tone} value={tone}>
+                        <span className="flex items-center gap-2">
+                          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: config.chart }} />
+                          {config.label}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="status-order">Sort Order</Label>
+                <Input
+                  id="status-order"
+                  type="number"
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="status-initial">Initial status</Label>
+                <p className="text-xs text-muted-foreground">New complaints start here</p>
+              </div>
+              <Switch id="status-initial" checked={isInitial} onCheckedChange={setIsInitial} />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="status-final">Final status</Label>
+                <p className="text-xs text-muted-foreground">Counts as resolved and stops the clock</p>
+              </div>
+              <Switch id="status-final" checked={isFinal} onCheckedChange={setIsFinal} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !label.trim()}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : editingStatus ? (
+                'Update Status'
+              ) : (
+                'Create Status'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Status</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{statusToDelete?.label}"? Its transitions will be removed as well.
+              Statuses that complaints are currently in cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                'Delete'
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
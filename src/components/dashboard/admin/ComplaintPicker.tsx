@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { Loader2, Plus } from 'lucide-react';
+
+type ComplaintRow = Database['public']['Functions']['list_admin_complaints']['Returns'][number];
+
+export type ComplaintSummary = Pick<
+  ComplaintRow,
+  'id' | 'subject' | 'status' | 'created_at' | 'is_confidential' | 'merged_into' | 'parent_id'
+>;
+
+export const COMPLAINT_SUMMARY_COLUMNS = 'id, subject, status, created_at, is_confidential, merged_into, parent_id';
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MAX_RESULTS = 10;
+
+interface ComplaintPickerProps {
+  label: string;
+  /** Complaints that may not be picked, e.g. the open one. */
+  excludeIds: string[];
+  /** Further narrows which search results are offered. */
+  filter?: (complaint: ComplaintSummary) => boolean;
+  onSelect: (complaint: ComplaintSummary) => void;
+  disabled?: boolean;
+}
+
+export default function ComplaintPicker({ label, excludeIds, filter, onSelect, disabled }: ComplaintPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ComplaintSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Ignores responses to searches that have since been superseded
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSearching(true);
+    const timer = setTimeout(() => search(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, open]);
+
+  const search = async (text: string) => {
+    const request = ++latestRequest.current;
+    try {
+      // Merged complaints are closed for good, so they can't take part again
+      const { data, error } = await supabase
+        .rpc('list_admin_complaints', { _search: text || undefined })
+        .select(COMPLAINT_SUMMARY_COLUMNS)
+        .is('merged_into', null)
+        .order('created_at', { ascending: false })
+        .limit(MAX_RESULTS + excludeIds.length);
+
+      if (error) throw error;
+      if (request === latestRequest.current) setResults(data || []);
+    } catch (error) {
+      console.error('Error searching complaints:', error);
+      if (request === latestRequest.current) setResults([]);
+    } finally {
+      if (request === latestRequest.current) setSearching(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery('');
+  };
+
+  const available = results
+    .filter((complaint) => !excludeIds.includes(complaint.id) && (!filter || filter(complaint)))
+    .slice(0, MAX_RESULTS);
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="h-7 gap-1.5" disabled={disabled}>
+          <Plus className="h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="start">
+        {/* Results come from the database search, so cmdk's own filtering is off */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search complaints..." value={query} onValueChange={setQuery} />
+          <CommandList className="max-h-64">
+            {searching && available.length === 0 ? (
+              <div className="py-6 flex justify-center">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <CommandEmpty>No complaints found</CommandEmpty>
+            )}
+            {available.length > 0 && (
+              <CommandGroup>
+                {available.map((complaint) => (
+                  <CommandItem
+                    key={complaint.id}
+                    value={complaint.id}
+                    onSelect={() => {
+                      onSelect(complaint);
+                      handleOpenChange(false);
+                    }}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{complaint.subject}</p>
+                      <p className="text-xs text-muted-foreground">{new Date(complaint.created_at).toLocaleDateString()}</p>
+                    </div>
+                    <StatusBadge status={complaint.status} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
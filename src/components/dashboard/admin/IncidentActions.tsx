@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { supabase } from '@/integrations/supabase/client';
+import { sendNotification } from '@/lib/notifications';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { CheckCheck, Loader2, Megaphone } from 'lucide-react';
+
+interface IncidentActionsProps {
+  incident: { id: string; subject: string };
+  /** Complaints in the incident, the incident itself included. */
+  complaintCount: number;
+  onUpdatePosted: () => void;
+  onResolved: () => void;
+}
+
+type Action = 'update' | 'resolve';
+
+const DEFAULT_RESOLVE_STATUS = 'resolved';
+
+export default function IncidentActions({ incident, complaintCount, onUpdatePosted, onResolved }: IncidentActionsProps) {
+  const { can } = useAuth();
+  const { statuses } = useWorkflow();
+  const [action, setAction] = useState<Action | null>(null);
+  const [message, setMessage] = useState('');
+  const [status, setStatus] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const finalStatuses = statuses.filter((s) => s.is_final);
+
+  const openAction = (next: Action) => {
+    setMessage('');
+    setStatus(finalStatuses.find((s) => s.key === DEFAULT_RESOLVE_STATUS)?.key || finalStatuses[0]?.key || '');
+    setAction(next);
+  };
+
+  const handleBroadcast = async () => {
+    const content = message.trim();
+    if (!content) return;
+
+    setSaving(true);
+    try {
+      const { data: ids, error } = await supabase.rpc('broadcast_incident_update', {
+        _incident_id: incident.id,
+        _content: content,
+      });
+      if (error) throw error;
+
+      (ids || []).forEach((complaintId) => {
+        sendNotification({ type: 'admin_comment', complaintId, comment: content }).catch(console.error);
+      });
+
+      toast.success(`Update posted to ${ids?.length || 0} complaints`);
+      setAction(null);
+      onUpdatePosted();
+    } catch (error: unknown) {
+      console.error('Error posting incident update:', error);
+      toast.error((error as Error).message || 'Failed to post the update');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!status) return;
+
+    setSaving(true);
+    try {
+      const { data: resolved, error } = await supabase.rpc('resolve_incident', {
+        _incident_id: incident.id,
+        _status: status,
+        _response: message.trim() || undefined,
+      });
+      if (error) throw error;
+
+      (resolved || []).forEach((row) => {
+        sendNotification({
+          type: 'status_change',
+          complaintId: row.complaint_id,
+          oldValue: row.old_status,
+          newValue: status,
+        }).catch(console.error);
+      });
+
+      toast.success(
+        resolved?.length ? `Resolved ${resolved.length} complaints` : 'All complaints of this incident were already closed'
+      );
+      setAction(null);
+      onResolved();
+    } catch (error: unknown) {
+      console.error('Error resolving incident:', error);
+      toast.error((error as Error).message || 'Failed to resolve the incident');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!can('comment') && !can('update_status')) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {can('comment') && (
+          <Button type="button" variant="outline" size="sm" className="gap-1.5" onClick={() => openAction('update')}>
+            <Megaphone className="h-4 w-4" />
+            Post update to all
+          </Button>
+        )}
+        {can('update_status') && (
+          <Button type="button" variant="outline" size="sm" className="gap-1.5" onClick={() => openAction('resolve')}>
+            <CheckCheck className="h-4 w-4" />
+            Resolve all
+          </Button>
+        )}
+      </div>
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && !saving && setAction(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-display">
+              {action === 'update' ? 'Post incident update' : 'Resolve incident'}
+            </DialogTitle>
+            <DialogDescription>
+              {action === 'update'
+                ? `The update is posted as a reply on all ${complaintCount} complaints of "${incident.subject}", and every student is notified.`
+                : `Every open complaint of "${incident.subject}" is closed, each with its own log entry, and every student is notified.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {action === 'resolve' && (
+              <div className="space-y-2">
+                <Label>Close as *</Label>
+                <Select value={status} onValueChange={setStatus}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a final status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {finalStatuses.map((s) => (
+                      <SelectItem key={s.key} value={s.key}>{s.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="incident-message">{action === 'update' ? 'Update *' : 'Admin response'}</Label>
+              <Textarea
+                id="incident-message"
+                placeholder={
+                  action === 'update'
+                    ? "e.g., We're aware of the problem and a technician is on the way."
+                    : 'e.g., The air conditioning has been repaired. Thanks for reporting it.'
+                }
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                rows={4}
+                maxLength={2000}
+              />
+              {action === 'resolve' && (
+                <p className="text-xs text-muted-foreground">Replaces the admin response of every complaint when given</p>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAction(null)} disabled={saving}>
+              Cancel
+            </Button>
+            {action === 'update' ? (
+              <Button onClick={handleBroadcast} disabled={saving || !message.trim()}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Post to {complaintCount} complaints
+              </Button>
+            ) : (
+              <Button onClick={handleResolve} disabled={saving || !status}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                Resolve all
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
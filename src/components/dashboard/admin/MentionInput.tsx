@@ -0,0 +1,120 @@
+import { useRef, useState } from 'react';
+import { MentionCandidate, filterMentionCandidates, getMentionQuery, insertMention } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { AtSign } from 'lucide-react';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Admins offered when typing `@`. */
+  candidates: MentionCandidate[];
+  onSubmit: () => void;
+  placeholder?: string;
+  className?: string;
+  disabled?: boolean;
+}
+
+export default function MentionInput({
+  value,
+  onChange,
+  candidates,
+  onSubmit,
+  placeholder,
+  className,
+  disabled,
+}: MentionInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mention ? filterMentionCandidates(candidates, mention.query) : [];
+  const open = suggestions.length > 0;
+
+  const updateMention = (text: string, caret: number | null) => {
+    setMention(caret === null ? null : getMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const pick = (candidate: MentionCandidate) => {
+    if (!mention) return;
+    const caret = inputRef.current?.selectionStart ?? value.length;
+    const next = insertMention(value, mention.start, caret, candidate.full_name);
+    onChange(next.text);
+    setMention(null);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(next.caret, next.caret));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (open) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((current) => (current + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        pick(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        // Close the suggestions without closing the surrounding dialog
+        e.preventDefault();
+        e.stopPropagation();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (e.key === 'Enter' && !e.shiftKey) onSubmit();
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Input
+        ref={inputRef}
+        placeholder={placeholder}
+        className={className}
+        value={value}
+        disabled={disabled}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        role="combobox"
+        aria-expanded={open}
+        aria-autocomplete="list"
+      />
+      {open && (
+        <div
+          role="listbox"
+          className="absolute bottom-full left-0 mb-1 w-64 max-w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md z-50"
+        >
+          {suggestions.map((candidate, index) => (
+            <button
+              key={candidate.user_id}
+              type="button"
+              role="option"
+              aria-selected={index === highlighted}
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                index === highlighted ? 'bg-accent text-accent-foreground' : 'hover:bg-muted'
+              )}
+              // Keep focus in the input so the caret position survives the click
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setHighlighted(index)}
+              onClick={() => pick(candidate)}
+            >
+              <AtSign className="h-3.5 w-3.5 text-muted-foreground" />
+              {candidate.full_name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
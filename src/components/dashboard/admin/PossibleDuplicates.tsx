@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { ChevronRight, Copy, Users } from 'lucide-react';
+
+type SimilarComplaint = Database['public']['Functions']['find_similar_complaints']['Returns'][number];
+
+interface PossibleDuplicatesProps {
+  complaint: { id: string; subject: string; description: string; category: { id: string } | null };
+  onOpen: (complaintId: string) => void;
+}
+
+export default function PossibleDuplicates({ complaint, onOpen }: PossibleDuplicatesProps) {
+  const [matches, setMatches] = useState<SimilarComplaint[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMatches([]);
+
+    supabase
+      .rpc('find_similar_complaints', {
+        _subject: complaint.subject,
+        _description: complaint.description,
+        _category_id: complaint.category?.id,
+        _exclude_id: complaint.id,
+      })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error finding possible duplicates:', error);
+          return;
+        }
+        setMatches(data || []);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [complaint.id]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-2">
+        <Copy className="h-4 w-4" />
+        Possible duplicates ({matches.length})
+      </h4>
+      <div className="space-y-2">
+        {matches.map((match) => (
+          <button
+            key={match.complaint_id}
+            type="button"
+            className="w-full flex items-center justify-between gap-3 p-3 rounded-lg border border-border text-left hover:bg-muted/50 transition-colors"
+            onClick={() => onOpen(match.complaint_id)}
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">{match.subject}</p>
+                <StatusBadge status={match.status} />
+              </div>
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                {match.category_name || 'Uncategorized'} • {new Date(match.created_at).toLocaleDateString()}
+                {match.supporter_count > 0 && (
+                  <>
+                    {' • '}
+                    <Users className="h-3 w-3" />
+                    {match.supporter_count} +1
+                  </>
+                )}
+              </p>
+            </div>
+            <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
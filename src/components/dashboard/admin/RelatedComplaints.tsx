@@ -0,0 +1,370 @@
+import { useEffect, useState } from 'react';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { supabase } from '@/integrations/supabase/client';
+import { sendNotification } from '@/lib/notifications';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { toast } from 'sonner';
+import { ChevronRight, GitMerge, Link2, Loader2, Unlink, X } from 'lucide-react';
+import ComplaintPicker, { COMPLAINT_SUMMARY_COLUMNS, ComplaintSummary } from './ComplaintPicker';
+import IncidentActions from './IncidentActions';
+
+interface RelatedComplaintsProps {
+  complaint: ComplaintSummary;
+  /** Whether the current admin may merge and link this complaint. */
+  canEdit: boolean;
+  onOpen: (complaintId: string) => void;
+  /** Called after a merge, (un)link or incident update so the list and dialog can refresh. */
+  onChanged: () => void;
+  /** Called once every complaint of the incident has been resolved. */
+  onIncidentResolved: () => void;
+}
+
+// Duplicates are closed as "closed" when the workflow has it, else the first final status
+const DEFAULT_MERGE_STATUS = 'closed';
+
+function ComplaintRow({ complaint, onOpen, action }: { complaint: ComplaintSummary; onOpen: () => void; action?: React.ReactNode }) {
+  return (
+    <div className="flex items-center gap-2 rounded-lg border border-border">
+      <button
+        type="button"
+        className="flex-1 min-w-0 flex items-center justify-between gap-3 p-3 text-left hover:bg-muted/50 transition-colors rounded-lg"
+        onClick={onOpen}
+      >
+        <div className="min-w-0 flex items-center gap-2">
+          <p className="text-sm font-medium truncate">{complaint.subject}</p>
+          <StatusBadge status={complaint.status} />
+        </div>
+        <ChevronRight className="h-4 w-4 text-muted-foreground shrink-0" />
+      </button>
+      {action}
+    </div>
+  );
+}
+
+export default function RelatedComplaints({ complaint, canEdit, onOpen, onChanged, onIncidentResolved }: RelatedComplaintsProps) {
+  const { statuses } = useWorkflow();
+  const [related, setRelated] = useState<ComplaintSummary[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  // Merge
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [duplicates, setDuplicates] = useState<ComplaintSummary[]>([]);
+  const [mergeStatus, setMergeStatus] = useState('');
+  const [mergeNote, setMergeNote] = useState('');
+
+  const finalStatuses = statuses.filter((s) => s.is_final);
+
+  useEffect(() => {
+    fetchRelated();
+  }, [complaint.id, complaint.merged_into, complaint.parent_id]);
+
+  const fetchRelated = async () => {
+    const filters = [`parent_id.eq.${complaint.id}`, `merged_into.eq.${complaint.id}`];
+    if (complaint.merged_into) filters.push(`id.eq.${complaint.merged_into}`);
+    if (complaint.parent_id) filters.push(`id.eq.${complaint.parent_id}`);
+
+    const { data, error } = await supabase
+      .rpc('list_admin_complaints', {})
+      .select(COMPLAINT_SUMMARY_COLUMNS)
+      .or(filters.join(','))
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching related complaints:', error);
+      return;
+    }
+    setRelated(data || []);
+  };
+
+  const mergedInto = related.find((c) => c.id === complaint.merged_into);
+  const parent = related.find((c) => c.id === complaint.parent_id);
+  const children = related.filter((c) => c.parent_id === complaint.id);
+  const merged = related.filter((c) => c.merged_into === complaint.id);
+
+  const handleLink = async (childId: string, parentId: string | null) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('set_complaint_parent', {
+        _complaint_id: childId,
+        _parent_id: parentId ?? undefined,
+      });
+      if (error) throw error;
+
+      toast.success(parentId ? 'Complaint linked' : 'Complaint unlinked');
+      fetchRelated();
+      onChanged();
+    } catch (error: unknown) {
+      console.error('Error linking complaint:', error);
+      toast.error((error as Error).message || 'Failed to update the incident');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openMergeDialog = () => {
+    setDuplicates([]);
+    setMergeStatus(
+      finalStatuses.find((s) => s.key === DEFAULT_MERGE_STATUS)?.key || finalStatuses[0]?.key || ''
+    );
+    setMergeNote('');
+    setMergeOpen(true);
+  };
+
+  const handleMerge = async () => {
+    if (duplicates.length === 0 || !mergeStatus) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('merge_complaints', {
+        _primary_id: complaint.id,
+        _duplicate_ids: duplicates.map((d) => d.id),
+        _status: mergeStatus,
+        _note: mergeNote.trim() || undefined,
+      });
+      if (error) throw error;
+
+      duplicates.forEach((duplicate) => {
+        sendNotification({ type: 'complaint_merged', complaintId: duplicate.id }).catch(console.error);
+      });
+
+      toast.success(`Merged ${duplicates.length} complaint(s) into this one`);
+      setMergeOpen(false);
+      fetchRelated();
+      onChanged();
+    } catch (error: unknown) {
+      console.error('Error merging complaints:', error);
+      toast.error((error as Error).message || 'Failed to merge complaints');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const relatedIds = [complaint.id, ...related.map((c) => c.id)];
+  // Incidents are one level deep, so a linked complaint can't group others
+  const canLink = canEdit && !complaint.merged_into && !complaint.parent_id;
+  const canMerge = canEdit && !complaint.merged_into;
+
+  if (complaint.merged_into) {
+    return (
+      <div>
+        <h4 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          Merged into
+        </h4>
+        {mergedInto ? (
+          <ComplaintRow complaint={mergedInto} onOpen={() => onOpen(mergedInto.id)} />
+        ) : (
+          <p className="text-sm text-muted-foreground italic">A complaint you don't have access to</p>
+        )}
+      </div>
+    );
+  }
+
+  if (!parent && children.length === 0 && merged.length === 0 && !canLink && !canMerge) return null;
+
+  return (
+    <div className="space-y-4">
+      {parent && (
+        <div>
+          <h4 className="text-sm font-medium text-muted-foreground mb-2 flex items-center gap-2">
+            <Link2 className="h-4 w-4" />
+            Part of incident
+          </h4>
+          <ComplaintRow
+            complaint={parent}
+            onOpen={() => onOpen(parent.id)}
+            action={
+              canEdit && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0 mr-1"
+                  title="Unlink from incident"
+                  onClick={() => handleLink(complaint.id, null)}
+                  disabled={saving}
+                >
+                  <Unlink className="h-4 w-4" />
+                </Button>
+              )
+            }
+          />
+        </div>
+      )}
+
+      {(children.length > 0 || canLink) && !parent && (
+        <div>
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <Link2 className="h-4 w-4" />
+              Linked complaints ({children.length})
+            </h4>
+            {canLink && (
+              <ComplaintPicker
+                label="Link"
+                excludeIds={relatedIds}
+                filter={(c) => !c.parent_id}
+                onSelect={(child) => handleLink(child.id, complaint.id)}
+                disabled={saving}
+              />
+            )}
+          </div>
+          <div className="space-y-2">
+            {children.map((child) => (
+              <ComplaintRow
+                key={child.id}
+                complaint={child}
+                onOpen={() => onOpen(child.id)}
+                action={
+                  canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="shrink-0 mr-1"
+                      title="Unlink"
+                      onClick={() => handleLink(child.id, null)}
+                      disabled={saving}
+                    >
+                      <Unlink className="h-4 w-4" />
+                    </Button>
+                  )
+                }
+              />
+            ))}
+          </div>
+          {children.length > 0 && (
+            <div className="mt-3">
+              <IncidentActions
+                incident={complaint}
+                complaintCount={children.length + 1}
+                onUpdatePosted={onChanged}
+                onResolved={onIncidentResolved}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {(merged.length > 0 || canMerge) && (
+        <div>
+          <div className="flex items-center justify-between gap-2 mb-2">
+            <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+              <GitMerge className="h-4 w-4" />
+              Merged duplicates ({merged.length})
+            </h4>
+            {canMerge && (
+              <Button type="button" variant="outline" size="sm" className="h-7 gap-1.5" onClick={openMergeDialog}>
+                <GitMerge className="h-4 w-4" />
+                Merge
+              </Button>
+            )}
+          </div>
+          <div className="space-y-2">
+            {merged.map((duplicate) => (
+              <ComplaintRow key={duplicate.id} complaint={duplicate} onOpen={() => onOpen(duplicate.id)} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Merge Dialog */}
+      <Dialog open={mergeOpen} onOpenChange={(open) => !saving && setMergeOpen(open)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="font-display">Merge duplicates</DialogTitle>
+            <DialogDescription>
+              Comments, attachments and history of the duplicates move into "{complaint.subject}". The duplicates
+              are closed and their students are notified.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Duplicates *</Label>
+                <ComplaintPicker
+                  label="Add"
+                  excludeIds={[...relatedIds, ...duplicates.map((d) => d.id)]}
+                  // Confidential threads only merge with each other
+                  filter={(c) => c.is_confidential === complaint.is_confidential}
+                  onSelect={(duplicate) => setDuplicates((current) => [...current, duplicate])}
+                  disabled={saving}
+                />
+              </div>
+              {duplicates.length === 0 ? (
+                <p className="text-sm text-muted-foreground italic">No duplicates selected</p>
+              ) : (
+                <div className="space-y-2">
+                  {duplicates.map((duplicate) => (
+                    <div key={duplicate.id} className="flex items-center justify-between gap-2 p-2 rounded-md border border-border">
+                      <div className="min-w-0 flex items-center gap-2">
+                        <p className="text-sm truncate">{duplicate.subject}</p>
+                        <StatusBadge status={duplicate.status} />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => setDuplicates((current) => current.filter((d) => d.id !== duplicate.id))}
+                        disabled={saving}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Close duplicates as *</Label>
+              <Select value={mergeStatus} onValueChange={setMergeStatus}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a final status" />
+                </SelectTrigger>
+                <SelectContent>
+                  {finalStatuses.map((status) => (
+                    <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="merge-note">Message to their students</Label>
+              <Textarea
+                id="merge-note"
+                placeholder="e.g., Thanks for reporting this. We're handling it together with an earlier report."
+                value={mergeNote}
+                onChange={(e) => setMergeNote(e.target.value)}
+                rows={3}
+                maxLength={2000}
+              />
+              <p className="text-xs text-muted-foreground">Shown as the admin response on each merged complaint</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={saving || duplicates.length === 0 || !mergeStatus}>
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Merging...
+                </>
+              ) : (
+                `Merge ${duplicates.length} complaint${duplicates.length === 1 ? '' : 's'}`
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { ViewFilters, hasViewFilters, parseViewFilters, sameViewFilters } from '@/lib/saved-views';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+import { Bookmark, BookmarkPlus, Loader2, MoreHorizontal, Star, Users } from 'lucide-react';
+import { z } from 'zod';
+
+interface SavedView {
+  id: string;
+  user_id: string;
+  name: string;
+  filters: ViewFilters;
+  is_default: boolean;
+  is_shared: boolean;
+}
+
+interface SavedViewsProps {
+  /** Filters currently applied to the list. */
+  filters: ViewFilters;
+  onApply: (filters: ViewFilters) => void;
+  /** Apply the admin's default view once loaded, e.g. when the list is opened without filters. */
+  applyDefault?: boolean;
+  ownerName: (userId: string) => string;
+}
+
+const viewSchema = z.object({
+  name: z.string().trim().min(1, 'Please give the view a name').max(60, 'Name must be less than 60 characters'),
+});
+
+export default function SavedViews({ filters, onApply, applyDefault = false, ownerName }: SavedViewsProps) {
+  const { user } = useAuth();
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [viewToDelete, setViewToDelete] = useState<SavedView | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [share, setShare] = useState(false);
+  const defaultApplied = useRef(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchViews();
+    }
+  }, [user]);
+
+  const fetchViews = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('saved_views')
+        .select('id, user_id, name, filters, is_default, is_shared')
+        .order('name');
+
+      if (error) throw error;
+
+      const loaded = (data || []).map((v) => ({ ...v, filters: parseViewFilters(v.filters) }));
+      // Own views first, then the ones shared by other admins
+      loaded.sort((a, b) => Number(a.user_id !== user!.id) - Number(b.user_id !== user!.id));
+      setViews(loaded);
+
+      if (applyDefault && !defaultApplied.current) {
+        const defaultView = loaded.find((v) => v.user_id === user!.id && v.is_default);
+        if (defaultView) onApply(defaultView.filters);
+      }
+      defaultApplied.current = true;
+    } catch (error) {
+      console.error('Error fetching saved views:', error);
+    }
+  };
+
+  const openSaveDialog = () => {
+    setName('');
+    setMakeDefault(false);
+    setShare(false);
+    setDialogOpen(true);
+  };
+
+  const clearDefault = async () => {
+    const { error } = await supabase
+      .from('saved_views')
+      .update({ is_default: false })
+      .eq('user_id', user!.id)
+      .eq('is_default', true);
+    if (error) throw error;
+  };
+
+  const handleSave = async () => {
+    try {
+      const validated = viewSchema.parse({ name });
+      setSaving(true);
+
+      if (makeDefault) await clearDefault();
+
+      const { error } = await supabase.from('saved_views').insert({
+        user_id: user!.id,
+        name: validated.name,
+        filters,
+        is_default: makeDefault,
+        is_shared: share,
+      });
+
+      if (error) throw error;
+      toast.success('View saved');
+      setDialogOpen(false);
+      fetchViews();
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error saving view:', error);
+        toast.error((error as Error).message || 'Failed to save view');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateView = async (view: SavedView, changes: Partial<Omit<SavedView, 'id' | 'user_id'>>, message: string) => {
+    try {
+      if (changes.is_default) await clearDefault();
+
+      const { error } = await supabase.from('saved_views').update(changes).eq('id', view.id);
+      if (error) throw error;
+
+      toast.success(message);
+      fetchViews();
+    } catch (error: unknown) {
+      console.error('Error updating view:', error);
+      toast.error((error as Error).message || 'Failed to update view');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!viewToDelete) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('saved_views').delete().eq('id', viewToDelete.id);
+      if (error) throw error;
+
+      toast.success('View deleted');
+      setViewToDelete(null);
+      fetchViews();
+    } catch (error: unknown) {
+      console.error('Error deleting view:', error);
+      toast.error((error as Error).message || 'Failed to delete view');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Bookmark className="h-4 w-4 text-muted-foreground" />
+      {views.length === 0 && (
+        <span className="text-sm text-muted-foreground">No saved views yet</span>
+      )}
+      {views.map((view) => {
+        const own = view.user_id === user?.id;
+        const active = sameViewFilters(view.filters, filters);
+        return (
+          <div
+            key={view.id}
+            className={cn(
+              'inline-flex items-center rounded-full border text-sm transition-colors',
+              active ? 'border-primary bg-primary/10 text-primary' : 'border-border bg-background hover:bg-muted'
+            )}
+          >
+            <button
+              type="button"
+              className={cn('flex items-center gap-1.5 py-1 pl-3', own ? 'pr-1' : 'pr-3')}
+              onClick={() => onApply(view.filters)}
+              title={own ? undefined : `Shared by ${ownerName(view.user_id)}`}
+            >
+              {own && view.is_default && <Star className="h-3 w-3 fill-current" />}
+              {view.name}
+              {view.is_shared && <Users className="h-3 w-3 opacity-70" />}
+            </button>
+            {own && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button type="button" className="py-1 pl-1 pr-2 opacity-70 hover:opacity-100" aria-label={`Manage ${view.name}`}>
+                    <MoreHorizontal className="h-3.5 w-3.5" />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuItem
+                    disabled={active}
+                    onClick={() => updateView(view, { filters }, 'View updated to the current filters')}
+                  >
+                    Update to current filters
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() =>
+                      updateView(
+                        view,
+                        { is_default: !view.is_default },
+                        view.is_default ? 'Default view removed' : 'Default view set'
+                      )
+                    }
+                  >
+                    {view.is_default ? 'Remove as default' : 'Set as default'}
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() =>
+                      updateView(
+                        view,
+                        { is_shared: !view.is_shared },
+                        view.is_shared ? 'View is now private' : 'View shared with other admins'
+                      )
+                    }
+                  >
+                    {view.is_shared ? 'Stop sharing' : 'Share with other admins'}
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem className="text-destructive focus:text-destructive" onClick={() => setViewToDelete(view)}>
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        );
+      })}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="gap-1.5 h-7"
+        onClick={openSaveDialog}
+        disabled={!hasViewFilters(filters)}
+        title={hasViewFilters(filters) ? undefined : 'Apply some filters first'}
+      >
+        <BookmarkPlus className="h-4 w-4" />
+        Save view
+      </Button>
+
+      {/* Save Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>Save the current filters and sort order for quick access</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                placeholder="e.g. Critical and unassigned"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={60}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="view-default">Open this view by default</Label>
+              <Switch id="view-default" checked={makeDefault} onCheckedChange={setMakeDefault} />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="view-share">Share with other admins</Label>
+              <Switch id="view-share" checked={share} onCheckedChange={setShare} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!viewToDelete} onOpenChange={(open) => !open && setViewToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete View</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{viewToDelete?.name}"?
+              {viewToDelete?.is_shared && ' Other admins will no longer see it.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={saving}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { ResponseTemplate, TemplateValues, applicableTemplates, renderTemplate } from '@/lib/templates';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { MessageSquareText } from 'lucide-react';
+
+interface TemplatePickerProps {
+  templates: ResponseTemplate[];
+  /** Category of the complaint being answered; picks which category templates are offered. */
+  categoryId: string | null;
+  values: TemplateValues;
+  /** Receives the template with its placeholders filled in. */
+  onInsert: (text: string) => void;
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+export default function TemplatePicker({
+  templates,
+  categoryId,
+  values,
+  onInsert,
+  compact = false,
+  disabled,
+}: TemplatePickerProps) {
+  const [open, setOpen] = useState(false);
+  const available = applicableTemplates(templates, categoryId);
+
+  if (available.length === 0) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant={compact ? 'ghost' : 'outline'}
+          size={compact ? 'icon' : 'sm'}
+          className={compact ? 'shrink-0' : 'h-7 gap-1.5'}
+          disabled={disabled}
+          title="Insert template"
+          aria-label="Insert template"
+        >
+          <MessageSquareText className="h-4 w-4" />
+          {!compact && 'Templates'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search templates..." />
+          <CommandList className="max-h-64">
+            <CommandEmpty>No templates found</CommandEmpty>
+            <CommandGroup>
+              {available.map((template) => (
+                <CommandItem
+                  key={template.id}
+                  value={`${template.title} ${template.id}`}
+                  onSelect={() => {
+                    onInsert(renderTemplate(template.body, values));
+                    setOpen(false);
+                  }}
+                  className="flex flex-col items-start gap-0.5"
+                >
+                  <span className="font-medium">{template.title}</span>
+                  <span className="text-xs text-muted-foreground line-clamp-2">
+                    {renderTemplate(template.body, values)}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { sendNotification } from '@/lib/notifications';
+import { Priority, TriageReason, parseTriageReasons, scoreTriageReasons } from '@/lib/triage';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+
+interface Suggestion {
+  priority: Priority | null;
+  categoryId: string | null;
+  reasons: TriageReason[];
+  priorityAccepted: boolean | null;
+  categoryAccepted: boolean | null;
+}
+
+interface TriageSuggestionProps {
+  complaint: { id: string; priority: Priority; category: { id: string } | null };
+  categories: { id: string; name: string }[];
+  canEdit: boolean;
+  onReviewed: () => void;
+}
+
+const outcomeLabel = (accepted: boolean | null) =>
+  accepted === null ? null : accepted ? 'accepted' : 'not followed';
+
+export default function TriageSuggestion({ complaint, categories, canEdit, onReviewed }: TriageSuggestionProps) {
+  const [suggestion, setSuggestion] = useState<Suggestion | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // The outcome changes whenever an admin edits the priority or category
+  useEffect(() => {
+    fetchSuggestion();
+  }, [complaint.id, complaint.priority, complaint.category?.id]);
+
+  const fetchSuggestion = async () => {
+    const { data, error } = await supabase
+      .from('complaints')
+      .select('suggested_priority, suggested_category_id, triage_reasons, priority_suggestion_accepted, category_suggestion_accepted')
+      .eq('id', complaint.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching triage suggestion:', error);
+      return;
+    }
+
+    setSuggestion(
+      data && (data.suggested_priority || data.suggested_category_id)
+        ? {
+            priority: data.suggested_priority,
+            categoryId: data.suggested_category_id,
+            reasons: parseTriageReasons(data.triage_reasons),
+            priorityAccepted: data.priority_suggestion_accepted,
+            categoryAccepted: data.category_suggestion_accepted,
+          }
+        : null
+    );
+  };
+
+  const handleReview = async (accept: boolean) => {
+    if (!suggestion) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('review_triage_suggestion', {
+        _complaint_id: complaint.id,
+        _accept: accept,
+      });
+      if (error) throw error;
+
+      if (accept && suggestion.priority && suggestion.priorityAccepted === null && suggestion.priority !== complaint.priority) {
+        sendNotification({
+          type: 'priority_change',
+          complaintId: complaint.id,
+          oldValue: complaint.priority,
+          newValue: suggestion.priority,
+        }).catch(console.error);
+      }
+
+      toast.success(accept ? 'Suggestion applied' : 'Suggestion dismissed');
+      fetchSuggestion();
+      onReviewed();
+    } catch (error: unknown) {
+      console.error('Error reviewing triage suggestion:', error);
+      toast.error((error as Error).message || 'Failed to update the complaint');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!suggestion) return null;
+
+  const categoryName = (id: string) => categories.find((c) => c.id === id)?.name || 'Unknown category';
+  const pending =
+    (suggestion.priority !== null && suggestion.priorityAccepted === null) ||
+    (suggestion.categoryId !== null && suggestion.categoryAccepted === null);
+  const priorityScores = scoreTriageReasons(suggestion.reasons, 'priority');
+  const categoryScores = scoreTriageReasons(suggestion.reasons, 'category');
+
+  return (
+    <div className="rounded-lg border border-dashed border-primary/40 bg-primary/5 p-4 space-y-3">
+      <div className="flex items-start justify-between gap-3 flex-wrap">
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <Sparkles className="h-4 w-4 text-primary" />
+            Suggested triage
+          </h4>
+          <p className="text-sm">
+            {suggestion.priority && (
+              <>
+                Priority <span className="font-medium capitalize">{suggestion.priority}</span>
+                {outcomeLabel(suggestion.priorityAccepted) && (
+                  <span className="text-muted-foreground"> ({outcomeLabel(suggestion.priorityAccepted)})</span>
+                )}
+              </>
+            )}
+            {suggestion.priority && suggestion.categoryId && ' • '}
+            {suggestion.categoryId && (
+              <>
+                Category <span className="font-medium">{categoryName(suggestion.categoryId)}</span>
+                {outcomeLabel(suggestion.categoryAccepted) && (
+                  <span className="text-muted-foreground"> ({outcomeLabel(suggestion.categoryAccepted)})</span>
+                )}
+              </>
+            )}
+          </p>
+        </div>
+        {pending && canEdit && (
+          <div className="flex gap-2">
+            <Button type="button" size="sm" className="gap-1.5" onClick={() => handleReview(true)} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              Accept
+            </Button>
+            <Button type="button" variant="outline" size="sm" className="gap-1.5" onClick={() => handleReview(false)} disabled={saving}>
+              <X className="h-4 w-4" />
+              Dismiss
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Why: every matched keyword, totalled per priority and category */}
+      <div className="space-y-1.5 text-xs text-muted-foreground">
+        {[
+          ...priorityScores.map((s) => ({ ...s, label: <span className="capitalize">{s.target}</span> })),
+          ...categoryScores.map((s) => ({ ...s, label: <>{categoryName(s.target)}</> })),
+        ].map((score) => (
+          <div key={score.target} className="flex items-center gap-1.5 flex-wrap">
+            <span className="font-medium text-foreground">{score.label}</span>
+            <span>score {score.score}:</span>
+            {score.keywords.map((keyword) => (
+              <Badge key={keyword} variant="outline" className="font-normal">{keyword}</Badge>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -7,8 +7,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { Loader2, Send, FileText, Paperclip, X, File } from 'lucide-react';
+import { Loader2, Send, FileText, EyeOff, ShieldAlert } from 'lucide-react';
+import { AttachButton, AttachmentList } from '@/components/ui/attachment-picker';
+import { MAX_FILES, uploadAttachments } from '@/lib/attachments';
+import SimilarComplaints from './SimilarComplaints';
 
 interface Category {
   id: string;
@@ -16,17 +20,8 @@ interface Category {
   description: string;
 }
 
-const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-const ALLOWED_TYPES = [
-  'image/jpeg', 'image/png', 'image/gif',
-  'application/pdf',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
-];
-
 export default function NewComplaint({ onSuccess }: { onSuccess: () => void }) {
   const { user } = useAuth();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
   const [fetchingCategories, setFetchingCategories] = useState(true);
@@ -34,7 +29,10 @@ export default function NewComplaint({ onSuccess }: { onSuccess: () => void }) {
   const [categoryId, setCategoryId] = useState('');
   const [subject, setSubject] = useState('');
   const [description, setDescription] = useState('');
-  const [attachment, setAttachment] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [anonymous, setAnonymous] = useState(false);
+  const [confidential, setConfidential] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<number[] | undefined>();
 
   useEffect(() => {
     fetchCategories();
@@ -57,48 +55,6 @@ export default function NewComplaint({ onSuccess }: { onSuccess: () => void }) {
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      toast.error('Invalid file type. Please upload an image, PDF, or Word document.');
-      return;
-    }
-
-    if (file.size > MAX_FILE_SIZE) {
-      toast.error('File is too large. Maximum size is 5MB.');
-      return;
-    }
-
-    setAttachment(file);
-  };
-
-  const removeAttachment = () => {
-    setAttachment(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
-
-  const uploadAttachment = async (complaintId: string): Promise<string | null> => {
-    if (!attachment || !user) return null;
-
-    const fileExt = attachment.name.split('.').pop();
-    const fileName = `${user.id}/${complaintId}/${Date.now()}.${fileExt}`;
-
-    const { error } = await supabase.storage
-      .from('complaint-attachments')
-      .upload(fileName, attachment);
-
-    if (error) {
-      console.error('Upload error:', error);
-      throw new Error('Failed to upload attachment');
-    }
-
-    return fileName;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -128,21 +84,31 @@ export default function NewComplaint({ onSuccess }: { onSuccess: () => void }) {
           category_id: categoryId,
           subject: subject.trim(),
           description: description.trim(),
+          is_anonymous: anonymous,
+          is_confidential: confidential,
         })
         .select('id')
         .single();
 
       if (insertError) throw insertError;
 
-      // Upload attachment if exists
-      if (attachment && complaint) {
-        const attachmentPath = await uploadAttachment(complaint.id);
-        
-        if (attachmentPath) {
-          await supabase
-            .from('complaints')
-            .update({ attachment_url: attachmentPath })
-            .eq('id', complaint.id);
+      // Upload attachments if any
+      if (attachments.length > 0 && complaint) {
+        setUploadProgress(attachments.map(() => 0));
+        try {
+          await uploadAttachments({
+            files: attachments,
+            complaintId: complaint.id,
+            userId: user!.id,
+            onProgress: (index, percent) =>
+              setUploadProgress((current) => current?.map((p, i) => (i === index ? percent : p))),
+          });
+        } catch (uploadError) {
+          // The complaint itself was saved, so don't offer to submit it again
+          console.error('Upload error:', uploadError);
+          toast.error('Complaint submitted, but the attachments could not be uploaded');
+          onSuccess();
+          return;
         }
       }
 
@@ -153,6 +119,7 @@ export default function NewComplaint({ onSuccess }: { onSuccess: () => void }) {
       toast.error(error.message || 'Failed to submit complaint');
     } finally {
       setLoading(false);
+      setUploadProgress(undefined);
     }
   };
 
@@ -227,51 +194,51 @@ export default function NewComplaint({ onSuccess }: { onSuccess: () => void }) {
               <p className="text-xs text-muted-foreground text-right">{description.length}/2000</p>
             </div>
 
-            {/* Attachment */}
+            <SimilarComplaints subject={subject} description={description} categoryId={categoryId} />
+
+            {/* Attachments */}
             <div className="space-y-2">
-              <Label htmlFor="attachment">Attachment (optional)</Label>
-              <input
-                ref={fileInputRef}
-                type="file"
-                id="attachment"
-                onChange={handleFileChange}
-                accept=".jpg,.jpeg,.png,.gif,.pdf,.doc,.docx"
-                className="hidden"
+              <Label>Attachments (optional)</Label>
+              <AttachmentList
+                files={attachments}
+                onChange={setAttachments}
+                progress={uploadProgress}
+                disabled={loading}
               />
-              
-              {attachment ? (
-                <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
-                  <File className="h-5 w-5 text-primary" />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{attachment.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {(attachment.size / 1024).toFixed(1)} KB
+              <AttachButton files={attachments} onChange={setAttachments} disabled={loading} />
+              <p className="text-xs text-muted-foreground">
+                Up to {MAX_FILES} files, max 5MB each. Supported: JPG, PNG, GIF, PDF, DOC, DOCX
+              </p>
+            </div>
+
+            {/* Privacy */}
+            <div className="space-y-3">
+              <Label>Privacy</Label>
+              <div className="flex items-start justify-between gap-4 p-4 rounded-lg border border-border">
+                <div className="flex gap-3">
+                  <EyeOff className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                  <div>
+                    <Label htmlFor="anonymous" className="font-medium">Submit anonymously</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Staff handling your complaint won't see your name or email. You can still follow it and reply here.
                     </p>
                   </div>
-                  <Button
-                    type="button"
-                    variant="ghost"
-                    size="icon"
-                    onClick={removeAttachment}
-                    className="shrink-0"
-                  >
-                    <X className="h-4 w-4" />
-                  </Button>
                 </div>
-              ) : (
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => fileInputRef.current?.click()}
-                  className="w-full gap-2"
-                >
-                  <Paperclip className="h-4 w-4" />
-                  Attach File
-                </Button>
-              )}
-              <p className="text-xs text-muted-foreground">
-                Max 5MB. Supported: JPG, PNG, GIF, PDF, DOC, DOCX
-              </p>
+                <Switch id="anonymous" checked={anonymous} onCheckedChange={setAnonymous} disabled={loading} />
+              </div>
+              <div className="flex items-start justify-between gap-4 p-4 rounded-lg border border-border">
+                <div className="flex gap-3">
+                  <ShieldAlert className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
+                  <div>
+                    <Label htmlFor="confidential" className="font-medium">Confidential</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Only designated staff can see this complaint, e.g. for harassment or staff misconduct.
+                    </p>
+                  </div>
+                </div>
+                <Switch id="confidential" checked={confidential} onCheckedChange={setConfidential} disabled={loading} />
+              </div>
+              <p className="text-xs text-muted-foreground">These choices cannot be changed after submission.</p>
             </div>
 
             {/* Submit */}
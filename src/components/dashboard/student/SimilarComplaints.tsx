@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { Button } from '@/components/ui/button';
+import { StatusBadge } from '@/components/ui/status-badge';
+import { toast } from 'sonner';
+import { Check, Loader2, ThumbsUp, Users } from 'lucide-react';
+
+type SimilarComplaint = Database['public']['Functions']['find_similar_complaints']['Returns'][number];
+
+interface SimilarComplaintsProps {
+  subject: string;
+  description: string;
+  categoryId: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 500;
+const MIN_SUBJECT_LENGTH = 5;
+
+export default function SimilarComplaints({ subject, description, categoryId }: SimilarComplaintsProps) {
+  const navigate = useNavigate();
+  const [matches, setMatches] = useState<SimilarComplaint[]>([]);
+  const [supporting, setSupporting] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (subject.trim().length < MIN_SUBJECT_LENGTH) {
+      setMatches([]);
+      return;
+    }
+
+    // Ignore results that arrive after the student has typed on
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('find_similar_complaints', {
+        _subject: subject.trim(),
+        _description: description.trim() || undefined,
+        _category_id: categoryId || undefined,
+      });
+      if (cancelled) return;
+      if (error) {
+        console.error('Error finding similar complaints:', error);
+        return;
+      }
+      setMatches(data || []);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [subject, description, categoryId]);
+
+  const handleSupport = async (match: SimilarComplaint) => {
+    setSupporting(match.complaint_id);
+    try {
+      const { data: count, error } = await supabase.rpc('support_complaint', { _complaint_id: match.complaint_id });
+      if (error) throw error;
+
+      setMatches((current) =>
+        current.map((m) =>
+          m.complaint_id === match.complaint_id ? { ...m, is_supported: true, supporter_count: count ?? m.supporter_count } : m
+        )
+      );
+      toast.success("Added your +1. You'll be notified when it's resolved, no need to file it again.");
+    } catch (error: unknown) {
+      console.error('Error supporting complaint:', error);
+      toast.error((error as Error).message || 'Failed to add your +1');
+    } finally {
+      setSupporting(null);
+    }
+  };
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-amber-500/30 bg-amber-500/5 p-4 space-y-3 animate-fade-in">
+      <div>
+        <p className="font-medium text-sm">Has this already been reported?</p>
+        <p className="text-sm text-muted-foreground">
+          These open complaints look similar. If one describes your problem, +1 it instead of filing a new one.
+        </p>
+      </div>
+      <div className="space-y-2">
+        {matches.map((match) => (
+          <div
+            key={match.complaint_id}
+            className="flex items-center justify-between gap-3 p-3 rounded-md border border-border bg-background"
+          >
+            <div className="min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="text-sm font-medium truncate">{match.subject}</p>
+                <StatusBadge status={match.status} />
+              </div>
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                {match.category_name || 'Uncategorized'} • {new Date(match.created_at).toLocaleDateString()}
+                {match.supporter_count > 0 && (
+                  <>
+                    {' • '}
+                    <Users className="h-3 w-3" />
+                    {match.supporter_count} +1
+                  </>
+                )}
+              </p>
+            </div>
+            {match.is_own ? (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="shrink-0"
+                onClick={() => navigate(`/dashboard/complaints/${match.complaint_id}`)}
+              >
+                Yours — view
+              </Button>
+            ) : match.is_supported ? (
+              <Button type="button" variant="outline" size="sm" className="shrink-0 gap-1.5" disabled>
+                <Check className="h-4 w-4" />
+                +1'd
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                size="sm"
+                className="shrink-0 gap-1.5"
+                onClick={() => handleSupport(match)}
+                disabled={supporting !== null}
+              >
+                {supporting === match.complaint_id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <ThumbsUp className="h-4 w-4" />
+                )}
+                +1
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,47 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflow } from '@/contexts/WorkflowContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { FileText, Search, Filter, Eye, Paperclip, Download, MessageSquare, Send, Loader2 } from 'lucide-react';
+import { FileText, Search, Filter, Eye, Paperclip, MessageSquare, Send, Loader2, RotateCcw, Star, GitMerge } from 'lucide-react';
 import { StatusBadge } from '@/components/ui/status-badge';
+import { NewActivityBadge } from '@/components/ui/new-activity-badge';
+import { PrivacyBadges } from '@/components/ui/privacy-badges';
+import { StarRating } from '@/components/ui/star-rating';
+import { Badge } from '@/components/ui/badge';
+import { useRealtimeChanges } from '@/hooks/use-realtime';
+import { AttachmentGallery } from '@/components/ui/attachment-gallery';
+import { AttachButton, AttachmentList } from '@/components/ui/attachment-picker';
+import { Attachment, fetchAttachments, isComplaintAttachment, uploadAttachments } from '@/lib/attachments';
 import { toast } from 'sonner';
+import { z } from 'zod';
+import { sendNotification } from '@/lib/notifications';
+import { CSAT_LABELS } from '@/lib/csat';
+import { DEFAULT_REOPEN_SETTINGS, ReopenSettings, canReopenComplaint, fetchReopenSettings, getReopenDeadline } from '@/lib/reopen';
+import type { Database } from '@/integrations/supabase/types';
 
 interface Complaint {
   id: string;
   subject: string;
   description: string;
-  status: 'submitted' | 'in_review' | 'resolved';
+  status: string;
   admin_response: string | null;
-  attachment_url: string | null;
+  attachments: { count: number }[];
   created_at: string;
   updated_at: string;
   resolved_at: string | null;
+  is_anonymous: boolean;
+  is_confidential: boolean;
+  /** The complaint this one was merged into as a duplicate; its thread lives on there. */
+  merged_into: string | null;
   category: { id: string; name: string };
 }
 
@@ -29,42 +50,177 @@ interface Comment {
   content: string;
   is_admin: boolean;
   created_at: string;
-  user_id: string;
 }
 
+// Comment authors aren't readable; is_admin tells staff replies apart
+const COMMENT_COLUMNS = 'id, content, is_admin, created_at';
+
+type MergedOutcome = Database['public']['Functions']['get_merged_complaint_outcome']['Returns'][number];
+
+interface Rating {
+  complaint_id: string;
+  rating: number;
+  comment: string | null;
+}
+
+const reopenSchema = z
+  .string()
+  .trim()
+  .min(10, 'Please explain why the issue is not resolved (at least 10 characters)')
+  .max(2000, 'Reason must be less than 2000 characters');
+
+// Bursts of realtime events collapse into a single refetch
+const REFRESH_DEBOUNCE_MS = 300;
+
+const COMPLAINTS_PATH = '/dashboard/complaints';
+
 export default function StudentComplaints() {
   const { user } = useAuth();
+  const navigate = useNavigate();
+  // The open complaint lives in the path and the filters in the query string.
+  // Resolution emails add ?rate=<1-5> with the score picked in the survey.
+  const { complaintId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { statuses, canTransition, isFinal } = useWorkflow();
   const [complaints, setComplaints] = useState<Complaint[]>([]);
   const [filteredComplaints, setFilteredComplaints] = useState<Complaint[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const searchQuery = searchParams.get('q') || '';
+  const statusFilter = searchParams.get('status') || 'all';
   const [selectedComplaint, setSelectedComplaint] = useState<Complaint | null>(null);
 
   // Comments
   const [comments, setComments] = useState<Comment[]>([]);
   const [newComment, setNewComment] = useState('');
   const [sendingComment, setSendingComment] = useState(false);
+  const [commentFiles, setCommentFiles] = useState<File[]>([]);
+  const [commentUploadProgress, setCommentUploadProgress] = useState<number[] | undefined>();
+
+  // Attachments of the open complaint, including those on comments
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Progress of the complaint the open one was merged into
+  const [mergedOutcome, setMergedOutcome] = useState<MergedOutcome | null>(null);
+
+  // Satisfaction ratings
+  const [ratings, setRatings] = useState<Map<string, Rating>>(new Map());
+  const [ratingValue, setRatingValue] = useState(0);
+  const [ratingComment, setRatingComment] = useState('');
+  const [savingRating, setSavingRating] = useState(false);
+
+  // Reopen
+  const [reopenSettings, setReopenSettings] = useState<ReopenSettings>(DEFAULT_REOPEN_SETTINGS);
+  const [showReopenForm, setShowReopenForm] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+  const [reopening, setReopening] = useState(false);
+
+  // Realtime
+  const [newActivity, setNewActivity] = useState<Set<string>>(new Set());
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
 
   useEffect(() => {
     if (user) {
       fetchComplaints();
+      fetchReopenSettings()
+        .then(setReopenSettings)
+        .catch((error) => console.error('Error fetching reopen settings:', error));
     }
   }, [user]);
 
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+
+  useEffect(() => {
+    if (!complaintId) {
+      setSelectedComplaint(null);
+      return;
+    }
+    if (loading || selectedComplaint?.id === complaintId) return;
+
+    const complaint = complaints.find((c) => c.id === complaintId);
+    if (complaint) {
+      openComplaint(complaint, Number(searchParams.get('rate')) || 0);
+      if (searchParams.has('rate')) setFilter('rate', '');
+    } else {
+      toast.error('That complaint could not be found');
+      navigate({ pathname: COMPLAINTS_PATH, search: searchParams.toString() }, { replace: true });
+    }
+  }, [complaintId, loading]);
+
+  // Keep the open dialog in sync with the latest status and response
+  useEffect(() => {
+    setSelectedComplaint((current) => current && (complaints.find((c) => c.id === current.id) || current));
+  }, [complaints]);
+
+  const markNewActivity = (complaintId: string) => {
+    if (selectedComplaint?.id === complaintId) return;
+    setNewActivity((current) => new Set(current).add(complaintId));
+  };
+
+  useRealtimeChanges({
+    table: 'complaints',
+    enabled: !!user,
+    onChange: (payload) => {
+      // Students cannot edit their complaints, so any update came from an admin
+      if (payload.eventType === 'UPDATE') {
+        markNewActivity(payload.new.id);
+      }
+      clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(fetchComplaints, REFRESH_DEBOUNCE_MS);
+    },
+  });
+
+  useRealtimeChanges({
+    table: 'complaint_comments',
+    enabled: !!user,
+    onChange: (payload) => {
+      if (payload.eventType !== 'INSERT') return;
+      const comment = payload.new as Comment & { complaint_id: string };
+
+      if (selectedComplaint?.id === comment.complaint_id) {
+        setComments((current) =>
+          current.some((c) => c.id === comment.id) ? current : [...current, comment]
+        );
+      } else if (comment.is_admin) {
+        markNewActivity(comment.complaint_id);
+      }
+    },
+  });
+
+  useRealtimeChanges({
+    table: 'complaint_attachments',
+    enabled: !!user,
+    onChange: (payload) => {
+      if (payload.eventType !== 'INSERT' || selectedComplaint?.id !== payload.new.complaint_id) return;
+      appendAttachments([payload.new]);
+    },
+  });
+
+  const appendAttachments = (added: Attachment[]) => {
+    setAttachments((current) => [...current, ...added.filter((a) => !current.some((c) => c.id === a.id))]);
+  };
+
   useEffect(() => {
     filterComplaints();
   }, [complaints, searchQuery, statusFilter]);
 
   const fetchComplaints = async () => {
     try {
+      // Row level security limits students to their own complaints
       const { data, error } = await supabase
         .from('complaints')
-        .select('*, category:categories(id, name)')
-        .eq('user_id', user!.id)
+        .select(`
+          id, subject, description, status, admin_response, created_at, updated_at, resolved_at,
+          is_anonymous, is_confidential, merged_into,
+          category:categories!complaints_category_id_fkey(id, name), attachments:complaint_attachments(count)
+        `)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
+
+      const { data: ratingRows } = await supabase
+        .from('complaint_ratings')
+        .select('complaint_id, rating, comment');
+
+      setRatings(new Map((ratingRows || []).map((r) => [r.complaint_id, r])));
       setComplaints(data as unknown as Complaint[]);
     } catch (error) {
       console.error('Error fetching complaints:', error);
@@ -91,21 +247,139 @@ export default function StudentComplaints() {
     setFilteredComplaints(filtered);
   };
 
-  const openComplaint = async (complaint: Complaint) => {
+  const setFilter = (key: string, value: string) => {
+    setSearchParams(
+      (params) => {
+        if (value && value !== 'all') {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  const showComplaint = (complaint: Complaint) => {
+    navigate({ pathname: `${COMPLAINTS_PATH}/${complaint.id}`, search: searchParams.toString() });
+  };
+
+  const closeComplaint = () => {
+    navigate({ pathname: COMPLAINTS_PATH, search: searchParams.toString() });
+  };
+
+  const openComplaint = async (complaint: Complaint, score = 0) => {
+    const existingRating = ratings.get(complaint.id);
     setSelectedComplaint(complaint);
+    setRatingValue(score || existingRating?.rating || 0);
+    setRatingComment(existingRating?.comment || '');
+    setNewActivity((current) => {
+      const next = new Set(current);
+      next.delete(complaint.id);
+      return next;
+    });
     setNewComment('');
+    setCommentFiles([]);
+    setAttachments([]);
+    fetchAttachments(complaint.id)
+      .then(setAttachments)
+      .catch((error) => console.error('Error fetching attachments:', error));
+    setShowReopenForm(false);
+    setReopenReason('');
+    setMergedOutcome(null);
+    if (complaint.merged_into) {
+      supabase
+        .rpc('get_merged_complaint_outcome', { _complaint_id: complaint.id })
+        .maybeSingle()
+        .then(({ data, error }) => {
+          if (error) console.error('Error fetching merged complaint outcome:', error);
+          setMergedOutcome(data);
+        });
+    }
+    await fetchComments(complaint.id);
+  };
 
-    // Fetch comments
+  // Messages written here before a merge now live on the primary complaint
+  const fetchComments = async (complaintId: string) => {
     const { data } = await supabase
       .from('complaint_comments')
-      .select('*')
-      .eq('complaint_id', complaint.id)
+      .select(COMMENT_COLUMNS)
+      .or(`complaint_id.eq.${complaintId},merged_from_complaint_id.eq.${complaintId}`)
       .order('created_at', { ascending: true });
     setComments((data as Comment[]) || []);
   };
 
+  // A merged complaint is resolved with the one it was merged into, not on its own
+  const canRate = (complaint: Complaint) => isFinal(complaint.status) && !!complaint.resolved_at && !complaint.merged_into;
+
+  const handleSubmitRating = async () => {
+    if (!selectedComplaint || ratingValue < 1) return;
+
+    setSavingRating(true);
+    try {
+      const rating = {
+        complaint_id: selectedComplaint.id,
+        user_id: user!.id,
+        rating: ratingValue,
+        comment: ratingComment.trim() || null,
+      };
+
+      const { error } = await supabase
+        .from('complaint_ratings')
+        .upsert(rating, { onConflict: 'complaint_id' });
+
+      if (error) throw error;
+
+      setRatings((current) => new Map(current).set(rating.complaint_id, rating));
+      toast.success('Thanks for your feedback!');
+    } catch (error: unknown) {
+      console.error('Error saving rating:', error);
+      toast.error((error as Error).message || 'Failed to save rating');
+    } finally {
+      setSavingRating(false);
+    }
+  };
+
+  const handleReopen = async () => {
+    if (!selectedComplaint) return;
+
+    try {
+      const reason = reopenSchema.parse(reopenReason);
+      setReopening(true);
+
+      const { error } = await supabase.rpc('reopen_complaint', {
+        _complaint_id: selectedComplaint.id,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+
+      // The email reads the reason and statuses from the reopen log
+      sendNotification({
+        type: 'complaint_reopened',
+        complaintId: selectedComplaint.id,
+      }).catch(console.error);
+
+      toast.success('Complaint reopened. An admin will follow up.');
+      setShowReopenForm(false);
+      setReopenReason('');
+      fetchComplaints();
+      fetchComments(selectedComplaint.id);
+    } catch (error: unknown) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        console.error('Error reopening complaint:', error);
+        toast.error((error as Error).message || 'Failed to reopen complaint');
+      }
+    } finally {
+      setReopening(false);
+    }
+  };
+
   const handleSendComment = async () => {
-    if (!selectedComplaint || !newComment.trim()) return;
+    if (!selectedComplaint || (!newComment.trim() && commentFiles.length === 0)) return;
 
     setSendingComment(true);
     try {
@@ -117,19 +391,46 @@ export default function StudentComplaints() {
           content: newComment.trim(),
           is_admin: false,
         }])
-        .select()
+        .select(COMMENT_COLUMNS)
         .single();
 
       if (error) throw error;
 
-      setComments([...comments, data as Comment]);
+      setComments((current) =>
+        current.some((c) => c.id === data.id) ? current : [...current, data as Comment]
+      );
+
+      if (commentFiles.length > 0) {
+        setCommentUploadProgress(commentFiles.map(() => 0));
+        try {
+          appendAttachments(
+            await uploadAttachments({
+              files: commentFiles,
+              complaintId: selectedComplaint.id,
+              commentId: data.id,
+              userId: user!.id,
+              onProgress: (index, percent) =>
+                setCommentUploadProgress((current) => current?.map((p, i) => (i === index ? percent : p))),
+            })
+          );
+        } catch (uploadError) {
+          // The message itself went through; keep the files so they can be sent again
+          console.error('Upload error:', uploadError);
+          toast.error('Message sent, but the attachments could not be uploaded');
+          setNewComment('');
+          return;
+        }
+      }
+
       setNewComment('');
+      setCommentFiles([]);
       toast.success('Message sent');
     } catch (error: unknown) {
       console.error('Error sending comment:', error);
       toast.error('Failed to send message');
     } finally {
       setSendingComment(false);
+      setCommentUploadProgress(undefined);
     }
   };
 
@@ -151,19 +452,19 @@ export default function StudentComplaints() {
                 placeholder="Search complaints..."
                 className="pl-10"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => setFilter('q', e.target.value)}
               />
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select value={statusFilter} onValueChange={(value) => setFilter('status', value)}>
               <SelectTrigger className="w-full sm:w-48">
                 <Filter className="h-4 w-4 mr-2" />
                 <SelectValue placeholder="Filter by status" />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="submitted">Submitted</SelectItem>
-                <SelectItem value="in_review">In Review</SelectItem>
-                <SelectItem value="resolved">Resolved</SelectItem>
+                {statuses.map((status) => (
+                  <SelectItem key={status.key} value={status.key}>{status.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -193,15 +494,33 @@ export default function StudentComplaints() {
               {filteredComplaints.map((complaint, index) => (
                 <div
                   key={complaint.id}
-                  className="flex items-center justify-between p-4 rounded-lg border border-border hover:bg-muted/50 transition-colors cursor-pointer animate-slide-in"
+                  className={`flex items-center justify-between p-4 rounded-lg border hover:bg-muted/50 transition-colors cursor-pointer animate-slide-in ${
+                    newActivity.has(complaint.id) ? 'border-primary/50 bg-primary/5' : 'border-border'
+                  }`}
                   style={{ animationDelay: `${index * 30}ms` }}
-                  onClick={() => openComplaint(complaint)}
+                  onClick={() => showComplaint(complaint)}
                 >
                   <div className="space-y-1 flex-1 min-w-0">
                     <div className="flex items-center gap-2">
                       <p className="font-medium truncate">{complaint.subject}</p>
                       <StatusBadge status={complaint.status} />
-                      {complaint.attachment_url && (
+                      <PrivacyBadges anonymous={complaint.is_anonymous} confidential={complaint.is_confidential} />
+                      {complaint.merged_into && (
+                        <Badge variant="outline" className="gap-1">
+                          <GitMerge className="h-3 w-3" />
+                          Merged
+                        </Badge>
+                      )}
+                      {newActivity.has(complaint.id) && <NewActivityBadge label="New update" />}
+                      {ratings.has(complaint.id) ? (
+                        <StarRating value={ratings.get(complaint.id)!.rating} size="sm" />
+                      ) : canRate(complaint) ? (
+                        <Badge variant="outline" className="gap-1 text-amber-600 border-amber-500/30 bg-amber-500/10 dark:text-amber-400">
+                          <Star className="h-3 w-3" />
+                          Rate
+                        </Badge>
+                      ) : null}
+                      {complaint.attachments?.[0]?.count > 0 && (
                         <Paperclip className="h-3.5 w-3.5 text-muted-foreground" />
                       )}
                     </div>
@@ -221,7 +540,7 @@ export default function StudentComplaints() {
       </Card>
 
       {/* Detail Dialog */}
-      <Dialog open={!!selectedComplaint} onOpenChange={() => setSelectedComplaint(null)}>
+      <Dialog open={!!selectedComplaint} onOpenChange={(open) => !open && closeComplaint()}>
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
           {selectedComplaint && (
             <>
@@ -229,6 +548,7 @@ export default function StudentComplaints() {
                 <div className="flex items-center gap-3">
                   <DialogTitle className="font-display">{selectedComplaint.subject}</DialogTitle>
                   <StatusBadge status={selectedComplaint.status} />
+                  <PrivacyBadges anonymous={selectedComplaint.is_anonymous} confidential={selectedComplaint.is_confidential} />
                 </div>
                 <DialogDescription>
                   {selectedComplaint.category?.name} • Submitted on {new Date(selectedComplaint.created_at).toLocaleDateString()}
@@ -242,25 +562,34 @@ export default function StudentComplaints() {
                     <p className="text-foreground bg-muted/50 p-4 rounded-lg">{selectedComplaint.description}</p>
                   </div>
 
-                  {selectedComplaint.attachment_url && (
+                  {attachments.some((a) => isComplaintAttachment(a, selectedComplaint.id)) && (
                     <div>
-                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Attachment</h4>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="gap-2"
-                        onClick={async () => {
-                          const { data } = await supabase.storage
-                            .from('complaint-attachments')
-                            .createSignedUrl(selectedComplaint.attachment_url!, 60);
-                          if (data?.signedUrl) {
-                            window.open(data.signedUrl, '_blank');
-                          }
-                        }}
-                      >
-                        <Download className="h-4 w-4" />
-                        View Attachment
-                      </Button>
+                      <h4 className="text-sm font-medium text-muted-foreground mb-2">Attachments</h4>
+                      <AttachmentGallery attachments={attachments.filter((a) => isComplaintAttachment(a, selectedComplaint.id))} />
+                    </div>
+                  )}
+
+                  {selectedComplaint.merged_into && (
+                    <div className="p-4 rounded-lg border border-primary/20 bg-primary/5 space-y-2">
+                      <h4 className="text-sm font-medium flex items-center gap-2">
+                        <GitMerge className="h-4 w-4" />
+                        Merged with another report
+                      </h4>
+                      <p className="text-sm text-muted-foreground">
+                        Someone else reported the same problem, so both are being handled together. Your messages
+                        and files were passed on, and you'll be notified as it progresses.
+                      </p>
+                      {mergedOutcome && (
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">Current status:</span>
+                          <StatusBadge status={mergedOutcome.status} />
+                          <span className="text-xs text-muted-foreground">
+                            {mergedOutcome.resolved_at
+                              ? `Resolved ${new Date(mergedOutcome.resolved_at).toLocaleDateString()}`
+                              : `Updated ${new Date(mergedOutcome.updated_at).toLocaleDateString()}`}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -271,6 +600,78 @@ export default function StudentComplaints() {
                     </div>
                   )}
 
+                  {canRate(selectedComplaint) && (
+                    <div className="p-4 rounded-lg border border-amber-500/20 bg-amber-500/5 space-y-3">
+                      <div>
+                        <h4 className="text-sm font-medium">
+                          {ratings.has(selectedComplaint.id) ? 'Your rating' : 'How satisfied are you with the resolution?'}
+                        </h4>
+                        <p className="text-xs text-muted-foreground">Your feedback helps us improve how complaints are handled</p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <StarRating value={ratingValue} onChange={setRatingValue} />
+                        {ratingValue > 0 && (
+                          <span className="text-sm text-muted-foreground">{CSAT_LABELS[ratingValue]}</span>
+                        )}
+                      </div>
+                      <Textarea
+                        placeholder="Anything you'd like to add? (optional)"
+                        value={ratingComment}
+                        onChange={(e) => setRatingComment(e.target.value)}
+                        rows={2}
+                        maxLength={1000}
+                      />
+                      <div className="flex justify-end">
+                        <Button size="sm" onClick={handleSubmitRating} disabled={savingRating || ratingValue < 1}>
+                          {savingRating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                          {ratings.has(selectedComplaint.id) ? 'Update Rating' : 'Submit Rating'}
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+
+                  {canReopenComplaint(selectedComplaint, reopenSettings, canTransition) && (
+                    <div className="p-4 rounded-lg border border-border space-y-3">
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div>
+                          <h4 className="text-sm font-medium">Still having this problem?</h4>
+                          <p className="text-xs text-muted-foreground">
+                            You can reopen this complaint until{' '}
+                            {getReopenDeadline(selectedComplaint.resolved_at, reopenSettings.windowDays)?.toLocaleDateString()}
+                          </p>
+                        </div>
+                        {!showReopenForm && (
+                          <Button variant="outline" size="sm" className="gap-2" onClick={() => setShowReopenForm(true)}>
+                            <RotateCcw className="h-4 w-4" />
+                            Reopen Complaint
+                          </Button>
+                        )}
+                      </div>
+                      {showReopenForm && (
+                        <div className="space-y-2">
+                          <Label htmlFor="reopen-reason">Why is this not resolved? *</Label>
+                          <Textarea
+                            id="reopen-reason"
+                            placeholder="Describe what is still wrong..."
+                            value={reopenReason}
+                            onChange={(e) => setReopenReason(e.target.value)}
+                            rows={3}
+                            maxLength={2000}
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => setShowReopenForm(false)} disabled={reopening}>
+                              Cancel
+                            </Button>
+                            <Button size="sm" onClick={handleReopen} disabled={reopening || !reopenReason.trim()}>
+                              {reopening ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                              Reopen
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {/* Comments / Messages Section */}
                   <div>
                     <h4 className="text-sm font-medium text-muted-foreground mb-3 flex items-center gap-2">
@@ -298,22 +699,43 @@ export default function StudentComplaints() {
                                 {new Date(comment.created_at).toLocaleString()}
                               </span>
                             </div>
-                            <p className="text-sm">{comment.content}</p>
+                            {comment.content && <p className="text-sm">{comment.content}</p>}
+                            <AttachmentGallery
+                              attachments={attachments.filter((a) => a.comment_id === comment.id)}
+                              compact
+                              className="mt-2"
+                            />
                           </div>
                         ))
                       )}
                     </div>
-                    <div className="flex gap-2">
-                      <Input
-                        placeholder="Type a message..."
-                        value={newComment}
-                        onChange={(e) => setNewComment(e.target.value)}
-                        onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSendComment()}
-                      />
-                      <Button size="icon" onClick={handleSendComment} disabled={sendingComment || !newComment.trim()}>
-                        {sendingComment ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-                      </Button>
-                    </div>
+                    {selectedComplaint.merged_into ? (
+                      <p className="text-sm text-muted-foreground italic">
+                        This conversation is closed because the complaint was merged.
+                      </p>
+                    ) : (
+                      <>
+                        <AttachmentList
+                          files={commentFiles}
+                          onChange={setCommentFiles}
+                          progress={commentUploadProgress}
+                          disabled={sendingComment}
+                          className="mb-2"
+                        />
+                        <div className="flex gap-2">
+                          <Input
+                            placeholder="Type a message..."
+                            value={newComment}
+                            onChange={(e) => setNewComment(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSendComment()}
+                          />
+                          <AttachButton files={commentFiles} onChange={setCommentFiles} disabled={sendingComment} compact />
+                          <Button size="icon" onClick={handleSendComment} disabled={sendingComment || (!newComment.trim() && commentFiles.length === 0)}>
+                            {sendingComment ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </>
+                    )}
                   </div>
 
                   <div className="flex gap-4 text-sm text-muted-foreground">
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useWorkflow } from '@/contexts/WorkflowContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -16,30 +17,30 @@ interface ComplaintStats {
 interface RecentComplaint {
   id: string;
   subject: string;
-  status: 'submitted' | 'in_review' | 'resolved';
+  status: string;
   created_at: string;
   category: { name: string };
 }
 
 export default function StudentOverview({ onNavigate }: { onNavigate: (tab: string) => void }) {
   const { user } = useAuth();
+  const { statuses, isInitial, isFinal } = useWorkflow();
   const [stats, setStats] = useState<ComplaintStats>({ total: 0, submitted: 0, inReview: 0, resolved: 0 });
   const [recentComplaints, setRecentComplaints] = useState<RecentComplaint[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
+    if (user && statuses.length > 0) {
       fetchData();
     }
-  }, [user]);
+  }, [user, statuses]);
 
   const fetchData = async () => {
     try {
-      // Fetch ALL complaints for accurate stats
+      // Fetch ALL complaints for accurate stats; row level security limits them to the student's own
       const { data: allComplaints } = await supabase
         .from('complaints')
-        .select('id, subject, status, created_at, category:categories(name)')
-        .eq('user_id', user!.id)
+        .select('id, subject, status, created_at, category:categories!complaints_category_id_fkey(name)')
         .order('created_at', { ascending: false });
 
       if (allComplaints) {
@@ -48,9 +49,9 @@ export default function StudentOverview({ onNavigate }: { onNavigate: (tab: stri
         
         // Count from ALL complaints
         const total = allComplaints.length;
-        const submitted = allComplaints.filter(c => c.status === 'submitted').length;
-        const inReview = allComplaints.filter(c => c.status === 'in_review').length;
-        const resolved = allComplaints.filter(c => c.status === 'resolved').length;
+        const submitted = allComplaints.filter(c => isInitial(c.status)).length;
+        const resolved = allComplaints.filter(c => isFinal(c.status)).length;
+        const inReview = total - submitted - resolved;
         
         setStats({
           total,
@@ -69,7 +70,7 @@ export default function StudentOverview({ onNavigate }: { onNavigate: (tab: stri
   const statCards = [
     { label: 'Total Complaints', value: stats.total, icon: FileText, color: 'text-primary' },
     { label: 'Submitted', value: stats.submitted, icon: Clock, color: 'text-status-submitted' },
-    { label: 'In Review', value: stats.inReview, icon: Clock, color: 'text-status-in-review' },
+    { label: 'In Progress', value: stats.inReview, icon: Clock, color: 'text-status-in-review' },
     { label: 'Resolved', value: stats.resolved, icon: CheckCircle, color: 'text-status-resolved' },
   ];
 
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { ATTACHMENTS_BUCKET, Attachment, formatFileSize, isImageAttachment } from '@/lib/attachments';
+import { Download, FileText } from 'lucide-react';
+
+const SIGNED_URL_TTL = 60 * 60; // 1 hour
+
+interface AttachmentGalleryProps {
+  attachments: Attachment[];
+  /** Smaller thumbnails for attachments inside comment bubbles. */
+  compact?: boolean;
+  className?: string;
+}
+
+export function AttachmentGallery({ attachments, compact, className }: AttachmentGalleryProps) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [preview, setPreview] = useState<Attachment | null>(null);
+
+  const paths = attachments.map((a) => a.storage_path).join('|');
+
+  useEffect(() => {
+    if (attachments.length === 0) return;
+
+    supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrls(attachments.map((a) => a.storage_path), SIGNED_URL_TTL)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error signing attachment URLs:', error);
+          return;
+        }
+        setUrls(Object.fromEntries((data || []).filter((d) => d.signedUrl).map((d) => [d.path, d.signedUrl])));
+      });
+  }, [paths]);
+
+  if (attachments.length === 0) return null;
+
+  const thumbSize = compact ? 'h-16 w-16' : 'h-24 w-24';
+
+  return (
+    <>
+      <div className={cn('flex flex-wrap gap-2', className)}>
+        {attachments.map((attachment) => {
+          const url = urls[attachment.storage_path];
+
+          return isImageAttachment(attachment) ? (
+            <button
+              key={attachment.id}
+              type="button"
+              className={cn(thumbSize, 'rounded-lg border border-border overflow-hidden bg-muted hover:ring-2 hover:ring-primary/50 transition-shadow')}
+              onClick={() => setPreview(attachment)}
+              title={attachment.file_name}
+            >
+              {url ? (
+                <img src={url} alt={attachment.file_name} className="h-full w-full object-cover" loading="lazy" />
+              ) : (
+                <div className="h-full w-full animate-pulse" />
+              )}
+            </button>
+          ) : (
+            <a
+              key={attachment.id}
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={cn(
+                'flex items-center gap-2 px-3 rounded-lg border border-border bg-muted/50 hover:bg-muted transition-colors max-w-[240px]',
+                compact ? 'h-10' : 'h-12',
+                !url && 'pointer-events-none opacity-60'
+              )}
+              title={attachment.file_name}
+            >
+              <FileText className="h-4 w-4 text-primary shrink-0" />
+              <span className="min-w-0">
+                <span className="block text-xs font-medium truncate">{attachment.file_name}</span>
+                {!compact && <span className="block text-xs text-muted-foreground">{formatFileSize(attachment.size_bytes)}</span>}
+              </span>
+            </a>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!preview} onOpenChange={() => setPreview(null)}>
+        <DialogContent className="max-w-4xl">
+          {preview && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-display truncate pr-6">{preview.file_name}</DialogTitle>
+                <DialogDescription>
+                  {formatFileSize(preview.size_bytes)} • {new Date(preview.created_at).toLocaleString()}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex justify-center bg-muted/50 rounded-lg p-2">
+                <img
+                  src={urls[preview.storage_path]}
+                  alt={preview.file_name}
+                  className="max-h-[65vh] object-contain rounded"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button variant="outline" size="sm" className="gap-2" asChild>
+                  <a href={urls[preview.storage_path]} target="_blank" rel="noopener noreferrer">
+                    <Download className="h-4 w-4" />
+                    Open Original
+                  </a>
+                </Button>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
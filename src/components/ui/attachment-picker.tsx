@@ -0,0 +1,104 @@
+import { useRef } from 'react';
+import { toast } from 'sonner';
+import { File as FileIcon, Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { ACCEPT_ATTRIBUTE, MAX_FILES, formatFileSize, validateAttachment } from '@/lib/attachments';
+
+interface AttachmentPickerProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  /** Upload progress per file (0–100), shown while a submission is in flight. */
+  progress?: number[];
+  disabled?: boolean;
+  className?: string;
+}
+
+/** Lists picked files with size, remove buttons and upload progress. */
+export function AttachmentList({ files, onChange, progress, disabled, className }: AttachmentPickerProps) {
+  if (files.length === 0) return null;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {files.map((file, index) => (
+        <div key={`${file.name}-${index}`} className="flex items-center gap-3 p-2 pr-1 bg-muted/50 rounded-lg">
+          <FileIcon className="h-4 w-4 text-primary shrink-0" />
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-medium truncate">{file.name}</p>
+              <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(file.size)}</span>
+            </div>
+            {progress && progress[index] !== undefined && <Progress value={progress[index]} className="h-1" />}
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 shrink-0"
+            onClick={() => onChange(files.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AttachButtonProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+  /** Renders an icon-only button for comment composers. */
+  compact?: boolean;
+  className?: string;
+}
+
+/** Opens a multi-file picker and appends valid files, rejecting the rest with a toast. */
+export function AttachButton({ files, onChange, disabled, compact, className }: AttachButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const valid = picked.filter((file) => {
+      const error = validateAttachment(file);
+      if (error) toast.error(error);
+      return !error;
+    });
+
+    if (files.length + valid.length > MAX_FILES) {
+      toast.error(`You can attach up to ${MAX_FILES} files`);
+    }
+
+    onChange([...files, ...valid].slice(0, MAX_FILES));
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        onChange={handleChange}
+        accept={ACCEPT_ATTRIBUTE}
+        className="hidden"
+      />
+      <Button
+        type="button"
+        variant="outline"
+        size={compact ? 'icon' : 'default'}
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= MAX_FILES}
+        className={cn(!compact && 'w-full gap-2', className)}
+        title="Attach files"
+      >
+        <Paperclip className="h-4 w-4" />
+        {!compact && (files.length > 0 ? 'Add More Files' : 'Attach Files')}
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,20 @@
+import { cn } from '@/lib/utils';
+
+interface NewActivityBadgeProps {
+  label?: string;
+  className?: string;
+}
+
+export function NewActivityBadge({ label = 'New activity', className }: NewActivityBadgeProps) {
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1.5 px-2 py-0.5 rounded-full text-xs font-medium border border-primary/30 bg-primary/10 text-primary whitespace-nowrap',
+        className
+      )}
+    >
+      <span className="h-1.5 w-1.5 rounded-full bg-primary animate-pulse" />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,32 @@
+import { EyeOff, ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PrivacyBadgesProps {
+  anonymous?: boolean;
+  confidential?: boolean;
+  className?: string;
+}
+
+const badgeClass =
+  'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border whitespace-nowrap';
+
+export function PrivacyBadges({ anonymous, confidential, className }: PrivacyBadgesProps) {
+  if (!anonymous && !confidential) return null;
+
+  return (
+    <span className={cn('inline-flex items-center gap-1.5', className)}>
+      {anonymous && (
+        <span className={cn(badgeClass, 'border-border bg-muted text-muted-foreground')}>
+          <EyeOff className="h-3 w-3" />
+          Anonymous
+        </span>
+      )}
+      {confidential && (
+        <span className={cn(badgeClass, 'border-destructive/30 bg-destructive/10 text-destructive')}>
+          <ShieldAlert className="h-3 w-3" />
+          Confidential
+        </span>
+      )}
+    </span>
+  );
+}
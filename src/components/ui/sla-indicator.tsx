@@ -0,0 +1,60 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { useWorkflow } from '@/contexts/WorkflowContext';
+import { SlaFields, SlaState, formatSlaDuration, getSlaStatus } from '@/lib/sla';
+import { Timer, TimerOff, CheckCircle } from 'lucide-react';
+
+interface SlaIndicatorProps {
+  complaint: SlaFields & { status: string };
+  className?: string;
+}
+
+const stateClasses: Record<SlaState, string> = {
+  on_track: 'bg-muted text-muted-foreground border-border',
+  at_risk: 'bg-orange-500/10 text-orange-600 border-orange-500/20 dark:text-orange-400',
+  breached: 'bg-red-500/10 text-red-600 border-red-500/20 dark:text-red-400',
+  met: 'bg-status-resolved/10 text-status-resolved border-status-resolved/20',
+  none: '',
+};
+
+export function SlaIndicator({ complaint, className }: SlaIndicatorProps) {
+  const { isFinal } = useWorkflow();
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the countdown fresh while the complaint is still running
+  const running = !isFinal(complaint.status);
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const sla = getSlaStatus(complaint, !running, now);
+  if (sla.state === 'none') return null;
+
+  const targetLabel = sla.target === 'first_response' ? 'Response' : 'Resolution';
+  let text: string;
+  if (sla.state === 'met') {
+    text = 'SLA met';
+  } else if (sla.state === 'breached') {
+    text = running ? `${targetLabel} overdue ${formatSlaDuration(sla.remainingMs)}` : 'SLA breached';
+  } else {
+    text = `${targetLabel} due in ${formatSlaDuration(sla.remainingMs)}`;
+  }
+
+  const Icon = sla.state === 'met' ? CheckCircle : sla.state === 'breached' ? TimerOff : Timer;
+
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium border whitespace-nowrap',
+        stateClasses[sla.state],
+        className
+      )}
+      title={`${targetLabel} due ${sla.dueAt?.toLocaleString()}`}
+    >
+      <Icon className="h-3 w-3" />
+      {text}
+    </span>
+  );
+}
@@ -0,0 +1,45 @@
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { CSAT_LABELS } from '@/lib/csat';
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export function StarRating({ value, onChange, size = 'md', className }: StarRatingProps) {
+  const iconSize = size === 'sm' ? 'h-3.5 w-3.5' : 'h-6 w-6';
+
+  return (
+    <div className={cn('inline-flex items-center gap-0.5', className)} role={onChange ? 'radiogroup' : 'img'} aria-label={`${value} out of 5`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              iconSize,
+              star <= value ? 'fill-amber-400 text-amber-400' : 'text-muted-foreground/40'
+            )}
+          />
+        );
+
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={star === value}
+            title={CSAT_LABELS[star]}
+            className="p-0.5 rounded hover:scale-110 transition-transform focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            onClick={() => onChange(star)}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { type AppRole as GrantedRole, Permission, collectPermissions } from '@/lib/permissions';
 
 type AppRole = 'admin' | 'student';
 
@@ -8,6 +9,12 @@ interface AuthContextType {
   user: User | null;
   session: Session | null;
   role: AppRole | null;
+  /** Every role held, e.g. ['admin', 'staff']. */
+  roles: GrantedRole[];
+  /** Admin who is not limited to a department. */
+  isSuperAdmin: boolean;
+  /** Whether the user's roles grant a permission; the database enforces the same matrix. */
+  can: (permission: Permission) => boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
@@ -20,20 +27,40 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [role, setRole] = useState<AppRole | null>(null);
+  const [roles, setRoles] = useState<GrantedRole[]>([]);
+  const [permissions, setPermissions] = useState<Set<Permission>>(new Set());
   const [loading, setLoading] = useState(true);
 
   const fetchUserRole = async (userId: string) => {
+    // Admins hold several roles, e.g. admin + super_admin
     const { data, error } = await supabase
       .from('user_roles')
       .select('role')
-      .eq('user_id', userId)
-      .single();
+      .eq('user_id', userId);
     
     if (data && !error) {
-      setRole(data.role as AppRole);
+      const granted = data.map((r) => r.role);
+      const { data: rolePermissions } = await supabase
+        .from('role_permissions')
+        .select('role, permission')
+        .in('role', granted);
+
+      // Permissions are set before the role so dashboards never render without them
+      setRoles(granted);
+      setPermissions(collectPermissions(granted, rolePermissions || []));
+      setRole(granted.includes('admin') ? 'admin' : granted.includes('student') ? 'student' : null);
     }
   };
 
+  const clearRoles = () => {
+    setRole(null);
+    setRoles([]);
+    setPermissions(new Set());
+  };
+
+  const isSuperAdmin = roles.includes('admin') && roles.includes('super_admin');
+  const can = (permission: Permission) => role === 'admin' && permissions.has(permission);
+
   useEffect(() => {
     // Set up auth state listener FIRST
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -47,7 +74,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             fetchUserRole(session.user.id);
           }, 0);
         } else {
-          setRole(null);
+          clearRoles();
         }
         
         setLoading(false);
@@ -97,11 +124,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await supabase.auth.signOut();
     setUser(null);
     setSession(null);
-    setRole(null);
+    clearRoles();
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, role, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, role, roles, isSuperAdmin, can, loading, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,89 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ComplaintStatus, StatusTransition, humanizeStatus } from '@/lib/workflow';
+
+interface WorkflowContextType {
+  statuses: ComplaintStatus[];
+  transitions: StatusTransition[];
+  loading: boolean;
+  getStatus: (key: string) => ComplaintStatus;
+  getLabel: (key: string | null) => string;
+  nextStatuses: (from: string) => ComplaintStatus[];
+  canTransition: (from: string, to: string) => boolean;
+  isFinal: (key: string) => boolean;
+  isInitial: (key: string) => boolean;
+  refresh: () => Promise<void>;
+}
+
+const WorkflowContext = createContext<WorkflowContextType | undefined>(undefined);
+
+export function WorkflowProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [statuses, setStatuses] = useState<ComplaintStatus[]>([]);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    const [{ data: statusData, error: statusError }, { data: transitionData, error: transitionError }] = await Promise.all([
+      supabase.from('complaint_statuses').select('*').order('sort_order'),
+      supabase.from('complaint_status_transitions').select('*'),
+    ]);
+
+    if (statusError || transitionError) {
+      console.error('Error fetching workflow:', statusError || transitionError);
+    } else {
+      setStatuses(statusData || []);
+      setTransitions(transitionData || []);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (user) {
+      refresh();
+    } else {
+      setStatuses([]);
+      setTransitions([]);
+    }
+  }, [user, refresh]);
+
+  const getStatus = (key: string): ComplaintStatus =>
+    statuses.find((s) => s.key === key) || {
+      key,
+      label: humanizeStatus(key),
+      description: null,
+      color: 'gray',
+      sort_order: 0,
+      is_initial: false,
+      is_final: false,
+      created_at: '',
+    };
+
+  const getLabel = (key: string | null) => (key ? getStatus(key).label : '');
+
+  const canTransition = (from: string, to: string) =>
+    from === to || transitions.some((t) => t.from_status === from && t.to_status === to);
+
+  const nextStatuses = (from: string) => statuses.filter((s) => canTransition(from, s.key));
+
+  const isFinal = (key: string) => getStatus(key).is_final;
+
+  const isInitial = (key: string) => getStatus(key).is_initial;
+
+  return (
+    <WorkflowContext.Provider
+      value={{ statuses, transitions, loading, getStatus, getLabel, nextStatuses, canTransition, isFinal, isInitial, refresh }}
+    >
+      {children}
+    </WorkflowContext.Provider>
+  );
+}
+
+export function useWorkflow() {
+  const context = useContext(WorkflowContext);
+  if (context === undefined) {
+    throw new Error('useWorkflow must be used within a WorkflowProvider');
+  }
+  return context;
+}
@@ -0,0 +1,44 @@
+import * as React from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type TableName = keyof Database["public"]["Tables"];
+type TableRow<T extends TableName> = Database["public"]["Tables"][T]["Row"];
+
+interface UseRealtimeChangesOptions<T extends TableName> {
+  table: T;
+  /** Postgres changes filter, e.g. `user_id=eq.<uuid>`. RLS still applies on top of it. */
+  filter?: string;
+  enabled?: boolean;
+  onChange: (payload: RealtimePostgresChangesPayload<TableRow<T>>) => void;
+}
+
+/**
+ * Subscribes to inserts, updates and deletes on a table for as long as the
+ * calling component is mounted. The latest `onChange` is always used, so
+ * callers don't need to memoize it.
+ */
+export function useRealtimeChanges<T extends TableName>({ table, filter, enabled = true, onChange }: UseRealtimeChangesOptions<T>) {
+  const handlerRef = React.useRef(onChange);
+  const channelId = React.useId();
+
+  React.useEffect(() => {
+    handlerRef.current = onChange;
+  });
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const channel = supabase
+      .channel(`${table}-changes-${channelId}`)
+      .on<TableRow<T>>("postgres_changes", { event: "*", schema: "public", table, filter }, (payload) =>
+        handlerRef.current(payload),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [table, filter, enabled, channelId]);
+}
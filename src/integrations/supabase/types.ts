@@ -14,51 +14,198 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: Json
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: Json
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: Json
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string
+          department_id: string | null
           description: string | null
           id: string
           name: string
         }
         Insert: {
           created_at?: string
+          department_id?: string | null
           description?: string | null
           id?: string
           name: string
         }
         Update: {
           created_at?: string
+          department_id?: string | null
           description?: string | null
           id?: string
           name?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "categories_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comment_mentions: {
+        Row: {
+          comment_id: string
+          complaint_id: string
+          created_at: string
+          id: string
+          mentioned_by: string | null
+          mentioned_user_id: string
+        }
+        Insert: {
+          comment_id: string
+          complaint_id: string
+          created_at?: string
+          id?: string
+          mentioned_by?: string | null
+          mentioned_user_id: string
+        }
+        Update: {
+          comment_id?: string
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          mentioned_by?: string | null
+          mentioned_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comment_mentions_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "complaint_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comment_mentions_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_attachments: {
+        Row: {
+          comment_id: string | null
+          complaint_id: string
+          created_at: string
+          file_name: string
+          id: string
+          merged_from_complaint_id: string | null
+          mime_type: string | null
+          size_bytes: number | null
+          storage_path: string
+          uploaded_by: string
+        }
+        Insert: {
+          comment_id?: string | null
+          complaint_id: string
+          created_at?: string
+          file_name: string
+          id?: string
+          merged_from_complaint_id?: string | null
+          mime_type?: string | null
+          size_bytes?: number | null
+          storage_path: string
+          uploaded_by: string
+        }
+        Update: {
+          comment_id?: string | null
+          complaint_id?: string
+          created_at?: string
+          file_name?: string
+          id?: string
+          merged_from_complaint_id?: string | null
+          mime_type?: string | null
+          size_bytes?: number | null
+          storage_path?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_attachments_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "complaint_comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_attachments_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_attachments_merged_from_complaint_id_fkey"
+            columns: ["merged_from_complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       complaint_comments: {
         Row: {
+          author_id: string | null
           complaint_id: string
           content: string
           created_at: string
           id: string
           is_admin: boolean
-          user_id: string
+          is_internal: boolean
+          merged_from_complaint_id: string | null
+          search_vector: unknown | null
+          user_id: string | null
         }
         Insert: {
+          author_id?: string | null
           complaint_id: string
           content: string
           created_at?: string
           id?: string
           is_admin?: boolean
-          user_id: string
+          is_internal?: boolean
+          merged_from_complaint_id?: string | null
+          search_vector?: unknown | null
+          user_id?: string | null
         }
         Update: {
+          author_id?: string | null
           complaint_id?: string
           content?: string
           created_at?: string
           id?: string
           is_admin?: boolean
-          user_id?: string
+          is_internal?: boolean
+          merged_from_complaint_id?: string | null
+          search_vector?: unknown | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -68,6 +215,46 @@ export type Database = {
             referencedRelation: "complaints"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "complaint_comments_merged_from_complaint_id_fkey"
+            columns: ["merged_from_complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_escalations: {
+        Row: {
+          complaint_id: string
+          escalated_at: string
+          rule_id: string
+        }
+        Insert: {
+          complaint_id: string
+          escalated_at?: string
+          rule_id: string
+        }
+        Update: {
+          complaint_id?: string
+          escalated_at?: string
+          rule_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_escalations_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaint_escalations_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "escalation_rules"
+            referencedColumns: ["id"]
+          },
         ]
       }
       complaint_logs: {
@@ -76,30 +263,36 @@ export type Database = {
           complaint_id: string
           created_at: string
           id: string
-          new_status: Database["public"]["Enums"]["complaint_status"] | null
+          merged_from_complaint_id: string | null
+          new_status: string | null
           notes: string | null
-          old_status: Database["public"]["Enums"]["complaint_status"] | null
-          performed_by: string
+          old_status: string | null
+          performed_by: string | null
+          performed_by_submitter: boolean
         }
         Insert: {
           action: string
           complaint_id: string
           created_at?: string
           id?: string
-          new_status?: Database["public"]["Enums"]["complaint_status"] | null
+          merged_from_complaint_id?: string | null
+          new_status?: string | null
           notes?: string | null
-          old_status?: Database["public"]["Enums"]["complaint_status"] | null
-          performed_by: string
+          old_status?: string | null
+          performed_by?: string | null
+          performed_by_submitter?: boolean
         }
         Update: {
           action?: string
           complaint_id?: string
           created_at?: string
           id?: string
-          new_status?: Database["public"]["Enums"]["complaint_status"] | null
+          merged_from_complaint_id?: string | null
+          new_status?: string | null
           notes?: string | null
-          old_status?: Database["public"]["Enums"]["complaint_status"] | null
-          performed_by?: string
+          old_status?: string | null
+          performed_by?: string | null
+          performed_by_submitter?: boolean
         }
         Relationships: [
           {
@@ -109,48 +302,236 @@ export type Database = {
             referencedRelation: "complaints"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "complaint_logs_merged_from_complaint_id_fkey"
+            columns: ["merged_from_complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_ratings: {
+        Row: {
+          comment: string | null
+          complaint_id: string
+          created_at: string
+          id: string
+          rating: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comment?: string | null
+          complaint_id: string
+          created_at?: string
+          id?: string
+          rating: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comment?: string | null
+          complaint_id?: string
+          created_at?: string
+          id?: string
+          rating?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_ratings_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: true
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      complaint_status_transitions: {
+        Row: {
+          created_at: string
+          from_status: string
+          id: string
+          to_status: string
+        }
+        Insert: {
+          created_at?: string
+          from_status: string
+          id?: string
+          to_status: string
+        }
+        Update: {
+          created_at?: string
+          from_status?: string
+          id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_status_transitions_from_status_fkey"
+            columns: ["from_status"]
+            isOneToOne: false
+            referencedRelation: "complaint_statuses"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "complaint_status_transitions_to_status_fkey"
+            columns: ["to_status"]
+            isOneToOne: false
+            referencedRelation: "complaint_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      complaint_statuses: {
+        Row: {
+          color: string
+          created_at: string
+          description: string | null
+          is_final: boolean
+          is_initial: boolean
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          is_final?: boolean
+          is_initial?: boolean
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          is_final?: boolean
+          is_initial?: boolean
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      complaint_supporters: {
+        Row: {
+          complaint_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          complaint_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          complaint_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "complaint_supporters_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
         ]
       }
       complaints: {
         Row: {
           admin_response: string | null
-          attachment_url: string | null
+          assigned_at: string | null
+          assigned_to: string | null
           category_id: string
+          category_suggestion_accepted: boolean | null
           created_at: string
+          department_id: string | null
           description: string
+          first_admin_reply_at: string | null
+          first_responded_at: string | null
+          first_response_due_at: string | null
           id: string
+          is_anonymous: boolean
+          is_confidential: boolean
+          merged_into: string | null
+          parent_id: string | null
           priority: Database["public"]["Enums"]["complaint_priority"]
+          priority_suggestion_accepted: boolean | null
+          resolution_due_at: string | null
           resolved_at: string | null
-          status: Database["public"]["Enums"]["complaint_status"]
+          search_vector: unknown | null
+          status: string
           subject: string
+          suggested_category_id: string | null
+          suggested_priority: Database["public"]["Enums"]["complaint_priority"] | null
+          triage_reasons: Json
           updated_at: string
           user_id: string
         }
         Insert: {
           admin_response?: string | null
-          attachment_url?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           category_id: string
+          category_suggestion_accepted?: boolean | null
           created_at?: string
+          department_id?: string | null
           description: string
+          first_admin_reply_at?: string | null
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
+          is_anonymous?: boolean
+          is_confidential?: boolean
+          merged_into?: string | null
+          parent_id?: string | null
           priority?: Database["public"]["Enums"]["complaint_priority"]
+          priority_suggestion_accepted?: boolean | null
+          resolution_due_at?: string | null
           resolved_at?: string | null
-          status?: Database["public"]["Enums"]["complaint_status"]
+          search_vector?: unknown | null
+          status?: string
           subject: string
+          suggested_category_id?: string | null
+          suggested_priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          triage_reasons?: Json
           updated_at?: string
           user_id: string
         }
         Update: {
           admin_response?: string | null
-          attachment_url?: string | null
+          assigned_at?: string | null
+          assigned_to?: string | null
           category_id?: string
+          category_suggestion_accepted?: boolean | null
           created_at?: string
+          department_id?: string | null
           description?: string
+          first_admin_reply_at?: string | null
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
           id?: string
+          is_anonymous?: boolean
+          is_confidential?: boolean
+          merged_into?: string | null
+          parent_id?: string | null
           priority?: Database["public"]["Enums"]["complaint_priority"]
+          priority_suggestion_accepted?: boolean | null
+          resolution_due_at?: string | null
           resolved_at?: string | null
-          status?: Database["public"]["Enums"]["complaint_status"]
+          search_vector?: unknown | null
+          status?: string
           subject?: string
+          suggested_category_id?: string | null
+          suggested_priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          triage_reasons?: Json
           updated_at?: string
           user_id?: string
         }
@@ -162,44 +543,452 @@ export type Database = {
             referencedRelation: "categories"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "complaints_status_fkey"
+            columns: ["status"]
+            isOneToOne: false
+            referencedRelation: "complaint_statuses"
+            referencedColumns: ["key"]
+          },
+          {
+            foreignKeyName: "complaints_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_merged_into_fkey"
+            columns: ["merged_into"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "complaints_suggested_category_id_fkey"
+            columns: ["suggested_category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      department_members: {
         Row: {
           created_at: string
-          email: string
-          full_name: string
-          id: string
-          student_id: string | null
-          updated_at: string
+          department_id: string
           user_id: string
         }
         Insert: {
           created_at?: string
-          email: string
-          full_name: string
-          id?: string
-          student_id?: string | null
-          updated_at?: string
+          department_id: string
           user_id: string
         }
         Update: {
           created_at?: string
-          email?: string
-          full_name?: string
-          id?: string
-          student_id?: string | null
-          updated_at?: string
+          department_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "department_members_department_id_fkey"
+            columns: ["department_id"]
+            isOneToOne: false
+            referencedRelation: "departments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      user_roles: {
+      departments: {
         Row: {
           created_at: string
+          description: string | null
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      escalation_rules: {
+        Row: {
+          assign_to: string | null
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          internal_note: string | null
+          is_active: boolean
+          min_age_hours: number
+          name: string
+          notify_user_id: string | null
+          priority: Database["public"]["Enums"]["complaint_priority"] | null
+          raise_priority_to: Database["public"]["Enums"]["complaint_priority"] | null
+          require_no_admin_response: boolean
+          status: string | null
+          updated_at: string
+        }
+        Insert: {
+          assign_to?: string | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          internal_note?: string | null
+          is_active?: boolean
+          min_age_hours: number
+          name: string
+          notify_user_id?: string | null
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          raise_priority_to?: Database["public"]["Enums"]["complaint_priority"] | null
+          require_no_admin_response?: boolean
+          status?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assign_to?: string | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          internal_note?: string | null
+          is_active?: boolean
+          min_age_hours?: number
+          name?: string
+          notify_user_id?: string | null
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          raise_priority_to?: Database["public"]["Enums"]["complaint_priority"] | null
+          require_no_admin_response?: boolean
+          status?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escalation_rules_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escalation_rules_status_fkey"
+            columns: ["status"]
+            isOneToOne: false
+            referencedRelation: "complaint_statuses"
+            referencedColumns: ["key"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          delivery: string
+          event_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          delivery?: string
+          event_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          delivery?: string
+          event_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          body: string | null
+          complaint_id: string | null
+          created_at: string
+          id: string
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          body?: string | null
+          complaint_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          body?: string | null
+          complaint_id?: string | null
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_complaint_id_fkey"
+            columns: ["complaint_id"]
+            isOneToOne: false
+            referencedRelation: "complaints"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          deactivated_at: string | null
+          email: string
+          full_name: string
+          id: string
+          student_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          deactivated_at?: string | null
+          email: string
+          full_name: string
+          id?: string
+          student_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          deactivated_at?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          student_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      response_templates: {
+        Row: {
+          body: string
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "response_templates_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_changes: {
+        Row: {
+          action: string
+          changed_by: string | null
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"] | null
+          user_id: string
+        }
+        Insert: {
+          action: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          user_id: string
+        }
+        Update: {
+          action?: string
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"] | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_permissions: {
+        Row: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          is_default: boolean
+          is_shared: boolean
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_default?: boolean
+          is_shared?: boolean
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_default?: boolean
+          is_shared?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          first_response_hours: number
+          id: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours: number
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          first_response_hours: number
+          id?: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours: number
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          first_response_hours?: number
+          id?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"]
+          resolution_hours?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_policies_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      triage_keywords: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          id: string
+          keyword: string
+          priority: Database["public"]["Enums"]["complaint_priority"] | null
+          weight: number
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          keyword: string
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          weight?: number
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          id?: string
+          keyword?: string
+          priority?: Database["public"]["Enums"]["complaint_priority"] | null
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "triage_keywords_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
         }
         Insert: {
           created_at?: string
@@ -220,6 +1009,106 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      broadcast_incident_update: {
+        Args: {
+          _content: string
+          _incident_id: string
+        }
+        Returns: string[]
+      }
+      can_manage_complaint: {
+        Args: {
+          _complaint_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_manage_department: {
+        Args: {
+          _department_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_see_confidential: {
+        Args: {
+          _is_confidential: boolean
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      complaint_submitter: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: string
+      }
+      escalate_complaint: {
+        Args: {
+          _complaint_id: string
+          _rule_id: string
+        }
+        Returns: boolean
+      }
+      find_similar_complaints: {
+        Args: {
+          _category_id?: string
+          _description?: string
+          _exclude_id?: string
+          _limit?: number
+          _subject: string
+        }
+        Returns: {
+          complaint_id: string
+          subject: string
+          status: string
+          category_name: string | null
+          created_at: string
+          supporter_count: number
+          is_own: boolean
+          is_supported: boolean
+          score: number
+        }[]
+      }
+      get_merged_complaint_outcome: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: {
+          status: string
+          resolved_at: string | null
+          updated_at: string
+        }[]
+      }
+      has_complaint_permission: {
+        Args: {
+          _complaint_id: string
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_department_permission: {
+        Args: {
+          _department_id: string
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_identified_complaint: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -227,11 +1116,157 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_comment_author: {
+        Args: {
+          _comment_id: string
+        }
+        Returns: boolean
+      }
+      is_complaint_owner: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: boolean
+      }
+      is_mentioned_on_complaint: {
+        Args: {
+          _complaint_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      list_admin_complaints: {
+        Args: {
+          _search?: string
+        }
+        Returns: {
+          id: string
+          subject: string
+          description: string
+          status: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          admin_response: string | null
+          category_id: string
+          category_name: string | null
+          department_id: string | null
+          department_name: string | null
+          user_id: string | null
+          student_name: string | null
+          student_email: string | null
+          assigned_to: string | null
+          assigned_at: string | null
+          created_at: string
+          updated_at: string
+          resolved_at: string | null
+          first_response_due_at: string | null
+          first_responded_at: string | null
+          resolution_due_at: string | null
+          priority_rank: number
+          sla_due_at: string | null
+          attachment_count: number
+          is_anonymous: boolean
+          is_confidential: boolean
+          merged_into: string | null
+          parent_id: string | null
+        }[]
+      }
+      merge_complaints: {
+        Args: {
+          _duplicate_ids: string[]
+          _note?: string
+          _primary_id: string
+          _status: string
+        }
+        Returns: number
+      }
+      preview_triage: {
+        Args: {
+          _description: string
+          _subject: string
+        }
+        Returns: {
+          category_id: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          reasons: Json
+        }[]
+      }
+      reopen_complaint: {
+        Args: {
+          _complaint_id: string
+          _reason: string
+        }
+        Returns: string
+      }
+      resolve_incident: {
+        Args: {
+          _incident_id: string
+          _response?: string
+          _status: string
+        }
+        Returns: {
+          complaint_id: string
+          old_status: string
+        }[]
+      }
+      review_triage_suggestion: {
+        Args: {
+          _accept: boolean
+          _complaint_id: string
+        }
+        Returns: undefined
+      }
+      search_complaints: {
+        Args: {
+          _limit?: number
+          _query: string
+        }
+        Returns: {
+          complaint_id: string
+          subject: string
+          status: string
+          priority: Database["public"]["Enums"]["complaint_priority"]
+          student_name: string | null
+          created_at: string
+          match_source: string
+          comment_id: string | null
+          rank: number
+          headline: string
+        }[]
+      }
+      set_complaint_parent: {
+        Args: {
+          _complaint_id: string
+          _parent_id?: string
+        }
+        Returns: undefined
+      }
+      support_complaint: {
+        Args: {
+          _complaint_id: string
+        }
+        Returns: number
+      }
     }
     Enums: {
-      app_role: "admin" | "student"
+      app_permission:
+        | "view_complaints"
+        | "update_status"
+        | "comment"
+        | "manage_categories"
+        | "export_reports"
+        | "manage_settings"
+        | "manage_users"
+        | "handle_confidential"
+        | "manage_templates"
+      app_role:
+        | "admin"
+        | "student"
+        | "super_admin"
+        | "department_admin"
+        | "auditor"
+        | "staff"
+        | "confidential_officer"
       complaint_priority: "low" | "medium" | "high" | "critical"
-      complaint_status: "submitted" | "in_review" | "resolved"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -359,9 +1394,27 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "student"],
+      app_permission: [
+        "view_complaints",
+        "update_status",
+        "comment",
+        "manage_categories",
+        "export_reports",
+        "manage_settings",
+        "manage_users",
+        "handle_confidential",
+        "manage_templates",
+      ],
+      app_role: [
+        "admin",
+        "student",
+        "super_admin",
+        "department_admin",
+        "auditor",
+        "staff",
+        "confidential_officer",
+      ],
       complaint_priority: ["low", "medium", "high", "critical"],
-      complaint_status: ["submitted", "in_review", "resolved"],
     },
   },
 } as const
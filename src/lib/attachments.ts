@@ -0,0 +1,149 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+/** Who uploaded a file is not readable; it would identify anonymous students. */
+export type Attachment = Omit<Tables<"complaint_attachments">, "uploaded_by">;
+
+const ATTACHMENT_COLUMNS = "id, complaint_id, comment_id, storage_path, file_name, mime_type, size_bytes, created_at, merged_from_complaint_id";
+
+export const ATTACHMENTS_BUCKET = "complaint-attachments";
+export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB, matches the bucket limit
+export const MAX_FILES = 10;
+export const ALLOWED_TYPES = [
+  "image/jpeg", "image/png", "image/gif",
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+export const ACCEPT_ATTRIBUTE = ".jpg,.jpeg,.png,.gif,.pdf,.doc,.docx";
+
+/** Returns a user-facing error for files the bucket would reject, or null when the file is fine. */
+export function validateAttachment(file: File): string | null {
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return `${file.name}: invalid file type. Please upload an image, PDF, or Word document.`;
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return `${file.name}: file is too large. Maximum size is 5MB.`;
+  }
+  return null;
+}
+
+export function isImageAttachment(attachment: Pick<Attachment, "mime_type" | "file_name">): boolean {
+  return attachment.mime_type
+    ? attachment.mime_type.startsWith("image/")
+    : /\.(jpe?g|png|gif)$/i.test(attachment.file_name);
+}
+
+export function formatFileSize(bytes: number | null): string {
+  if (bytes == null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Uploads through a signed upload URL with XMLHttpRequest, since the storage
+ * client doesn't report upload progress.
+ */
+function uploadWithProgress(path: string, file: File, onProgress: (percent: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUploadUrl(path)
+      .then(({ data, error }) => {
+        if (error || !data) {
+          reject(error || new Error("Failed to prepare upload"));
+          return;
+        }
+
+        const body = new FormData();
+        body.append("cacheControl", "3600");
+        body.append("", file);
+
+        const xhr = new XMLHttpRequest();
+        xhr.open("PUT", data.signedUrl);
+        xhr.setRequestHeader("x-upsert", "false");
+        xhr.upload.onprogress = (event) => {
+          if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+        };
+        xhr.onload = () => {
+          if (xhr.status >= 200 && xhr.status < 300) {
+            onProgress(100);
+            resolve();
+          } else {
+            reject(new Error(`Failed to upload ${file.name}`));
+          }
+        };
+        xhr.onerror = () => reject(new Error(`Failed to upload ${file.name}`));
+        xhr.send(body);
+      }, reject);
+  });
+}
+
+interface UploadAttachmentsParams {
+  files: File[];
+  complaintId: string;
+  commentId?: string;
+  userId: string;
+  /** Called with the upload progress (0–100) of the file at `index`. */
+  onProgress?: (index: number, percent: number) => void;
+}
+
+/**
+ * Uploads files into the complaint's folder and records them against the
+ * complaint (and comment). File names are random so paths say nothing about
+ * the uploader.
+ */
+export async function uploadAttachments({ files, complaintId, commentId, userId, onProgress }: UploadAttachmentsParams): Promise<Attachment[]> {
+  const uploaded: { path: string; file: File }[] = [];
+
+  try {
+    for (const [index, file] of files.entries()) {
+      const fileExt = file.name.split(".").pop();
+      const path = `${complaintId}/${crypto.randomUUID()}.${fileExt}`;
+      await uploadWithProgress(path, file, (percent) => onProgress?.(index, percent));
+      uploaded.push({ path, file });
+    }
+
+    const { data, error } = await supabase
+      .from("complaint_attachments")
+      .insert(
+        uploaded.map(({ path, file }) => ({
+          complaint_id: complaintId,
+          comment_id: commentId ?? null,
+          uploaded_by: userId,
+          storage_path: path,
+          file_name: file.name,
+          mime_type: file.type || null,
+          size_bytes: file.size,
+        }))
+      )
+      .select(ATTACHMENT_COLUMNS);
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    // Don't leave orphaned files behind when part of the batch failed
+    if (uploaded.length > 0) {
+      await supabase.storage.from(ATTACHMENTS_BUCKET).remove(uploaded.map((u) => u.path));
+    }
+    throw error;
+  }
+}
+
+/** Attachments on a complaint, including those moved elsewhere when it was merged. */
+export async function fetchAttachments(complaintId: string): Promise<Attachment[]> {
+  const { data, error } = await supabase
+    .from("complaint_attachments")
+    .select(ATTACHMENT_COLUMNS)
+    .or(`complaint_id.eq.${complaintId},merged_from_complaint_id.eq.${complaintId}`)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Whether the attachment was filed with the complaint itself rather than with a comment. */
+export function isComplaintAttachment(attachment: Attachment, complaintId: string): boolean {
+  return !attachment.comment_id && (attachment.merged_from_complaint_id ?? attachment.complaint_id) === complaintId;
+}
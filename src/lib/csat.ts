@@ -0,0 +1,45 @@
+export const CSAT_LABELS: Record<number, string> = {
+  1: "Very dissatisfied",
+  2: "Dissatisfied",
+  3: "Neutral",
+  4: "Satisfied",
+  5: "Very satisfied",
+};
+
+export interface CsatSummary {
+  responses: number;
+  /** Mean rating on the 1–5 scale, rounded to one decimal. */
+  average: number;
+  /** Share of 4 and 5 ratings, in percent. */
+  csat: number;
+}
+
+/** Ratings of 4 or 5 count as satisfied, the usual CSAT definition. */
+export function summarizeCsat(ratings: number[]): CsatSummary {
+  if (ratings.length === 0) return { responses: 0, average: 0, csat: 0 };
+
+  const total = ratings.reduce((acc, r) => acc + r, 0);
+  const satisfied = ratings.filter((r) => r >= 4).length;
+
+  return {
+    responses: ratings.length,
+    average: Math.round((total / ratings.length) * 10) / 10,
+    csat: Math.round((satisfied / ratings.length) * 100),
+  };
+}
+
+/** Summarizes ratings per group, most responses first. */
+export function groupCsat<T extends { rating: number }>(
+  items: T[],
+  groupOf: (item: T) => string
+): (CsatSummary & { name: string })[] {
+  const groups = new Map<string, number[]>();
+  items.forEach((item) => {
+    const name = groupOf(item);
+    groups.set(name, [...(groups.get(name) || []), item.rating]);
+  });
+
+  return Array.from(groups.entries())
+    .map(([name, ratings]) => ({ name, ...summarizeCsat(ratings) }))
+    .sort((a, b) => b.responses - a.responses);
+}
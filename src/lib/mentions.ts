@@ -0,0 +1,99 @@
+/** An admin who can be mentioned as `@Full Name` in a comment. */
+export interface MentionCandidate {
+  user_id: string;
+  full_name: string;
+}
+
+export interface MentionMatch {
+  start: number;
+  end: number;
+  candidate: MentionCandidate;
+}
+
+export interface MentionSegment {
+  text: string;
+  mention: boolean;
+}
+
+const MAX_QUERY_LENGTH = 40;
+
+/** The partial `@name` typed right before the caret, if the caret is inside one. */
+export function getMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf("@");
+  if (start === -1 || (start > 0 && !/\s/.test(before[start - 1]))) return null;
+
+  const query = before.slice(start + 1);
+  if (query.length > MAX_QUERY_LENGTH || /[\n@]/.test(query) || query.startsWith(" ")) return null;
+  return { start, query };
+}
+
+/** Replaces the `@query` between start and caret with the full mention. */
+export function insertMention(text: string, start: number, caret: number, name: string): { text: string; caret: number } {
+  const mention = `@${name} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret).replace(/^ /, ""),
+    caret: start + mention.length,
+  };
+}
+
+/** Candidates whose name, or any word of it, starts with the query. */
+export function filterMentionCandidates<T extends MentionCandidate>(candidates: T[], query: string, limit = 6): T[] {
+  const needle = query.trim().toLowerCase();
+  return candidates
+    .filter((c) => {
+      const name = c.full_name.toLowerCase();
+      return !needle || name.startsWith(needle) || name.split(/\s+/).some((word) => word.startsWith(needle));
+    })
+    .slice(0, limit);
+}
+
+/** Finds `@Full Name` mentions, preferring the longest name when one is a prefix of another. */
+export function matchMentions(content: string, candidates: MentionCandidate[]): MentionMatch[] {
+  const byLength = [...candidates].sort((a, b) => b.full_name.length - a.full_name.length);
+  const matches: MentionMatch[] = [];
+  const lower = content.toLowerCase();
+
+  let index = lower.indexOf("@");
+  while (index !== -1) {
+    const atBoundary = index === 0 || /\s/.test(content[index - 1]);
+    const candidate = atBoundary
+      ? byLength.find((c) => {
+          const name = c.full_name.toLowerCase();
+          const next = content[index + 1 + name.length];
+          return name && lower.startsWith(name, index + 1) && (next === undefined || !/[\p{L}\p{N}]/u.test(next));
+        })
+      : undefined;
+
+    if (candidate) {
+      const end = index + 1 + candidate.full_name.length;
+      matches.push({ start: index, end, candidate });
+      index = lower.indexOf("@", end);
+    } else {
+      index = lower.indexOf("@", index + 1);
+    }
+  }
+
+  return matches;
+}
+
+/** Distinct candidates mentioned in the content. */
+export function findMentions<T extends MentionCandidate>(content: string, candidates: T[]): T[] {
+  const ids = new Set(matchMentions(content, candidates).map((m) => m.candidate.user_id));
+  return candidates.filter((c) => ids.has(c.user_id));
+}
+
+/** Splits content into plain text and mentions for highlighting. */
+export function splitMentions(content: string, candidates: MentionCandidate[]): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let position = 0;
+
+  matchMentions(content, candidates).forEach(({ start, end }) => {
+    if (start > position) segments.push({ text: content.slice(position, start), mention: false });
+    segments.push({ text: content.slice(start, end), mention: true });
+    position = end;
+  });
+  if (position < content.length) segments.push({ text: content.slice(position), mention: false });
+
+  return segments;
+}
@@ -1,6 +1,75 @@
 import { supabase } from "@/integrations/supabase/client";
 
-type NotificationType = "status_change" | "priority_change" | "admin_comment";
+type NotificationType =
+  | "status_change"
+  | "priority_change"
+  | "admin_comment"
+  | "complaint_reopened"
+  | "complaint_merged"
+  | "assignment"
+  | "mention";
+
+export type NotificationEventType =
+  | "status_change"
+  | "priority_change"
+  | "comment"
+  | "assignment"
+  | "mention"
+  | "escalation";
+export type DeliveryMode = "immediate" | "digest" | "off";
+
+export interface NotificationEvent {
+  type: NotificationEventType;
+  label: string;
+  description: string;
+  roles: ("student" | "admin")[];
+}
+
+/** Event types users can choose a delivery mode for; a missing preference means immediate email. */
+export const NOTIFICATION_EVENTS: NotificationEvent[] = [
+  {
+    type: "status_change",
+    label: "Status changes",
+    description: "A complaint moves to a new status, is reopened or is merged",
+    roles: ["student", "admin"],
+  },
+  {
+    type: "priority_change",
+    label: "Priority changes",
+    description: "The priority of your complaint is changed",
+    roles: ["student"],
+  },
+  {
+    type: "comment",
+    label: "New messages",
+    description: "Someone replies in a complaint conversation",
+    roles: ["student", "admin"],
+  },
+  {
+    type: "assignment",
+    label: "Assignments",
+    description: "A complaint is assigned to you",
+    roles: ["admin"],
+  },
+  {
+    type: "mention",
+    label: "Mentions",
+    description: "Another admin mentions you in a comment or internal note",
+    roles: ["admin"],
+  },
+  {
+    type: "escalation",
+    label: "Escalations",
+    description: "An escalation rule flags a complaint to you",
+    roles: ["admin"],
+  },
+];
+
+export const DELIVERY_MODE_LABELS: Record<DeliveryMode, string> = {
+  immediate: "Immediate email",
+  digest: "Daily digest",
+  off: "Off",
+};
 
 interface SendNotificationParams {
   type: NotificationType;
@@ -8,6 +77,8 @@ interface SendNotificationParams {
   oldValue?: string;
   newValue?: string;
   comment?: string;
+  /** The comment whose mentions should be emailed, for "mention" notifications. */
+  commentId?: string;
 }
 
 export async function sendNotification(params: SendNotificationParams): Promise<{ success: boolean; error?: string }> {
@@ -0,0 +1,38 @@
+export type PageItem = number | "ellipsis";
+
+export function getPageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * Page numbers to render in a pager: always the first and last page plus
+ * `siblings` pages either side of the current one, with ellipses for gaps,
+ * e.g. [1, "ellipsis", 4, 5, 6, "ellipsis", 20].
+ */
+export function getPageItems(current: number, pageCount: number, siblings = 1): PageItem[] {
+  const pages = new Set<number>([1, pageCount]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= pageCount) pages.add(page);
+  }
+
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  const items: PageItem[] = [];
+  sorted.forEach((page, index) => {
+    const previous = sorted[index - 1];
+    if (previous !== undefined && page - previous > 1) {
+      // A gap of exactly one page is cheaper to show than an ellipsis
+      items.push(page - previous === 2 ? previous + 1 : "ellipsis");
+    }
+    items.push(page);
+  });
+  return items;
+}
+
+/** Splits a list into chunks, e.g. to keep `in` filters within URL limits. */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
@@ -0,0 +1,35 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+export type Permission = Database["public"]["Enums"]["app_permission"];
+
+/** Roles granted next to `admin`, which only marks an account as back-office. */
+export type StaffRole = Exclude<AppRole, "admin" | "student">;
+
+export const STAFF_ROLES: { role: StaffRole; label: string; description: string }[] = [
+  { role: "super_admin", label: "Super admin", description: "Everything, across all departments" },
+  { role: "department_admin", label: "Department admin", description: "Runs the complaints and categories of their departments" },
+  { role: "staff", label: "Staff", description: "Handles and answers complaints of their departments" },
+  { role: "auditor", label: "Auditor", description: "Read-only access and report exports" },
+  { role: "confidential_officer", label: "Confidential officer", description: "Also sees confidential complaints and who filed anonymous ones" },
+];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  view_complaints: "View complaints",
+  update_status: "Update status, priority and assignment",
+  comment: "Comment",
+  manage_categories: "Manage categories",
+  export_reports: "Export reports",
+  manage_settings: "Manage workflow, SLA policies and departments",
+  manage_users: "Manage users and roles",
+  handle_confidential: "Handle confidential and anonymous complaints",
+  manage_templates: "Manage reply templates",
+};
+
+/** Permissions granted by any of the given roles, from rows of the `role_permissions` table. */
+export function collectPermissions(
+  roles: AppRole[],
+  rolePermissions: { role: AppRole; permission: Permission }[]
+): Set<Permission> {
+  return new Set(rolePermissions.filter((rp) => roles.includes(rp.role)).map((rp) => rp.permission));
+}
@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface ReopenSettings {
+  /** Days after resolution during which the student may reopen; 0 disables reopening. */
+  windowDays: number;
+  /** Status the complaint moves to when reopened. */
+  status: string;
+}
+
+export const DEFAULT_REOPEN_SETTINGS: ReopenSettings = { windowDays: 14, status: "reopened" };
+
+export function parseReopenSettings(rows: { key: string; value: Json }[]): ReopenSettings {
+  const values = new Map(rows.map((row) => [row.key, row.value]));
+  const windowDays = Number(values.get("reopen_window_days"));
+  const status = values.get("reopen_status");
+
+  return {
+    windowDays: Number.isFinite(windowDays) ? Math.max(0, Math.floor(windowDays)) : DEFAULT_REOPEN_SETTINGS.windowDays,
+    status: typeof status === "string" && status ? status : DEFAULT_REOPEN_SETTINGS.status,
+  };
+}
+
+export async function fetchReopenSettings(): Promise<ReopenSettings> {
+  const { data, error } = await supabase
+    .from("app_settings")
+    .select("key, value")
+    .in("key", ["reopen_window_days", "reopen_status"]);
+
+  if (error) throw error;
+  return parseReopenSettings(data || []);
+}
+
+/** Last moment a complaint resolved at `resolvedAt` can be reopened, or null when reopening is disabled. */
+export function getReopenDeadline(resolvedAt: string | null, windowDays: number): Date | null {
+  if (!resolvedAt || windowDays <= 0) return null;
+  return new Date(new Date(resolvedAt).getTime() + windowDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Mirrors the checks in the `reopen_complaint` database function so the
+ * action is only offered when the server will accept it. Merged complaints
+ * stay closed; the complaint they were merged into carries on instead.
+ */
+export function canReopenComplaint(
+  complaint: { status: string; resolved_at: string | null; merged_into?: string | null },
+  settings: ReopenSettings,
+  canTransition: (from: string, to: string) => boolean,
+  now: Date = new Date()
+): boolean {
+  const deadline = getReopenDeadline(complaint.resolved_at, settings.windowDays);
+  return (
+    !!deadline &&
+    deadline >= now &&
+    !complaint.merged_into &&
+    complaint.status !== settings.status &&
+    canTransition(complaint.status, settings.status)
+  );
+}
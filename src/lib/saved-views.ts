@@ -0,0 +1,34 @@
+import type { Json } from "@/integrations/supabase/types";
+
+/** Query parameters of the admin complaint list that a saved view captures. */
+export const VIEW_PARAMS = ["q", "status", "category", "department", "priority", "assignee", "sort"] as const;
+
+export type ViewFilters = Partial<Record<(typeof VIEW_PARAMS)[number], string>>;
+
+export function viewFiltersFromParams(params: URLSearchParams): ViewFilters {
+  const filters: ViewFilters = {};
+  VIEW_PARAMS.forEach((key) => {
+    const value = params.get(key)?.trim();
+    if (value) filters[key] = value;
+  });
+  return filters;
+}
+
+/** Reads filters stored as JSON, dropping anything that is not a known string parameter. */
+export function parseViewFilters(value: Json): ViewFilters {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const filters: ViewFilters = {};
+  VIEW_PARAMS.forEach((key) => {
+    const entry = value[key];
+    if (typeof entry === "string" && entry.trim()) filters[key] = entry.trim();
+  });
+  return filters;
+}
+
+export function sameViewFilters(a: ViewFilters, b: ViewFilters): boolean {
+  return VIEW_PARAMS.every((key) => (a[key] || "") === (b[key] || ""));
+}
+
+export function hasViewFilters(filters: ViewFilters): boolean {
+  return VIEW_PARAMS.some((key) => !!filters[key]);
+}
@@ -0,0 +1,31 @@
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// search_complaints wraps matched words in these control characters (see its migration)
+const START_SEL = "\u0002";
+const STOP_SEL = "\u0003";
+
+/** Splits a search headline into plain and highlighted parts for rendering. */
+export function parseHeadline(headline: string): HighlightPart[] {
+  const parts: HighlightPart[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(START_SEL);
+    if (start === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), match: false });
+
+    const stop = rest.indexOf(STOP_SEL, start + 1);
+    const end = stop === -1 ? rest.length : stop;
+    const match = rest.slice(start + 1, end);
+    if (match) parts.push({ text: match, match: true });
+    rest = stop === -1 ? "" : rest.slice(stop + 1);
+  }
+
+  return parts;
+}
@@ -0,0 +1,82 @@
+export type SlaState = "on_track" | "at_risk" | "breached" | "met" | "none";
+export type SlaTarget = "first_response" | "resolution";
+
+export interface SlaFields {
+  created_at: string;
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  resolution_due_at: string | null;
+  resolved_at: string | null;
+}
+
+export interface SlaStatus {
+  state: SlaState;
+  target: SlaTarget | null;
+  dueAt: Date | null;
+  /** Milliseconds until the deadline; negative once it has passed. */
+  remainingMs: number;
+}
+
+// A running target is "at risk" once less than this share of its window is left.
+const AT_RISK_SHARE = 0.25;
+
+/** Evaluates a single target: met/breached once completed, otherwise on track, at risk or breached. */
+export function evaluateSlaTarget(
+  startedAt: string,
+  dueAt: string | null,
+  completedAt: string | null,
+  now: Date = new Date()
+): SlaState {
+  if (!dueAt) return "none";
+
+  const due = new Date(dueAt).getTime();
+
+  if (completedAt) {
+    return new Date(completedAt).getTime() <= due ? "met" : "breached";
+  }
+
+  const remaining = due - now.getTime();
+  if (remaining < 0) return "breached";
+
+  const window = due - new Date(startedAt).getTime();
+  return remaining < window * AT_RISK_SHARE ? "at_risk" : "on_track";
+}
+
+/**
+ * Picks the target that currently matters for a complaint: the first response
+ * while nobody has answered yet, then the resolution deadline.
+ */
+export function getSlaStatus(complaint: SlaFields, isFinal: boolean, now: Date = new Date()): SlaStatus {
+  const awaitingFirstResponse = !complaint.first_responded_at && !isFinal && complaint.first_response_due_at;
+  const target: SlaTarget | null = awaitingFirstResponse
+    ? "first_response"
+    : complaint.resolution_due_at
+      ? "resolution"
+      : null;
+
+  if (!target) {
+    return { state: "none", target: null, dueAt: null, remainingMs: 0 };
+  }
+
+  const dueAt = target === "first_response" ? complaint.first_response_due_at! : complaint.resolution_due_at!;
+  const completedAt = target === "first_response" ? null : isFinal ? complaint.resolved_at : null;
+
+  return {
+    state: evaluateSlaTarget(complaint.created_at, dueAt, completedAt, now),
+    target,
+    dueAt: new Date(dueAt),
+    remainingMs: new Date(dueAt).getTime() - now.getTime(),
+  };
+}
+
+/** Formats a duration as the two most significant units, e.g. "2d 4h" or "35m". */
+export function formatSlaDuration(ms: number): string {
+  const totalMinutes = Math.floor(Math.abs(ms) / 60000);
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  return `${minutes}m`;
+}
@@ -0,0 +1,45 @@
+/** Placeholders a reply template may use, written as `{{key}}`. */
+export const TEMPLATE_PLACEHOLDERS = [
+  { key: "student_name", description: "Name of the student, or \"Student\" for anonymous complaints" },
+  { key: "subject", description: "Subject of the complaint" },
+  { key: "category", description: "Category of the complaint" },
+  { key: "status", description: "Current status of the complaint" },
+  { key: "admin_name", description: "Your own name" },
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]["key"];
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>;
+
+export interface ResponseTemplate {
+  id: string;
+  title: string;
+  body: string;
+  category_id: string | null;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/** Fills in known placeholders; unknown ones and those without a value are left as typed. */
+export function renderTemplate(body: string, values: TemplateValues): string {
+  return body.replace(PLACEHOLDER_PATTERN, (match, key: string) => {
+    const value = values[key as TemplatePlaceholder];
+    return value === undefined ? match : value;
+  });
+}
+
+/** Placeholder keys in the body that the picker will not be able to fill in. */
+export function unknownPlaceholders(body: string): string[] {
+  const known = new Set<string>(TEMPLATE_PLACEHOLDERS.map((p) => p.key));
+  const unknown = new Set<string>();
+  for (const [, key] of body.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!known.has(key)) unknown.add(key);
+  }
+  return [...unknown];
+}
+
+/** Templates usable on a complaint of the category: its own first, then the general ones. */
+export function applicableTemplates<T extends ResponseTemplate>(templates: T[], categoryId: string | null): T[] {
+  const own = templates.filter((t) => t.category_id !== null && t.category_id === categoryId);
+  const general = templates.filter((t) => t.category_id === null);
+  return [...own, ...general];
+}
@@ -0,0 +1,76 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type Priority = "low" | "medium" | "high" | "critical";
+
+/** A keyword that matched a complaint, as recorded in `complaints.triage_reasons`. */
+export interface TriageReason {
+  keyword: string;
+  weight: number;
+  priority: Priority | null;
+  category_id: string | null;
+}
+
+export interface TriageScore {
+  /** The priority or category id the keywords point at. */
+  target: string;
+  score: number;
+  keywords: string[];
+}
+
+export interface SuggestionAcceptance {
+  /** Suggestions an admin accepted or overrode. */
+  reviewed: number;
+  accepted: number;
+  /** Share of reviewed suggestions that were accepted, in percent. */
+  rate: number;
+  /** Suggestions nobody has decided on yet. */
+  pending: number;
+}
+
+/** Reads the stored reasons, skipping anything that isn't a matched keyword. */
+export function parseTriageReasons(value: Json | null | undefined): TriageReason[] {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((item) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) return [];
+    const { keyword, weight, priority, category_id } = item as Record<string, Json>;
+    if (typeof keyword !== "string" || typeof weight !== "number") return [];
+
+    return [{
+      keyword,
+      weight,
+      priority: typeof priority === "string" ? (priority as Priority) : null,
+      category_id: typeof category_id === "string" ? category_id : null,
+    }];
+  });
+}
+
+/** Totals the keyword weights per priority or per category, highest score first. */
+export function scoreTriageReasons(reasons: TriageReason[], kind: "priority" | "category"): TriageScore[] {
+  const scores = new Map<string, TriageScore>();
+
+  reasons.forEach((reason) => {
+    const target = kind === "priority" ? reason.priority : reason.category_id;
+    if (!target) return;
+
+    const entry = scores.get(target) || { target, score: 0, keywords: [] };
+    entry.score += reason.weight;
+    entry.keywords.push(reason.keyword);
+    scores.set(target, entry);
+  });
+
+  return Array.from(scores.values()).sort((a, b) => b.score - a.score);
+}
+
+/** Summarizes suggestion outcomes; `null` means the suggestion is still pending. */
+export function summarizeAcceptance(outcomes: (boolean | null)[]): SuggestionAcceptance {
+  const reviewed = outcomes.filter((o) => o !== null).length;
+  const accepted = outcomes.filter((o) => o === true).length;
+
+  return {
+    reviewed,
+    accepted,
+    rate: reviewed > 0 ? Math.round((accepted / reviewed) * 100) : 0,
+    pending: outcomes.length - reviewed,
+  };
+}
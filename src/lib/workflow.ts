@@ -0,0 +1,68 @@
+import { AlertCircle, CheckCircle, Clock, type LucideIcon } from "lucide-react";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ComplaintStatus = Tables<"complaint_statuses">;
+export type StatusTransition = Tables<"complaint_status_transitions">;
+
+interface StatusTone {
+  label: string;
+  badge: string;
+  chart: string;
+}
+
+// Tailwind classes have to be spelled out in full so the JIT compiler picks them up.
+export const STATUS_TONES: Record<string, StatusTone> = {
+  gray: {
+    label: "Gray",
+    badge: "bg-status-submitted/10 text-status-submitted border-status-submitted/20",
+    chart: "hsl(215, 14%, 45%)",
+  },
+  amber: {
+    label: "Amber",
+    badge: "bg-status-in-review/10 text-status-in-review border-status-in-review/20",
+    chart: "hsl(38, 92%, 50%)",
+  },
+  green: {
+    label: "Green",
+    badge: "bg-status-resolved/10 text-status-resolved border-status-resolved/20",
+    chart: "hsl(142, 71%, 45%)",
+  },
+  blue: {
+    label: "Blue",
+    badge: "bg-blue-500/10 text-blue-600 border-blue-500/20 dark:text-blue-400",
+    chart: "hsl(217, 91%, 60%)",
+  },
+  purple: {
+    label: "Purple",
+    badge: "bg-purple-500/10 text-purple-600 border-purple-500/20 dark:text-purple-400",
+    chart: "hsl(280, 65%, 60%)",
+  },
+  orange: {
+    label: "Orange",
+    badge: "bg-orange-500/10 text-orange-600 border-orange-500/20 dark:text-orange-400",
+    chart: "hsl(25, 95%, 53%)",
+  },
+  red: {
+    label: "Red",
+    badge: "bg-red-500/10 text-red-600 border-red-500/20 dark:text-red-400",
+    chart: "hsl(0, 84%, 60%)",
+  },
+};
+
+export function getStatusTone(color: string | undefined): StatusTone {
+  return STATUS_TONES[color || "gray"] || STATUS_TONES.gray;
+}
+
+export function getStatusIcon(status: Pick<ComplaintStatus, "is_initial" | "is_final"> | undefined): LucideIcon {
+  if (status?.is_final) return CheckCircle;
+  if (status?.is_initial) return AlertCircle;
+  return Clock;
+}
+
+/** Turns a status key such as `awaiting_student` into a readable fallback label. */
+export function humanizeStatus(key: string): string {
+  return key
+    .split("_")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
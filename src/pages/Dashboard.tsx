@@ -1,4 +1,4 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Loader2 } from 'lucide-react';
 import StudentDashboard from '@/components/dashboard/StudentDashboard';
@@ -6,6 +6,19 @@ import AdminDashboard from '@/components/dashboard/AdminDashboard';
 
 export default function Dashboard() {
   const { user, role, loading } = useAuth();
+  const [searchParams] = useSearchParams();
+
+  // Older emails and notifications linked to /dashboard?complaint=<id> or ?rate=<id>&score=<n>
+  const legacyComplaintId = searchParams.get('complaint') || searchParams.get('rate');
+  if (legacyComplaintId) {
+    const score = searchParams.get('score');
+    return (
+      <Navigate
+        to={`/dashboard/complaints/${legacyComplaintId}${searchParams.has('rate') && score ? `?rate=${score}` : ''}`}
+        replace
+      />
+    );
+  }
 
   if (loading) {
     return (
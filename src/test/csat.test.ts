@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { groupCsat, summarizeCsat } from "@/lib/csat";
+
+describe("summarizeCsat", () => {
+  it("returns zeros without responses", () => {
+    expect(summarizeCsat([])).toEqual({ responses: 0, average: 0, csat: 0 });
+  });
+
+  it("computes the average and the satisfied share", () => {
+    expect(summarizeCsat([5, 4, 3, 1])).toEqual({ responses: 4, average: 3.3, csat: 50 });
+  });
+});
+
+describe("groupCsat", () => {
+  it("summarizes each group and sorts by response count", () => {
+    const items = [
+      { rating: 5, category: "IT" },
+      { rating: 2, category: "Housing" },
+      { rating: 4, category: "Housing" },
+    ];
+
+    expect(groupCsat(items, (i) => i.category)).toEqual([
+      { name: "Housing", responses: 2, average: 3, csat: 50 },
+      { name: "IT", responses: 1, average: 5, csat: 100 },
+    ]);
+  });
+});
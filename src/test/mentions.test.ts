@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  filterMentionCandidates,
+  findMentions,
+  getMentionQuery,
+  insertMention,
+  splitMentions,
+} from "@/lib/mentions";
+
+const ann = { user_id: "1", full_name: "Ann" };
+const annLee = { user_id: "2", full_name: "Ann Lee" };
+const bob = { user_id: "3", full_name: "Bob Marsh" };
+
+describe("getMentionQuery", () => {
+  it("reads the partial name before the caret", () => {
+    expect(getMentionQuery("Ask @bo", 7)).toEqual({ start: 4, query: "bo" });
+    expect(getMentionQuery("@", 1)).toEqual({ start: 0, query: "" });
+    expect(getMentionQuery("Ask @Bob M", 10)).toEqual({ start: 4, query: "Bob M" });
+  });
+
+  it("ignores email addresses and finished mentions", () => {
+    expect(getMentionQuery("mail me@example.com", 19)).toBeNull();
+    expect(getMentionQuery("hi there", 8)).toBeNull();
+    expect(getMentionQuery("@ bob", 5)).toBeNull();
+  });
+});
+
+describe("insertMention", () => {
+  it("replaces the query and moves the caret past the mention", () => {
+    expect(insertMention("Ask @bo please", 4, 7, "Bob Marsh")).toEqual({
+      text: "Ask @Bob Marsh please",
+      caret: 15,
+    });
+  });
+});
+
+describe("filterMentionCandidates", () => {
+  it("matches the start of any word", () => {
+    expect(filterMentionCandidates([ann, annLee, bob], "ma")).toEqual([bob]);
+    expect(filterMentionCandidates([ann, annLee, bob], "ANN")).toEqual([ann, annLee]);
+    expect(filterMentionCandidates([ann, annLee, bob], "", 2)).toEqual([ann, annLee]);
+  });
+});
+
+describe("findMentions", () => {
+  it("prefers the longest matching name", () => {
+    expect(findMentions("Thoughts, @Ann Lee?", [ann, annLee, bob])).toEqual([annLee]);
+    expect(findMentions("@ann and @Bob Marsh", [ann, annLee, bob])).toEqual([ann, bob]);
+  });
+
+  it("requires a word boundary on both sides", () => {
+    expect(findMentions("x@Ann", [ann])).toEqual([]);
+    expect(findMentions("@Annie", [ann])).toEqual([]);
+  });
+});
+
+describe("splitMentions", () => {
+  it("separates mentions from plain text", () => {
+    expect(splitMentions("Hi @Bob Marsh, see this", [bob])).toEqual([
+      { text: "Hi ", mention: false },
+      { text: "@Bob Marsh", mention: true },
+      { text: ", see this", mention: false },
+    ]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { chunk, getPageCount, getPageItems } from "@/lib/pagination";
+
+describe("getPageCount", () => {
+  it("always has at least one page", () => {
+    expect(getPageCount(0, 25)).toBe(1);
+    expect(getPageCount(25, 25)).toBe(1);
+    expect(getPageCount(26, 25)).toBe(2);
+  });
+});
+
+describe("getPageItems", () => {
+  it("lists every page when there are few", () => {
+    expect(getPageItems(1, 1)).toEqual([1]);
+    expect(getPageItems(2, 4)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("collapses gaps around the current page", () => {
+    expect(getPageItems(10, 20)).toEqual([1, "ellipsis", 9, 10, 11, "ellipsis", 20]);
+    expect(getPageItems(1, 20)).toEqual([1, 2, "ellipsis", 20]);
+  });
+
+  it("shows a single skipped page instead of an ellipsis", () => {
+    expect(getPageItems(4, 20)).toEqual([1, 2, 3, 4, 5, "ellipsis", 20]);
+  });
+});
+
+describe("chunk", () => {
+  it("splits into fixed-size groups", () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
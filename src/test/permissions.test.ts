@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { collectPermissions } from "@/lib/permissions";
+
+const matrix = [
+  { role: "auditor" as const, permission: "view_complaints" as const },
+  { role: "auditor" as const, permission: "export_reports" as const },
+  { role: "staff" as const, permission: "view_complaints" as const },
+  { role: "staff" as const, permission: "comment" as const },
+];
+
+describe("collectPermissions", () => {
+  it("unions the permissions of every role held", () => {
+    expect(collectPermissions(["admin", "auditor", "staff"], matrix)).toEqual(
+      new Set(["view_complaints", "export_reports", "comment"])
+    );
+  });
+
+  it("grants nothing to roles without permissions", () => {
+    expect(collectPermissions(["admin"], matrix).size).toBe(0);
+    expect(collectPermissions([], matrix).size).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { canReopenComplaint, getReopenDeadline, parseReopenSettings } from "@/lib/reopen";
+
+const settings = { windowDays: 14, status: "reopened" };
+const canTransition = (from: string, to: string) => from === "resolved" && to === "reopened";
+
+describe("parseReopenSettings", () => {
+  it("reads values from app settings rows", () => {
+    expect(
+      parseReopenSettings([
+        { key: "reopen_window_days", value: 7 },
+        { key: "reopen_status", value: "in_review" },
+      ])
+    ).toEqual({ windowDays: 7, status: "in_review" });
+  });
+
+  it("falls back to defaults for missing or invalid values", () => {
+    expect(parseReopenSettings([{ key: "reopen_window_days", value: "soon" }])).toEqual({ windowDays: 14, status: "reopened" });
+  });
+});
+
+describe("getReopenDeadline", () => {
+  it("adds the window to the resolution time", () => {
+    expect(getReopenDeadline("2026-02-01T00:00:00Z", 14)?.toISOString()).toBe("2026-02-15T00:00:00.000Z");
+  });
+
+  it("returns null when unresolved or disabled", () => {
+    expect(getReopenDeadline(null, 14)).toBeNull();
+    expect(getReopenDeadline("2026-02-01T00:00:00Z", 0)).toBeNull();
+  });
+});
+
+describe("canReopenComplaint", () => {
+  const complaint = { status: "resolved", resolved_at: "2026-02-01T00:00:00Z" };
+
+  it("allows reopening within the window", () => {
+    expect(canReopenComplaint(complaint, settings, canTransition, new Date("2026-02-10T00:00:00Z"))).toBe(true);
+  });
+
+  it("rejects reopening after the window", () => {
+    expect(canReopenComplaint(complaint, settings, canTransition, new Date("2026-02-16T00:00:00Z"))).toBe(false);
+  });
+
+  it("requires a configured transition", () => {
+    expect(
+      canReopenComplaint({ ...complaint, status: "closed" }, settings, canTransition, new Date("2026-02-10T00:00:00Z"))
+    ).toBe(false);
+  });
+
+  it("never reopens a merged complaint", () => {
+    expect(
+      canReopenComplaint({ ...complaint, merged_into: "primary-id" }, settings, canTransition, new Date("2026-02-10T00:00:00Z"))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { hasViewFilters, parseViewFilters, sameViewFilters, viewFiltersFromParams } from "@/lib/saved-views";
+
+describe("viewFiltersFromParams", () => {
+  it("keeps only view parameters", () => {
+    const params = new URLSearchParams("status=pending&page=3&q=%20wifi%20&rate=4");
+    expect(viewFiltersFromParams(params)).toEqual({ status: "pending", q: "wifi" });
+  });
+});
+
+describe("parseViewFilters", () => {
+  it("ignores unknown keys and non-string values", () => {
+    expect(parseViewFilters({ priority: "high", page: "2", sort: 3 })).toEqual({ priority: "high" });
+    expect(parseViewFilters(null)).toEqual({});
+    expect(parseViewFilters(["status"])).toEqual({});
+  });
+});
+
+describe("sameViewFilters", () => {
+  it("compares every view parameter", () => {
+    expect(sameViewFilters({ status: "pending" }, { status: "pending" })).toBe(true);
+    expect(sameViewFilters({ status: "pending" }, { status: "pending", sort: "sla" })).toBe(false);
+    expect(sameViewFilters({}, {})).toBe(true);
+  });
+});
+
+describe("hasViewFilters", () => {
+  it("detects an unfiltered list", () => {
+    expect(hasViewFilters({})).toBe(false);
+    expect(hasViewFilters({ q: "library" })).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { parseHeadline } from "@/lib/search";
+
+describe("parseHeadline", () => {
+  it("returns plain text untouched", () => {
+    expect(parseHeadline("no matches here")).toEqual([{ text: "no matches here", match: false }]);
+    expect(parseHeadline("")).toEqual([]);
+  });
+
+  it("splits out highlighted words", () => {
+    expect(parseHeadline("the \u0002wifi\u0003 in \u0002library\u0003 is down")).toEqual([
+      { text: "the ", match: false },
+      { text: "wifi", match: true },
+      { text: " in ", match: false },
+      { text: "library", match: true },
+      { text: " is down", match: false },
+    ]);
+  });
+
+  it("tolerates a missing stop marker", () => {
+    expect(parseHeadline("broken \u0002match")).toEqual([
+      { text: "broken ", match: false },
+      { text: "match", match: true },
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { evaluateSlaTarget, formatSlaDuration, getSlaStatus } from "@/lib/sla";
+
+const now = new Date("2026-02-10T12:00:00Z");
+
+describe("evaluateSlaTarget", () => {
+  it("returns none without a deadline", () => {
+    expect(evaluateSlaTarget("2026-02-10T00:00:00Z", null, null, now)).toBe("none");
+  });
+
+  it("marks completed targets as met or breached", () => {
+    expect(evaluateSlaTarget("2026-02-10T00:00:00Z", "2026-02-10T10:00:00Z", "2026-02-10T09:00:00Z", now)).toBe("met");
+    expect(evaluateSlaTarget("2026-02-10T00:00:00Z", "2026-02-10T10:00:00Z", "2026-02-10T11:00:00Z", now)).toBe("breached");
+  });
+
+  it("flags running targets close to their deadline", () => {
+    expect(evaluateSlaTarget("2026-02-10T00:00:00Z", "2026-02-11T00:00:00Z", null, now)).toBe("on_track");
+    expect(evaluateSlaTarget("2026-02-10T00:00:00Z", "2026-02-10T14:00:00Z", null, now)).toBe("at_risk");
+    expect(evaluateSlaTarget("2026-02-10T00:00:00Z", "2026-02-10T11:00:00Z", null, now)).toBe("breached");
+  });
+});
+
+describe("getSlaStatus", () => {
+  const complaint = {
+    created_at: "2026-02-10T00:00:00Z",
+    first_response_due_at: "2026-02-10T08:00:00Z",
+    first_responded_at: null,
+    resolution_due_at: "2026-02-13T00:00:00Z",
+    resolved_at: null,
+  };
+
+  it("tracks the first response until someone answers", () => {
+    const status = getSlaStatus(complaint, false, now);
+    expect(status.target).toBe("first_response");
+    expect(status.state).toBe("breached");
+  });
+
+  it("switches to the resolution target after the first response", () => {
+    const status = getSlaStatus({ ...complaint, first_responded_at: "2026-02-10T02:00:00Z" }, false, now);
+    expect(status.target).toBe("resolution");
+    expect(status.state).toBe("on_track");
+  });
+
+  it("judges final complaints by their resolution time", () => {
+    const status = getSlaStatus({ ...complaint, resolved_at: "2026-02-14T00:00:00Z" }, true, now);
+    expect(status.target).toBe("resolution");
+    expect(status.state).toBe("breached");
+  });
+});
+
+describe("formatSlaDuration", () => {
+  it("shows the two most significant units", () => {
+    expect(formatSlaDuration(((2 * 24 + 4) * 60 + 10) * 60000)).toBe("2d 4h");
+    expect(formatSlaDuration(-(90 * 60000))).toBe("1h 30m");
+    expect(formatSlaDuration(5 * 60000)).toBe("5m");
+  });
+});
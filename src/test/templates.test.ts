@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { applicableTemplates, renderTemplate, unknownPlaceholders } from "@/lib/templates";
+
+describe("renderTemplate", () => {
+  it("fills in known placeholders, tolerating spaces", () => {
+    expect(
+      renderTemplate("Hi {{student_name}}, about {{ subject }}: {{student_name}}", {
+        student_name: "Ann",
+        subject: "Wifi",
+      })
+    ).toBe("Hi Ann, about Wifi: Ann");
+  });
+
+  it("leaves unknown and missing placeholders as typed", () => {
+    expect(renderTemplate("{{room}} / {{category}}", { subject: "Wifi" })).toBe("{{room}} / {{category}}");
+  });
+});
+
+describe("unknownPlaceholders", () => {
+  it("lists each unsupported key once", () => {
+    expect(unknownPlaceholders("{{room}} {{subject}} {{ room }} {{deadline}}")).toEqual(["room", "deadline"]);
+    expect(unknownPlaceholders("Thanks, {{admin_name}}")).toEqual([]);
+  });
+});
+
+describe("applicableTemplates", () => {
+  const general = { id: "1", title: "Thanks", body: "", category_id: null };
+  const housing = { id: "2", title: "Repair booked", body: "", category_id: "housing" };
+  const library = { id: "3", title: "Fine waived", body: "", category_id: "library" };
+
+  it("puts the category's own templates before general ones", () => {
+    expect(applicableTemplates([general, housing, library], "housing")).toEqual([housing, general]);
+  });
+
+  it("only offers general templates without a category", () => {
+    expect(applicableTemplates([general, housing], null)).toEqual([general]);
+  });
+});
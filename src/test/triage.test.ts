@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { parseTriageReasons, scoreTriageReasons, summarizeAcceptance } from "@/lib/triage";
+
+describe("parseTriageReasons", () => {
+  it("returns nothing for missing or malformed values", () => {
+    expect(parseTriageReasons(null)).toEqual([]);
+    expect(parseTriageReasons({ keyword: "fire" })).toEqual([]);
+    expect(parseTriageReasons(["fire", { keyword: "fire" }])).toEqual([]);
+  });
+
+  it("reads matched keywords", () => {
+    expect(parseTriageReasons([{ keyword: "unsafe", weight: 6, priority: "critical", category_id: null }])).toEqual([
+      { keyword: "unsafe", weight: 6, priority: "critical", category_id: null },
+    ]);
+  });
+});
+
+describe("scoreTriageReasons", () => {
+  const reasons = [
+    { keyword: "unsafe", weight: 6, priority: "critical" as const, category_id: null },
+    { keyword: "urgent", weight: 4, priority: "high" as const, category_id: null },
+    { keyword: "deadline", weight: 3, priority: "high" as const, category_id: null },
+    { keyword: "heating", weight: 3, priority: null, category_id: "facilities" },
+  ];
+
+  it("totals weights per priority, highest first", () => {
+    expect(scoreTriageReasons(reasons, "priority")).toEqual([
+      { target: "high", score: 7, keywords: ["urgent", "deadline"] },
+      { target: "critical", score: 6, keywords: ["unsafe"] },
+    ]);
+  });
+
+  it("totals weights per category", () => {
+    expect(scoreTriageReasons(reasons, "category")).toEqual([
+      { target: "facilities", score: 3, keywords: ["heating"] },
+    ]);
+  });
+});
+
+describe("summarizeAcceptance", () => {
+  it("returns zeros without suggestions", () => {
+    expect(summarizeAcceptance([])).toEqual({ reviewed: 0, accepted: 0, rate: 0, pending: 0 });
+  });
+
+  it("leaves pending suggestions out of the rate", () => {
+    expect(summarizeAcceptance([true, true, false, null])).toEqual({ reviewed: 3, accepted: 2, rate: 67, pending: 1 });
+  });
+
+  it("rounds the rate to a whole percent", () => {
+    expect(summarizeAcceptance([true, false, false]).rate).toBe(33);
+    expect(summarizeAcceptance([true, true, true, true, true, true, true, false]).rate).toBe(88);
+  });
+
+  it("reports a zero rate while every suggestion is pending", () => {
+    expect(summarizeAcceptance([null, null])).toEqual({ reviewed: 0, accepted: 0, rate: 0, pending: 2 });
+  });
+});
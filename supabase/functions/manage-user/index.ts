@@ -0,0 +1,110 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface ManageUserRequest {
+  action: "deactivate" | "reactivate";
+  userId: string;
+}
+
+// Long enough to be permanent until an admin reactivates the account
+const DEACTIVATED_BAN_DURATION = "876000h";
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Identify the caller from their own session token
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    const { data: { user: caller } } = await supabase.auth.getUser(token);
+    if (!caller) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: allowed } = await supabase.rpc("has_permission", {
+      _user_id: caller.id,
+      _permission: "manage_users",
+    });
+    if (!allowed) {
+      return jsonResponse({ error: "You are not allowed to manage users" }, 403);
+    }
+
+    const { action, userId }: ManageUserRequest = await req.json();
+
+    if (action !== "deactivate" && action !== "reactivate") {
+      return jsonResponse({ error: "Unknown action" }, 400);
+    }
+
+    if (action === "deactivate") {
+      if (userId === caller.id) {
+        return jsonResponse({ error: "You cannot deactivate your own account" }, 400);
+      }
+
+      // Same guard as removing a role: keep at least one active admin and super admin
+      const { data: roles } = await supabase
+        .from("user_roles")
+        .select("user_id, role")
+        .in("role", ["admin", "super_admin"]);
+      const { data: deactivated } = await supabase
+        .from("profiles")
+        .select("user_id")
+        .not("deactivated_at", "is", null);
+      const inactive = new Set((deactivated || []).map((p: { user_id: string }) => p.user_id));
+
+      for (const role of ["admin", "super_admin"]) {
+        const holders = (roles || []).filter((r: { role: string }) => r.role === role);
+        const targetHolds = holders.some((r: { user_id: string }) => r.user_id === userId);
+        const othersActive = holders.some(
+          (r: { user_id: string }) => r.user_id !== userId && !inactive.has(r.user_id)
+        );
+        if (targetHolds && !othersActive) {
+          return jsonResponse({ error: `Cannot deactivate the last active ${role.replace("_", " ")}` }, 400);
+        }
+      }
+    }
+
+    const { error: authError } = await supabase.auth.admin.updateUserById(userId, {
+      ban_duration: action === "deactivate" ? DEACTIVATED_BAN_DURATION : "none",
+    });
+    if (authError) throw authError;
+
+    const { error: profileError } = await supabase
+      .from("profiles")
+      .update({ deactivated_at: action === "deactivate" ? new Date().toISOString() : null })
+      .eq("user_id", userId);
+    if (profileError) throw profileError;
+
+    const { error: logError } = await supabase.from("role_changes").insert({
+      user_id: userId,
+      changed_by: caller.id,
+      action: action === "deactivate" ? "deactivated" : "reactivated",
+    });
+    if (logError) console.error("Error logging account change:", logError);
+
+    console.log(`User ${userId} ${action}d by ${caller.id}`);
+
+    return jsonResponse({ success: true }, 200);
+  } catch (error: unknown) {
+    console.error("Error in manage-user function:", error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Scheduled every 15 minutes by the run-escalation-rules cron job (see migrations)
+const HOUR_MS = 60 * 60 * 1000;
+
+interface EscalationRule {
+  id: string;
+  name: string;
+  status: string | null;
+  priority: string | null;
+  category_id: string | null;
+  min_age_hours: number;
+  require_no_admin_response: boolean;
+}
+
+interface EscalationNotification {
+  user_id: string;
+  complaint_id: string | null;
+  title: string;
+  body: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler (holding the service role key) may run the rules
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const runStartedAt = new Date().toISOString();
+
+    const { data: rules, error: rulesError } = await supabase
+      .from("escalation_rules")
+      .select("id, name, status, priority, category_id, min_age_hours, require_no_admin_response")
+      .eq("is_active", true);
+
+    if (rulesError) throw rulesError;
+
+    if (!rules || rules.length === 0) {
+      return new Response(JSON.stringify({ success: true, escalated: 0 }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    // Closed and merged complaints are never escalated
+    const { data: finalStatuses, error: statusesError } = await supabase
+      .from("complaint_statuses")
+      .select("key")
+      .eq("is_final", true);
+
+    if (statusesError) throw statusesError;
+    const finalKeys = (finalStatuses || []).map((s: { key: string }) => s.key);
+
+    let escalated = 0;
+
+    for (const rule of rules as EscalationRule[]) {
+      const olderThan = new Date(Date.now() - rule.min_age_hours * HOUR_MS).toISOString();
+
+      let query = supabase
+        .from("complaints")
+        .select("id")
+        .is("merged_into", null)
+        .lte("created_at", olderThan)
+        .order("created_at", { ascending: true });
+
+      if (finalKeys.length > 0) query = query.not("status", "in", `(${finalKeys.join(",")})`);
+      if (rule.status) query = query.eq("status", rule.status);
+      if (rule.priority) query = query.eq("priority", rule.priority);
+      if (rule.category_id) query = query.eq("category_id", rule.category_id);
+      // Only an admin reply on the conversation counts; status changes and internal notes don't
+      if (rule.require_no_admin_response) query = query.is("first_admin_reply_at", null);
+
+      const [{ data: matches, error: matchesError }, { data: done, error: doneError }] = await Promise.all([
+        query,
+        supabase.from("complaint_escalations").select("complaint_id").eq("rule_id", rule.id),
+      ]);
+
+      if (matchesError) throw matchesError;
+      if (doneError) throw doneError;
+
+      const alreadyEscalated = new Set((done || []).map((d: { complaint_id: string }) => d.complaint_id));
+
+      for (const complaint of matches || []) {
+        if (alreadyEscalated.has(complaint.id)) continue;
+
+        // Applies and logs the rule's actions in one transaction
+        const { data: applied, error: escalateError } = await supabase.rpc("escalate_complaint", {
+          _rule_id: rule.id,
+          _complaint_id: complaint.id,
+        });
+
+        // Keep going so one failing complaint does not hold back the rest
+        if (escalateError) {
+          console.error(`Error applying rule "${rule.name}" to complaint ${complaint.id}:`, escalateError);
+          continue;
+        }
+        if (applied) escalated++;
+      }
+    }
+
+    console.log(`Escalated ${escalated} complaint(s)`);
+
+    const emailed = await emailSupervisors(supabase, runStartedAt);
+
+    return new Response(JSON.stringify({ success: true, escalated, emailed }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (error: unknown) {
+    console.error("Error in run-escalations function:", error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+};
+
+// One email per supervisor listing the complaints escalated to them in this
+// run. Supervisors who chose the digest or turned escalations off are skipped;
+// a missing preference means immediate email.
+async function emailSupervisors(
+  supabase: ReturnType<typeof createClient>,
+  since: string
+): Promise<number> {
+  const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+  if (!RESEND_API_KEY) {
+    console.error("RESEND_API_KEY not configured; escalation emails skipped");
+    return 0;
+  }
+
+  // The in-app notifications record who escalate_complaint actually notified
+  const { data: notifications, error } = await supabase
+    .from("notifications")
+    .select("user_id, complaint_id, title, body")
+    .eq("type", "escalation")
+    .gte("created_at", since)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  if (!notifications || notifications.length === 0) return 0;
+
+  const byUser = new Map<string, EscalationNotification[]>();
+  for (const n of notifications as EscalationNotification[]) {
+    if (!byUser.has(n.user_id)) byUser.set(n.user_id, []);
+    byUser.get(n.user_id)!.push(n);
+  }
+
+  const { data: preferences } = await supabase
+    .from("notification_preferences")
+    .select("user_id, delivery")
+    .eq("event_type", "escalation")
+    .in("user_id", Array.from(byUser.keys()));
+
+  for (const pref of (preferences || []) as { user_id: string; delivery: string }[]) {
+    if (pref.delivery !== "immediate") byUser.delete(pref.user_id);
+  }
+
+  if (byUser.size === 0) return 0;
+
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("user_id, email, full_name")
+    .in("user_id", Array.from(byUser.keys()));
+
+  const appUrl = Deno.env.get("APP_URL") || "";
+  let sent = 0;
+
+  for (const profile of (profiles || []) as { user_id: string; email: string; full_name: string }[]) {
+    const items = byUser.get(profile.user_id) || [];
+    if (items.length === 0) continue;
+
+    const list = items
+      .map((e) => {
+        const title = escapeHtml(e.title);
+        const link = appUrl && e.complaint_id
+          ? `<a href="${appUrl}/dashboard/complaints/${e.complaint_id}" style="color: #2563eb;">${title}</a>`
+          : title;
+        return `<li style="margin-bottom: 8px;">${link}${e.body ? `<br><span style="color: #6b7280;">Rule: ${escapeHtml(e.body)}</span>` : ""}</li>`;
+      })
+      .join("");
+
+    const htmlContent = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #1f2937;">Hello ${profile.full_name},</h2>
+        <p>The following complaints were escalated to you by the escalation rules.</p>
+        <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <ul style="padding-left: 20px; margin: 0;">${list}</ul>
+        </div>
+        <p>Log in to your dashboard to review them.</p>
+        <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
+      </div>
+    `;
+
+    const emailResponse = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${RESEND_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: "Complaint System <onboarding@resend.dev>",
+        to: [profile.email],
+        subject: `${items.length} complaint${items.length === 1 ? " was" : "s were"} escalated to you`,
+        html: htmlContent,
+      }),
+    });
+
+    if (!emailResponse.ok) {
+      console.error("Error sending escalation email to", profile.email, await emailResponse.json());
+      continue;
+    }
+    sent++;
+  }
+
+  return sent;
+}
+
+serve(handler);
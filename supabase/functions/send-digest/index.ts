@@ -0,0 +1,187 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Scheduled daily by the send-daily-digest cron job (see migrations)
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const eventLabels: Record<string, string> = {
+  status_change: "Status changes",
+  priority_change: "Priority changes",
+  comment: "New messages",
+  assignment: "Assignments",
+  mention: "Mentions",
+  escalation: "Escalations",
+};
+
+interface DigestNotification {
+  user_id: string;
+  complaint_id: string | null;
+  type: string;
+  title: string;
+  body: string | null;
+  created_at: string;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const RESEND_API_KEY = Deno.env.get("RESEND_API_KEY");
+    if (!RESEND_API_KEY) {
+      console.error("RESEND_API_KEY not configured");
+      return new Response(
+        JSON.stringify({ error: "Email service not configured" }),
+        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Only the scheduler (holding the service role key) may trigger a digest run
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: preferences, error: preferencesError } = await supabase
+      .from("notification_preferences")
+      .select("user_id, event_type")
+      .eq("delivery", "digest");
+
+    if (preferencesError) throw preferencesError;
+
+    const digestTypes = new Map<string, Set<string>>();
+    for (const pref of preferences || []) {
+      if (!digestTypes.has(pref.user_id)) digestTypes.set(pref.user_id, new Set());
+      digestTypes.get(pref.user_id)!.add(pref.event_type);
+    }
+
+    if (digestTypes.size === 0) {
+      return new Response(JSON.stringify({ success: true, sent: 0 }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const userIds = Array.from(digestTypes.keys());
+    const since = new Date(Date.now() - DIGEST_WINDOW_MS).toISOString();
+
+    // The in-app notifications already record every event per recipient
+    const { data: notifications, error: notificationsError } = await supabase
+      .from("notifications")
+      .select("user_id, complaint_id, type, title, body, created_at")
+      .in("user_id", userIds)
+      .gte("created_at", since)
+      .order("created_at", { ascending: true });
+
+    if (notificationsError) throw notificationsError;
+
+    const byUser = new Map<string, DigestNotification[]>();
+    for (const n of (notifications || []) as DigestNotification[]) {
+      if (!digestTypes.get(n.user_id)?.has(n.type)) continue;
+      if (!byUser.has(n.user_id)) byUser.set(n.user_id, []);
+      byUser.get(n.user_id)!.push(n);
+    }
+
+    if (byUser.size === 0) {
+      return new Response(JSON.stringify({ success: true, sent: 0 }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("user_id, email, full_name")
+      .in("user_id", Array.from(byUser.keys()));
+
+    const appUrl = Deno.env.get("APP_URL") || "";
+    let sent = 0;
+
+    for (const profile of profiles || []) {
+      const events = byUser.get(profile.user_id) || [];
+      if (events.length === 0) continue;
+
+      const sections = Object.entries(eventLabels)
+        .map(([type, label]) => {
+          const items = events.filter((e) => e.type === type);
+          if (items.length === 0) return "";
+          return `
+            <h3 style="margin: 20px 0 10px 0; color: #374151;">${label} (${items.length})</h3>
+            <ul style="padding-left: 20px; margin: 0;">
+              ${items.map((e) => {
+                const title = escapeHtml(e.title);
+                const link = appUrl && e.complaint_id
+                  ? `<a href="${appUrl}/dashboard/complaints/${e.complaint_id}" style="color: #2563eb;">${title}</a>`
+                  : title;
+                return `<li style="margin-bottom: 8px;">${link}${e.body ? `<br><span style="color: #6b7280;">${escapeHtml(e.body)}</span>` : ""}</li>`;
+              }).join("")}
+            </ul>`;
+        })
+        .join("");
+
+      const htmlContent = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #1f2937;">Hello ${profile.full_name},</h2>
+          <p>Here is a summary of complaint activity from the last 24 hours.</p>
+          <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">${sections}
+          </div>
+          <p>Log in to your dashboard to view more details.</p>
+          <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
+        </div>
+      `;
+
+      const emailResponse = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${RESEND_API_KEY}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: "Complaint System <onboarding@resend.dev>",
+          to: [profile.email],
+          subject: `Your daily complaint digest (${events.length} update${events.length === 1 ? "" : "s"})`,
+          html: htmlContent,
+        }),
+      });
+
+      // Keep going so one failing address does not block everyone else's digest
+      if (!emailResponse.ok) {
+        console.error("Error sending digest to", profile.email, await emailResponse.json());
+        continue;
+      }
+      sent++;
+    }
+
+    console.log(`Sent ${sent} digest email(s)`);
+
+    return new Response(JSON.stringify({ success: true, sent }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (error: unknown) {
+    console.error("Error in send-digest function:", error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+    );
+  }
+};
+
+serve(handler);
@@ -8,13 +8,40 @@ const corsHeaders = {
 };
 
 interface NotificationRequest {
-  type: "status_change" | "priority_change" | "admin_comment";
+  type: "status_change" | "priority_change" | "admin_comment" | "complaint_reopened" | "complaint_merged" | "assignment" | "mention";
   complaintId: string;
   oldValue?: string;
   newValue?: string;
   comment?: string;
+  commentId?: string;
 }
 
+// Preference event each email belongs to (see notification_preferences)
+const eventTypes: Record<NotificationRequest["type"], string> = {
+  status_change: "status_change",
+  priority_change: "priority_change",
+  admin_comment: "comment",
+  complaint_reopened: "status_change",
+  complaint_merged: "status_change",
+  assignment: "assignment",
+  mention: "mention",
+};
+
+// What the caller must be allowed to do on the complaint to send each email;
+// null means only the student who filed it may
+const requiredPermissions: Record<NotificationRequest["type"], string | null> = {
+  status_change: "update_status",
+  priority_change: "update_status",
+  admin_comment: "comment",
+  complaint_reopened: null,
+  complaint_merged: "update_status",
+  assignment: "update_status",
+  mention: "comment",
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -34,12 +61,22 @@ const handler = async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { type, complaintId, oldValue, newValue, comment }: NotificationRequest = await req.json();
+    // Identify the caller from their own session token
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    const { data: { user: caller } } = await supabase.auth.getUser(token);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    const { type, complaintId, oldValue, newValue, comment, commentId }: NotificationRequest = await req.json();
 
     // Fetch complaint details
     const { data: complaint, error: complaintError } = await supabase
       .from("complaints")
-      .select("id, subject, status, priority, user_id")
+      .select("id, subject, status, priority, admin_response, user_id, assigned_to, department_id, is_anonymous, is_confidential, merged_into")
       .eq("id", complaintId)
       .single();
 
@@ -51,6 +88,28 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
+    // Department and confidentiality are checked the same way the database does
+    const hasComplaintPermission = async (userId: string, permission: string) => {
+      const { data } = await supabase.rpc("has_complaint_permission", {
+        _user_id: userId,
+        _complaint_id: complaint.id,
+        _permission: permission,
+      });
+      return data === true;
+    };
+
+    const permission = requiredPermissions[type];
+    const permitted = permission === null
+      ? complaint.user_id === caller.id
+      : permission !== undefined && await hasComplaintPermission(caller.id, permission);
+
+    if (!permitted) {
+      return new Response(
+        JSON.stringify({ error: "You are not allowed to send this notification" }),
+        { status: 403, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
     // Fetch user profile separately
     const { data: profile, error: profileError } = await supabase
       .from("profiles")
@@ -66,11 +125,13 @@ const handler = async (req: Request): Promise<Response> => {
       );
     }
 
-    const studentEmail = profile.email;
     const studentName = profile.full_name;
+    // Admin-facing emails never name a student who filed anonymously
+    const submitterName = complaint.is_anonymous ? "an anonymous student" : studentName;
 
     let emailSubject = "";
     let htmlContent = "";
+    let recipientIds: string[] = [complaint.user_id];
 
     const priorityColors: Record<string, string> = {
       low: "#22c55e",
@@ -79,15 +140,43 @@ const handler = async (req: Request): Promise<Response> => {
       critical: "#ef4444",
     };
 
-    const statusLabels: Record<string, string> = {
-      submitted: "Submitted",
-      in_review: "In Review",
-      resolved: "Resolved",
-    };
+    // Status labels come from the admin-configured workflow
+    const { data: statuses } = await supabase
+      .from("complaint_statuses")
+      .select("key, label, is_final");
+
+    const statusLabels: Record<string, string> = Object.fromEntries(
+      (statuses || []).map((s: { key: string; label: string }) => [s.key, s.label])
+    );
+    const finalStatuses = new Set(
+      (statuses || []).filter((s: { is_final: boolean }) => s.is_final).map((s: { key: string }) => s.key)
+    );
+
+    // Links back to the app (e.g. the satisfaction survey) use the configured URL,
+    // falling back to the origin of the dashboard that triggered the email
+    const appUrl = Deno.env.get("APP_URL") || req.headers.get("origin") || "";
+    const complaintUrl = appUrl ? `${appUrl}/dashboard/complaints/${complaint.id}` : "";
+    const viewButton = complaintUrl
+      ? `
+            <p style="margin: 20px 0;">
+              <a href="${complaintUrl}" style="display: inline-block; padding: 10px 16px; background: #2563eb; color: white; border-radius: 6px; text-decoration: none; font-weight: bold;">View complaint</a>
+            </p>`
+      : "";
 
     switch (type) {
-      case "status_change":
+      case "status_change": {
         emailSubject = `Complaint Status Updated: ${complaint.subject}`;
+        const surveyLinks = finalStatuses.has(newValue || "") && complaintUrl
+          ? `
+            <div style="margin: 20px 0;">
+              <p style="margin: 0 0 10px 0;"><strong>How satisfied are you with the resolution?</strong></p>
+              <p style="margin: 0;">
+                ${[1, 2, 3, 4, 5].map((score) =>
+                  `<a href="${complaintUrl}?rate=${score}" style="display: inline-block; margin-right: 6px; padding: 8px 12px; background: #fef3c7; color: #92400e; border-radius: 6px; text-decoration: none; font-weight: bold;">${"★".repeat(score)}</a>`
+                ).join("")}
+              </p>
+            </div>`
+          : "";
         htmlContent = `
           <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
             <h2 style="color: #1f2937;">Hello ${studentName},</h2>
@@ -96,12 +185,13 @@ const handler = async (req: Request): Promise<Response> => {
               <h3 style="margin: 0 0 10px 0; color: #374151;">Complaint: ${complaint.subject}</h3>
               <p style="margin: 5px 0;"><strong>Previous Status:</strong> ${statusLabels[oldValue || ""] || oldValue}</p>
               <p style="margin: 5px 0;"><strong>New Status:</strong> <span style="color: #2563eb; font-weight: bold;">${statusLabels[newValue || ""] || newValue}</span></p>
-            </div>
+            </div>${surveyLinks}${viewButton}
             <p>Log in to your dashboard to view more details.</p>
             <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
           </div>
         `;
         break;
+      }
 
       case "priority_change":
         emailSubject = `Complaint Priority Updated: ${complaint.subject}`;
@@ -114,7 +204,7 @@ const handler = async (req: Request): Promise<Response> => {
               <h3 style="margin: 0 0 10px 0; color: #374151;">Complaint: ${complaint.subject}</h3>
               <p style="margin: 5px 0;"><strong>Previous Priority:</strong> ${(oldValue || "").charAt(0).toUpperCase() + (oldValue || "").slice(1)}</p>
               <p style="margin: 5px 0;"><strong>New Priority:</strong> <span style="color: ${newPriorityColor}; font-weight: bold;">${(newValue || "").charAt(0).toUpperCase() + (newValue || "").slice(1)}</span></p>
-            </div>
+            </div>${viewButton}
             <p>Log in to your dashboard to view more details.</p>
             <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
           </div>
@@ -132,13 +222,179 @@ const handler = async (req: Request): Promise<Response> => {
               <div style="background: white; padding: 15px; border-left: 4px solid #2563eb; margin-top: 15px;">
                 <p style="margin: 0; color: #374151;">${comment}</p>
               </div>
-            </div>
+            </div>${viewButton}
             <p>Log in to your dashboard to view the full conversation and respond.</p>
             <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
           </div>
         `;
         break;
 
+      case "complaint_reopened": {
+        // The reason and statuses come from the log reopen_complaint wrote, not the request
+        const { data: reopenLog } = await supabase
+          .from("complaint_logs")
+          .select("old_status, new_status, notes")
+          .eq("complaint_id", complaint.id)
+          .eq("action", "Reopened by student")
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (!reopenLog) {
+          return new Response(
+            JSON.stringify({ error: "Complaint has not been reopened" }),
+            { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+          );
+        }
+
+        // Goes to the assignee, or to the department's admins while the complaint is unassigned
+        let adminIds: string[] = complaint.assigned_to ? [complaint.assigned_to] : [];
+        if (adminIds.length === 0) {
+          const { data: roles } = await supabase
+            .from("user_roles")
+            .select("user_id, role")
+            .neq("role", "student");
+          const { data: members } = complaint.department_id
+            ? await supabase
+                .from("department_members")
+                .select("user_id")
+                .eq("department_id", complaint.department_id)
+            : { data: [] };
+
+          // Super admins cover every department, including complaints without one
+          const allowed = new Set((members || []).map((m: { user_id: string }) => m.user_id));
+          (roles || []).forEach((r: { user_id: string; role: string }) => {
+            if (r.role === "super_admin") allowed.add(r.user_id);
+          });
+          adminIds = (roles || [])
+            .filter((r: { user_id: string; role: string }) => r.role === "admin" && allowed.has(r.user_id))
+            .map((r: { user_id: string }) => r.user_id);
+        }
+
+        recipientIds = adminIds;
+
+        emailSubject = `Complaint Reopened: ${complaint.subject}`;
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #1f2937;">Complaint reopened</h2>
+            <p>A complaint that was marked as ${escapeHtml(statusLabels[reopenLog.old_status || ""] || reopenLog.old_status || "")} has been reopened by ${escapeHtml(submitterName)}.</p>
+            <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <h3 style="margin: 0 0 10px 0; color: #374151;">Complaint: ${escapeHtml(complaint.subject)}</h3>
+              <p style="margin: 5px 0;"><strong>New Status:</strong> <span style="color: #2563eb; font-weight: bold;">${escapeHtml(statusLabels[reopenLog.new_status || ""] || reopenLog.new_status || "")}</span></p>
+              <div style="background: white; padding: 15px; border-left: 4px solid #f97316; margin-top: 15px;">
+                <p style="margin: 0; color: #374151;">${escapeHtml(reopenLog.notes || "")}</p>
+              </div>
+            </div>${viewButton}
+            <p>Log in to the admin dashboard to follow up.</p>
+            <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
+          </div>
+        `;
+        break;
+      }
+
+      case "complaint_merged": {
+        if (!complaint.merged_into) {
+          return new Response(
+            JSON.stringify({ error: "Complaint is not merged" }),
+            { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+          );
+        }
+
+        // The primary complaint is someone else's, so its subject isn't shared
+        emailSubject = `Complaint Merged: ${complaint.subject}`;
+        const adminNote = complaint.admin_response
+          ? `
+              <div style="background: white; padding: 15px; border-left: 4px solid #2563eb; margin-top: 15px;">
+                <p style="margin: 0; color: #374151;">${complaint.admin_response}</p>
+              </div>`
+          : "";
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #1f2937;">Hello ${studentName},</h2>
+            <p>Another student reported the same problem, so your complaint has been merged with their report and both are being handled together.</p>
+            <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <h3 style="margin: 0 0 10px 0; color: #374151;">Complaint: ${complaint.subject}</h3>
+              <p style="margin: 5px 0;"><strong>Status:</strong> ${statusLabels[complaint.status] || complaint.status}</p>${adminNote}
+            </div>${viewButton}
+            <p>Your messages and files were passed on. You can follow the progress from your dashboard.</p>
+            <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
+          </div>
+        `;
+        break;
+      }
+
+      case "assignment": {
+        if (!complaint.assigned_to) {
+          return new Response(
+            JSON.stringify({ error: "Complaint is not assigned" }),
+            { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+          );
+        }
+        recipientIds = [complaint.assigned_to];
+
+        emailSubject = `Complaint Assigned to You: ${complaint.subject}`;
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #1f2937;">New assignment</h2>
+            <p>A complaint from ${submitterName} has been assigned to you.</p>
+            <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <h3 style="margin: 0 0 10px 0; color: #374151;">Complaint: ${complaint.subject}</h3>
+              <p style="margin: 5px 0;"><strong>Status:</strong> ${statusLabels[complaint.status] || complaint.status}</p>
+              <p style="margin: 5px 0;"><strong>Priority:</strong> <span style="color: ${priorityColors[complaint.priority] || "#6b7280"}; font-weight: bold;">${complaint.priority.charAt(0).toUpperCase() + complaint.priority.slice(1)}</span></p>
+            </div>${viewButton}
+            <p>Log in to the admin dashboard to follow up.</p>
+            <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
+          </div>
+        `;
+        break;
+      }
+
+      case "mention": {
+        const { data: mentionedComment } = await supabase
+          .from("complaint_comments")
+          .select("content, user_id, is_internal")
+          .eq("id", commentId)
+          .eq("complaint_id", complaint.id)
+          .eq("user_id", caller.id)
+          .maybeSingle();
+        const { data: mentions } = await supabase
+          .from("comment_mentions")
+          .select("mentioned_user_id")
+          .eq("comment_id", commentId);
+
+        recipientIds = (mentions || []).map((m: { mentioned_user_id: string }) => m.mentioned_user_id);
+
+        if (!mentionedComment || recipientIds.length === 0) {
+          return new Response(
+            JSON.stringify({ error: "No mentions to notify" }),
+            { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+          );
+        }
+
+        const { data: author } = await supabase
+          .from("profiles")
+          .select("full_name")
+          .eq("user_id", mentionedComment.user_id)
+          .maybeSingle();
+
+        emailSubject = `You were mentioned: ${complaint.subject}`;
+        htmlContent = `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #1f2937;">You were mentioned</h2>
+            <p>${escapeHtml(author?.full_name || "An admin")} mentioned you in ${mentionedComment.is_internal ? "an internal note" : "a comment"} and would like your input.</p>
+            <div style="background: #f3f4f6; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <h3 style="margin: 0 0 10px 0; color: #374151;">Complaint: ${escapeHtml(complaint.subject)}</h3>
+              <div style="background: white; padding: 15px; border-left: 4px solid #2563eb; margin-top: 15px;">
+                <p style="margin: 0; color: #374151;">${escapeHtml(mentionedComment.content)}</p>
+              </div>
+            </div>${viewButton}
+            <p>Log in to the admin dashboard to reply.</p>
+            <p style="color: #6b7280; margin-top: 30px;">Best regards,<br>The Complaint Management Team</p>
+          </div>
+        `;
+        break;
+      }
+
       default:
         return new Response(
           JSON.stringify({ error: "Invalid notification type" }),
@@ -146,6 +402,52 @@ const handler = async (req: Request): Promise<Response> => {
         );
     }
 
+    // Staff only hear about complaints they may see, confidential ones included,
+    // whichever email this is; the student always may
+    const visibleIds: string[] = [];
+    for (const id of recipientIds) {
+      if (id === complaint.user_id || await hasComplaintPermission(id, "view_complaints")) {
+        visibleIds.push(id);
+      }
+    }
+    recipientIds = visibleIds;
+
+    if (recipientIds.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "No one to notify" }),
+        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+      );
+    }
+
+    // Respect each recipient's delivery preference; users without a stored
+    // preference get the email immediately. Digest events are picked up by send-digest.
+    const { data: preferences } = await supabase
+      .from("notification_preferences")
+      .select("user_id, delivery")
+      .eq("event_type", eventTypes[type])
+      .in("user_id", recipientIds);
+
+    const notImmediate = new Set(
+      (preferences || [])
+        .filter((p: { delivery: string }) => p.delivery !== "immediate")
+        .map((p: { user_id: string }) => p.user_id)
+    );
+    const immediateIds = recipientIds.filter((id) => !notImmediate.has(id));
+
+    if (immediateIds.length === 0) {
+      console.log("All recipients opted out of immediate email for", type);
+      return new Response(JSON.stringify({ success: true, skipped: true }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { data: recipientProfiles } = await supabase
+      .from("profiles")
+      .select("email")
+      .in("user_id", immediateIds);
+    const recipients = (recipientProfiles || []).map((r: { email: string }) => r.email);
+
     // Send email using Resend API directly
     const emailResponse = await fetch("https://api.resend.com/emails", {
       method: "POST",
@@ -155,7 +457,7 @@ const handler = async (req: Request): Promise<Response> => {
       },
       body: JSON.stringify({
         from: "Complaint System <onboarding@resend.dev>",
-        to: [studentEmail],
+        to: recipients,
         subject: emailSubject,
         html: htmlContent,
       }),
@@ -0,0 +1,26 @@
+-- Add assignee columns to complaints
+ALTER TABLE public.complaints
+ADD COLUMN assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN assigned_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_complaints_assigned_to ON public.complaints(assigned_to);
+
+-- Students may not pick an assignee when filing a complaint
+DROP POLICY "Students can insert their own complaints" ON public.complaints;
+
+CREATE POLICY "Students can insert their own complaints"
+ON public.complaints FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND assigned_to IS NULL);
+
+-- Admins can only assign complaints to other admins
+DROP POLICY "Admins can update any complaint" ON public.complaints;
+
+CREATE POLICY "Admins can update any complaint"
+ON public.complaints FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND (assigned_to IS NULL OR public.has_role(assigned_to, 'admin'))
+);
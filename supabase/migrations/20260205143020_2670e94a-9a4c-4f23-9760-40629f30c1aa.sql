@@ -0,0 +1,168 @@
+-- Create complaint_statuses table so the workflow can be configured by admins
+CREATE TABLE public.complaint_statuses (
+    key TEXT PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+    label TEXT NOT NULL,
+    description TEXT,
+    color TEXT NOT NULL DEFAULT 'gray',
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_initial BOOLEAN NOT NULL DEFAULT false,
+    is_final BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Exactly one status is used for newly filed complaints
+CREATE UNIQUE INDEX idx_complaint_statuses_initial ON public.complaint_statuses(is_initial) WHERE is_initial;
+
+-- Create complaint_status_transitions table listing the allowed status moves
+CREATE TABLE public.complaint_status_transitions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    from_status TEXT NOT NULL REFERENCES public.complaint_statuses(key) ON DELETE CASCADE,
+    to_status TEXT NOT NULL REFERENCES public.complaint_statuses(key) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (from_status, to_status),
+    CHECK (from_status <> to_status)
+);
+
+-- Insert default statuses
+INSERT INTO public.complaint_statuses (key, label, description, color, sort_order, is_initial, is_final) VALUES
+    ('submitted', 'Submitted', 'Waiting to be picked up by an administrator', 'gray', 10, true, false),
+    ('in_review', 'In Review', 'An administrator is working on the complaint', 'amber', 20, false, false),
+    ('awaiting_student', 'Awaiting Student Reply', 'More information is needed from the student', 'purple', 30, false, false),
+    ('on_hold', 'On Hold', 'Work is paused, e.g. waiting on another office', 'orange', 40, false, false),
+    ('reopened', 'Reopened', 'The complaint was reopened after being resolved', 'blue', 50, false, false),
+    ('resolved', 'Resolved', 'The issue has been addressed', 'green', 60, false, true),
+    ('rejected', 'Rejected', 'The complaint was declined', 'red', 70, false, true),
+    ('closed', 'Closed', 'No further action will be taken', 'gray', 80, false, true);
+
+-- Insert default transitions
+INSERT INTO public.complaint_status_transitions (from_status, to_status) VALUES
+    ('submitted', 'in_review'),
+    ('submitted', 'awaiting_student'),
+    ('submitted', 'resolved'),
+    ('submitted', 'rejected'),
+    ('in_review', 'submitted'),
+    ('in_review', 'awaiting_student'),
+    ('in_review', 'on_hold'),
+    ('in_review', 'resolved'),
+    ('in_review', 'rejected'),
+    ('awaiting_student', 'in_review'),
+    ('awaiting_student', 'on_hold'),
+    ('awaiting_student', 'resolved'),
+    ('awaiting_student', 'closed'),
+    ('on_hold', 'in_review'),
+    ('on_hold', 'awaiting_student'),
+    ('on_hold', 'rejected'),
+    ('reopened', 'in_review'),
+    ('reopened', 'awaiting_student'),
+    ('reopened', 'resolved'),
+    ('resolved', 'reopened'),
+    ('resolved', 'closed'),
+    ('rejected', 'reopened'),
+    ('rejected', 'closed');
+
+-- Move complaints and logs from the complaint_status enum to the statuses table
+ALTER TABLE public.complaints ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.complaints ALTER COLUMN status TYPE TEXT USING status::text;
+ALTER TABLE public.complaints ALTER COLUMN status SET DEFAULT 'submitted';
+ALTER TABLE public.complaints
+ADD CONSTRAINT complaints_status_fkey FOREIGN KEY (status) REFERENCES public.complaint_statuses(key);
+
+CREATE INDEX idx_complaints_status ON public.complaints(status);
+
+ALTER TABLE public.complaint_logs
+ALTER COLUMN old_status TYPE TEXT USING old_status::text,
+ALTER COLUMN new_status TYPE TEXT USING new_status::text;
+
+DROP TYPE public.complaint_status;
+
+-- Enable RLS
+ALTER TABLE public.complaint_statuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.complaint_status_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Statuses policies: everyone reads, admins manage
+CREATE POLICY "Anyone can view complaint statuses"
+ON public.complaint_statuses FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert complaint statuses"
+ON public.complaint_statuses FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update complaint statuses"
+ON public.complaint_statuses FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete complaint statuses"
+ON public.complaint_statuses FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Transitions policies: everyone reads, admins manage
+CREATE POLICY "Anyone can view status transitions"
+ON public.complaint_status_transitions FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can insert status transitions"
+ON public.complaint_status_transitions FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete status transitions"
+ON public.complaint_status_transitions FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Enforce the workflow: new complaints start in the initial status, updates
+-- must follow a configured transition, and resolved_at follows final statuses
+CREATE OR REPLACE FUNCTION public.enforce_complaint_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    _is_final BOOLEAN;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        SELECT key INTO NEW.status
+        FROM public.complaint_statuses
+        WHERE is_initial;
+
+        IF NEW.status IS NULL THEN
+            RAISE EXCEPTION 'No initial complaint status is configured';
+        END IF;
+
+        NEW.resolved_at = NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT EXISTS (
+            SELECT 1
+            FROM public.complaint_status_transitions
+            WHERE from_status = OLD.status
+              AND to_status = NEW.status
+        ) THEN
+            RAISE EXCEPTION 'Status transition from "%" to "%" is not allowed', OLD.status, NEW.status
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        SELECT is_final INTO _is_final
+        FROM public.complaint_statuses
+        WHERE key = NEW.status;
+
+        IF _is_final THEN
+            NEW.resolved_at = COALESCE(OLD.resolved_at, now());
+        ELSE
+            NEW.resolved_at = NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_complaint_status
+    BEFORE INSERT OR UPDATE OF status ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.enforce_complaint_status();
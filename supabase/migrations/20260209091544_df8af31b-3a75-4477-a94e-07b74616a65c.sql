@@ -0,0 +1,137 @@
+-- Create sla_policies table with response and resolution targets
+CREATE TABLE public.sla_policies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    priority complaint_priority NOT NULL,
+    first_response_hours INTEGER NOT NULL CHECK (first_response_hours > 0),
+    resolution_hours INTEGER NOT NULL CHECK (resolution_hours > 0),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (resolution_hours >= first_response_hours),
+    UNIQUE NULLS NOT DISTINCT (category_id, priority)
+);
+
+-- Default policies apply to every category (category_id is NULL)
+INSERT INTO public.sla_policies (category_id, priority, first_response_hours, resolution_hours) VALUES
+    (NULL, 'critical', 2, 24),
+    (NULL, 'high', 8, 72),
+    (NULL, 'medium', 24, 120),
+    (NULL, 'low', 48, 240);
+
+-- Enable RLS
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view SLA policies"
+ON public.sla_policies FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert SLA policies"
+ON public.sla_policies FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update SLA policies"
+ON public.sla_policies FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete SLA policies"
+ON public.sla_policies FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sla_policies_updated_at
+    BEFORE UPDATE ON public.sla_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Add SLA tracking columns to complaints
+ALTER TABLE public.complaints
+ADD COLUMN first_response_due_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN resolution_due_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN first_responded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_complaints_resolution_due_at ON public.complaints(resolution_due_at);
+
+-- Compute due dates from the most specific policy (category match wins over the
+-- catch-all policy) and record the first admin response
+CREATE OR REPLACE FUNCTION public.apply_complaint_sla()
+RETURNS TRIGGER AS $$
+DECLARE
+    _policy public.sla_policies%ROWTYPE;
+BEGIN
+    IF TG_OP = 'INSERT'
+       OR NEW.priority IS DISTINCT FROM OLD.priority
+       OR NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        SELECT * INTO _policy
+        FROM public.sla_policies
+        WHERE priority = NEW.priority
+          AND (category_id = NEW.category_id OR category_id IS NULL)
+        ORDER BY category_id NULLS LAST
+        LIMIT 1;
+
+        NEW.first_response_due_at = NEW.created_at + make_interval(hours => _policy.first_response_hours);
+        NEW.resolution_due_at = NEW.created_at + make_interval(hours => _policy.resolution_hours);
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.first_responded_at = NULL;
+    ELSIF NEW.first_responded_at IS NULL AND (
+        NEW.status IS DISTINCT FROM OLD.status
+        OR (NEW.admin_response IS NOT NULL AND NEW.admin_response IS DISTINCT FROM OLD.admin_response)
+    ) THEN
+        NEW.first_responded_at = now();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER apply_complaint_sla
+    BEFORE INSERT OR UPDATE ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.apply_complaint_sla();
+
+-- An admin comment also counts as the first response
+CREATE OR REPLACE FUNCTION public.mark_complaint_first_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_admin THEN
+        UPDATE public.complaints
+        SET first_responded_at = NEW.created_at
+        WHERE id = NEW.complaint_id
+          AND first_responded_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER mark_complaint_first_response
+    AFTER INSERT ON public.complaint_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.mark_complaint_first_response();
+
+-- Backfill due dates for existing complaints without touching updated_at,
+-- picking the policy the same way apply_complaint_sla does
+ALTER TABLE public.complaints DISABLE TRIGGER update_complaints_updated_at;
+
+UPDATE public.complaints c
+SET first_response_due_at = c.created_at + make_interval(hours => p.first_response_hours),
+    resolution_due_at = c.created_at + make_interval(hours => p.resolution_hours),
+    first_responded_at = COALESCE(
+        (SELECT min(cc.created_at) FROM public.complaint_comments cc WHERE cc.complaint_id = c.id AND cc.is_admin),
+        CASE WHEN c.status <> 'submitted' THEN c.updated_at END
+    )
+FROM (
+    SELECT DISTINCT ON (x.id) x.id, sp.first_response_hours, sp.resolution_hours
+    FROM public.complaints x
+    JOIN public.sla_policies sp
+      ON sp.priority = x.priority
+     AND (sp.category_id = x.category_id OR sp.category_id IS NULL)
+    ORDER BY x.id, sp.category_id NULLS LAST
+) p
+WHERE p.id = c.id;
+
+ALTER TABLE public.complaints ENABLE TRIGGER update_complaints_updated_at;
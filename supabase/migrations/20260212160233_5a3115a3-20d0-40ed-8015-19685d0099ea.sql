@@ -0,0 +1,6 @@
+-- Stream complaint and comment changes to connected dashboards
+ALTER TABLE public.complaints REPLICA IDENTITY FULL;
+ALTER TABLE public.complaint_comments REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaints;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaint_comments;
@@ -0,0 +1,105 @@
+-- Create app_settings table for admin-configurable, app-wide values
+CREATE TABLE public.app_settings (
+    key TEXT PRIMARY KEY,
+    value JSONB NOT NULL,
+    description TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.app_settings (key, value, description) VALUES
+    ('reopen_window_days', '14', 'Days after resolution during which a student may reopen a complaint (0 disables reopening)'),
+    ('reopen_status', '"reopened"', 'Status a complaint moves to when a student reopens it');
+
+-- Enable RLS
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view app settings"
+ON public.app_settings FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update app settings"
+ON public.app_settings FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_app_settings_updated_at
+    BEFORE UPDATE ON public.app_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Students cannot update complaints directly, so reopening goes through this
+-- function: it checks ownership and the reopen window, then moves the complaint
+-- along the configured transition (which clears resolved_at) and logs the reason
+CREATE OR REPLACE FUNCTION public.reopen_complaint(_complaint_id UUID, _reason TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _window_days INTEGER;
+    _target TEXT;
+    _reason_clean TEXT := btrim(_reason);
+BEGIN
+    IF _reason_clean IS NULL OR _reason_clean = '' THEN
+        RAISE EXCEPTION 'A reason is required to reopen a complaint'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF length(_reason_clean) > 2000 THEN
+        RAISE EXCEPTION 'Reason must be less than 2000 characters'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO _complaint
+    FROM public.complaints
+    WHERE id = _complaint_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Complaint not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    SELECT (value #>> '{}')::INTEGER INTO _window_days
+    FROM public.app_settings
+    WHERE key = 'reopen_window_days';
+
+    SELECT value #>> '{}' INTO _target
+    FROM public.app_settings
+    WHERE key = 'reopen_status';
+
+    IF COALESCE(_window_days, 0) <= 0 OR _target IS NULL THEN
+        RAISE EXCEPTION 'Reopening complaints is disabled'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _complaint.resolved_at IS NULL
+       OR NOT EXISTS (
+           SELECT 1
+           FROM public.complaint_status_transitions
+           WHERE from_status = _complaint.status
+             AND to_status = _target
+       ) THEN
+        RAISE EXCEPTION 'This complaint cannot be reopened'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _complaint.resolved_at < now() - make_interval(days => _window_days) THEN
+        RAISE EXCEPTION 'The reopen window of % days has passed', _window_days
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE public.complaints
+    SET status = _target
+    WHERE id = _complaint_id;
+
+    INSERT INTO public.complaint_logs (complaint_id, action, old_status, new_status, notes, performed_by)
+    VALUES (_complaint_id, 'Reopened by student', _complaint.status, _target, _reason_clean, auth.uid());
+
+    -- Surface the reason in the conversation so admins see it in context
+    INSERT INTO public.complaint_comments (complaint_id, user_id, content, is_admin)
+    VALUES (_complaint_id, auth.uid(), 'Reopened: ' || _reason_clean, false);
+
+    RETURN _target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
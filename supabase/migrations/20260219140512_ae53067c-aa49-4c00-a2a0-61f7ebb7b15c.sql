@@ -0,0 +1,58 @@
+-- Create complaint_ratings table for post-resolution satisfaction (CSAT) surveys
+CREATE TABLE public.complaint_ratings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    complaint_id UUID NOT NULL UNIQUE REFERENCES public.complaints(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+    comment TEXT CHECK (char_length(comment) <= 1000),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_ratings_created_at ON public.complaint_ratings(created_at);
+
+-- Enable RLS
+ALTER TABLE public.complaint_ratings ENABLE ROW LEVEL SECURITY;
+
+-- Students rate their own complaints once they have reached a final status
+CREATE POLICY "Students can view their own ratings"
+ON public.complaint_ratings FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Students can rate their resolved complaints"
+ON public.complaint_ratings FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE id = complaint_id
+          AND user_id = auth.uid()
+          AND resolved_at IS NOT NULL
+    )
+);
+
+CREATE POLICY "Students can update their ratings"
+ON public.complaint_ratings FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE id = complaint_id
+          AND user_id = auth.uid()
+          AND resolved_at IS NOT NULL
+    )
+);
+
+CREATE POLICY "Admins can view all ratings"
+ON public.complaint_ratings FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_complaint_ratings_updated_at
+    BEFORE UPDATE ON public.complaint_ratings
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,104 @@
+-- Create complaint_attachments table so complaints and comments can carry several files
+CREATE TABLE public.complaint_attachments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+    comment_id UUID REFERENCES public.complaint_comments(id) ON DELETE CASCADE,
+    uploaded_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    storage_path TEXT NOT NULL UNIQUE,
+    file_name TEXT NOT NULL,
+    mime_type TEXT,
+    size_bytes BIGINT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_complaint_attachments_complaint_id ON public.complaint_attachments(complaint_id);
+CREATE INDEX idx_complaint_attachments_comment_id ON public.complaint_attachments(comment_id);
+
+-- Move existing single attachments over, keeping the stored file metadata
+INSERT INTO public.complaint_attachments (complaint_id, uploaded_by, storage_path, file_name, mime_type, size_bytes, created_at)
+SELECT
+    c.id,
+    c.user_id,
+    c.attachment_url,
+    regexp_replace(c.attachment_url, '^.*/', ''),
+    o.metadata->>'mimetype',
+    (o.metadata->>'size')::BIGINT,
+    c.created_at
+FROM public.complaints c
+LEFT JOIN storage.objects o
+    ON o.bucket_id = 'complaint-attachments'
+   AND o.name = c.attachment_url
+WHERE c.attachment_url IS NOT NULL;
+
+ALTER TABLE public.complaints DROP COLUMN attachment_url;
+
+-- Enable RLS
+ALTER TABLE public.complaint_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view all attachments"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Students can view attachments on their complaints"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_attachments.complaint_id
+        AND complaints.user_id = auth.uid()
+    )
+);
+
+-- Uploaders register files from their own storage folder, on a complaint they
+-- can work on, and only on comments they wrote themselves
+CREATE POLICY "Users can add attachments to their complaints"
+ON public.complaint_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+    uploaded_by = auth.uid()
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND (
+        public.has_role(auth.uid(), 'admin')
+        OR EXISTS (
+            SELECT 1 FROM public.complaints
+            WHERE complaints.id = complaint_attachments.complaint_id
+            AND complaints.user_id = auth.uid()
+        )
+    )
+    AND (
+        comment_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM public.complaint_comments
+            WHERE complaint_comments.id = complaint_attachments.comment_id
+            AND complaint_comments.complaint_id = complaint_attachments.complaint_id
+            AND complaint_comments.user_id = auth.uid()
+        )
+    )
+);
+
+CREATE POLICY "Users can delete their own attachments"
+ON public.complaint_attachments FOR DELETE
+TO authenticated
+USING (uploaded_by = auth.uid());
+
+-- Files admins send back live in the admin's folder, so students need access
+-- to every file attached to their complaints, not just their own uploads
+CREATE POLICY "Students can view attachments on their complaints"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'complaint-attachments'
+    AND EXISTS (
+        SELECT 1
+        FROM public.complaint_attachments a
+        JOIN public.complaints c ON c.id = a.complaint_id
+        WHERE a.storage_path = storage.objects.name
+        AND c.user_id = auth.uid()
+    )
+);
+
+-- Stream new attachments to open complaint dialogs
+ALTER TABLE public.complaint_attachments REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.complaint_attachments;
@@ -0,0 +1,155 @@
+-- Create notifications table for the in-app notification center
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE,
+    type TEXT NOT NULL CHECK (type IN ('status_change', 'priority_change', 'comment', 'assignment')),
+    title TEXT NOT NULL,
+    body TEXT,
+    actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications(user_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- Enable RLS
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Users manage their own notifications; entries are only written by the triggers below
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Writes a notification unless there is no recipient or the recipient caused the event
+CREATE OR REPLACE FUNCTION public.create_notification(
+    _user_id UUID,
+    _complaint_id UUID,
+    _type TEXT,
+    _title TEXT,
+    _body TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF _user_id IS NULL OR _user_id = auth.uid() THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, complaint_id, type, title, body, actor_id)
+    VALUES (_user_id, _complaint_id, _type, _title, _body, auth.uid());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the triggers may create notifications, never clients through the API
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Status, priority and assignment changes
+CREATE OR REPLACE FUNCTION public.notify_complaint_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    _label TEXT;
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        SELECT label INTO _label
+        FROM public.complaint_statuses
+        WHERE key = NEW.status;
+
+        PERFORM public.create_notification(
+            NEW.user_id, NEW.id, 'status_change',
+            'Status updated: ' || NEW.subject,
+            'Your complaint is now ' || COALESCE(_label, NEW.status)
+        );
+
+        PERFORM public.create_notification(
+            NEW.assigned_to, NEW.id, 'status_change',
+            'Status updated: ' || NEW.subject,
+            'Moved to ' || COALESCE(_label, NEW.status)
+        );
+    END IF;
+
+    IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+        PERFORM public.create_notification(
+            NEW.user_id, NEW.id, 'priority_change',
+            'Priority updated: ' || NEW.subject,
+            'Priority changed from ' || OLD.priority || ' to ' || NEW.priority
+        );
+    END IF;
+
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+        PERFORM public.create_notification(
+            NEW.assigned_to, NEW.id, 'assignment',
+            'Assigned to you: ' || NEW.subject,
+            NULL
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_complaint_changes
+    AFTER UPDATE ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_complaint_changes();
+
+-- New comments go to the student (admin replies) or to the assignee, falling
+-- back to every admin while the complaint is unassigned (student messages)
+CREATE OR REPLACE FUNCTION public.notify_complaint_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _admin_id UUID;
+    _preview TEXT := left(NEW.content, 140);
+BEGIN
+    SELECT * INTO _complaint
+    FROM public.complaints
+    WHERE id = NEW.complaint_id;
+
+    IF NEW.is_admin THEN
+        PERFORM public.create_notification(
+            _complaint.user_id, _complaint.id, 'comment',
+            'New reply on: ' || _complaint.subject,
+            _preview
+        );
+    ELSIF _complaint.assigned_to IS NOT NULL THEN
+        PERFORM public.create_notification(
+            _complaint.assigned_to, _complaint.id, 'comment',
+            'New message on: ' || _complaint.subject,
+            _preview
+        );
+    ELSE
+        FOR _admin_id IN
+            SELECT user_id FROM public.user_roles WHERE role = 'admin'
+        LOOP
+            PERFORM public.create_notification(
+                _admin_id, _complaint.id, 'comment',
+                'New message on: ' || _complaint.subject,
+                _preview
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_complaint_comment
+    AFTER INSERT ON public.complaint_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_complaint_comment();
+
+-- Stream new notifications to the bell
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,79 @@
+-- Admin complaint list: filtering, sorting and paging happen in the database.
+-- The function only adds what the admin table needs on top of complaints (student,
+-- category, attachment count and sort keys); status/priority/category/assignee
+-- filters, ordering, ranges and counts are applied by PostgREST on the result.
+CREATE OR REPLACE FUNCTION public.list_admin_complaints(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    subject TEXT,
+    description TEXT,
+    status TEXT,
+    priority complaint_priority,
+    admin_response TEXT,
+    category_id UUID,
+    category_name TEXT,
+    user_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    assigned_to UUID,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    first_response_due_at TIMESTAMP WITH TIME ZONE,
+    first_responded_at TIMESTAMP WITH TIME ZONE,
+    resolution_due_at TIMESTAMP WITH TIME ZONE,
+    priority_rank INTEGER,
+    sla_due_at TIMESTAMP WITH TIME ZONE,
+    attachment_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.subject,
+        c.description,
+        c.status,
+        c.priority,
+        c.admin_response,
+        c.category_id,
+        cat.name,
+        c.user_id,
+        p.full_name,
+        p.email,
+        c.assigned_to,
+        c.assigned_at,
+        c.created_at,
+        c.updated_at,
+        c.resolved_at,
+        c.first_response_due_at,
+        c.first_responded_at,
+        c.resolution_due_at,
+        CASE c.priority
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            ELSE 1
+        END,
+        -- The deadline that currently matters: first response until answered, then resolution
+        CASE
+            WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL THEN c.first_response_due_at
+            ELSE c.resolution_due_at
+        END,
+        (SELECT count(*)::INTEGER FROM public.complaint_attachments a WHERE a.complaint_id = c.id)
+    FROM public.complaints c
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE _search IS NULL
+       OR btrim(_search) = ''
+       OR c.subject ILIKE '%' || btrim(_search) || '%'
+       OR c.description ILIKE '%' || btrim(_search) || '%'
+       OR p.full_name ILIKE '%' || btrim(_search) || '%'
+       OR p.email ILIKE '%' || btrim(_search) || '%';
+$$;
+
+-- Indexes for the list's sort orders
+CREATE INDEX idx_complaints_created_at ON public.complaints(created_at DESC);
+CREATE INDEX idx_complaints_updated_at ON public.complaints(updated_at DESC);
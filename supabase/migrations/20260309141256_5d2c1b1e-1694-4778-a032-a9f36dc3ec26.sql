@@ -0,0 +1,165 @@
+-- Full-text search over complaints (subject, description, admin response) and their comments
+ALTER TABLE public.complaints
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(subject, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(admin_response, '')), 'C')
+) STORED;
+
+ALTER TABLE public.complaint_comments
+ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(content, ''))
+) STORED;
+
+CREATE INDEX idx_complaints_search_vector ON public.complaints USING GIN(search_vector);
+CREATE INDEX idx_complaint_comments_search_vector ON public.complaint_comments USING GIN(search_vector);
+
+-- Ranked search for the admin command palette. Each complaint appears once, with
+-- its best match (the complaint itself or one of its comments) and a highlighted
+-- snippet. Matches are wrapped in chr(2)/chr(3) rather than HTML so the client can
+-- highlight them without rendering user content as markup.
+CREATE OR REPLACE FUNCTION public.search_complaints(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    complaint_id UUID,
+    subject TEXT,
+    status TEXT,
+    priority complaint_priority,
+    student_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    match_source TEXT,
+    comment_id UUID,
+    rank REAL,
+    headline TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english', _query) AS query
+    ),
+    hits AS (
+        SELECT c.id AS complaint_id, 'complaint' AS match_source, NULL::UUID AS comment_id,
+               ts_rank(c.search_vector, q.query) AS rank
+        FROM public.complaints c, q
+        WHERE c.search_vector @@ q.query
+        UNION ALL
+        -- Comment matches count a little less than matches on the complaint itself
+        SELECT cc.complaint_id, 'comment', cc.id, ts_rank(cc.search_vector, q.query) * 0.8
+        FROM public.complaint_comments cc, q
+        WHERE cc.search_vector @@ q.query
+    ),
+    best AS (
+        SELECT DISTINCT ON (complaint_id) *
+        FROM hits
+        ORDER BY complaint_id, rank DESC
+    ),
+    top AS (
+        SELECT * FROM best
+        ORDER BY rank DESC
+        LIMIT least(greatest(_limit, 1), 50)
+    )
+    SELECT
+        c.id,
+        c.subject,
+        c.status,
+        c.priority,
+        p.full_name,
+        c.created_at,
+        t.match_source,
+        t.comment_id,
+        t.rank,
+        ts_headline(
+            'english',
+            CASE
+                WHEN t.comment_id IS NOT NULL THEN cc.content
+                ELSE concat_ws(' … ', c.subject, c.description, c.admin_response)
+            END,
+            q.query,
+            format('StartSel=%s, StopSel=%s, MaxWords=25, MinWords=8, MaxFragments=2', chr(2), chr(3))
+        )
+    FROM top t
+    CROSS JOIN q
+    JOIN public.complaints c ON c.id = t.complaint_id
+    LEFT JOIN public.complaint_comments cc ON cc.id = t.comment_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    ORDER BY t.rank DESC, c.created_at DESC;
+$$;
+
+-- The admin list search also matches admin responses and comments now
+CREATE OR REPLACE FUNCTION public.list_admin_complaints(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    subject TEXT,
+    description TEXT,
+    status TEXT,
+    priority complaint_priority,
+    admin_response TEXT,
+    category_id UUID,
+    category_name TEXT,
+    user_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    assigned_to UUID,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    first_response_due_at TIMESTAMP WITH TIME ZONE,
+    first_responded_at TIMESTAMP WITH TIME ZONE,
+    resolution_due_at TIMESTAMP WITH TIME ZONE,
+    priority_rank INTEGER,
+    sla_due_at TIMESTAMP WITH TIME ZONE,
+    attachment_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.subject,
+        c.description,
+        c.status,
+        c.priority,
+        c.admin_response,
+        c.category_id,
+        cat.name,
+        c.user_id,
+        p.full_name,
+        p.email,
+        c.assigned_to,
+        c.assigned_at,
+        c.created_at,
+        c.updated_at,
+        c.resolved_at,
+        c.first_response_due_at,
+        c.first_responded_at,
+        c.resolution_due_at,
+        CASE c.priority
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            ELSE 1
+        END,
+        -- The deadline that currently matters: first response until answered, then resolution
+        CASE
+            WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL THEN c.first_response_due_at
+            ELSE c.resolution_due_at
+        END,
+        (SELECT count(*)::INTEGER FROM public.complaint_attachments a WHERE a.complaint_id = c.id)
+    FROM public.complaints c
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE _search IS NULL
+       OR btrim(_search) = ''
+       OR c.subject ILIKE '%' || btrim(_search) || '%'
+       OR p.full_name ILIKE '%' || btrim(_search) || '%'
+       OR p.email ILIKE '%' || btrim(_search) || '%'
+       OR c.search_vector @@ websearch_to_tsquery('english', _search)
+       OR EXISTS (
+           SELECT 1 FROM public.complaint_comments cc
+           WHERE cc.complaint_id = c.id
+             AND cc.search_vector @@ websearch_to_tsquery('english', _search)
+       );
+$$;
@@ -0,0 +1,48 @@
+-- Create saved_views table: named filter + sort combinations for the admin complaint list
+CREATE TABLE public.saved_views (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
+    filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    is_shared BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- At most one default view per admin
+CREATE UNIQUE INDEX idx_saved_views_default ON public.saved_views(user_id) WHERE is_default;
+CREATE INDEX idx_saved_views_user_id ON public.saved_views(user_id);
+
+-- Enable RLS
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+-- Admins see their own views and the ones other admins shared
+CREATE POLICY "Admins can view their own and shared views"
+ON public.saved_views FOR SELECT
+TO authenticated
+USING (
+    public.has_role(auth.uid(), 'admin')
+    AND (auth.uid() = user_id OR is_shared)
+);
+
+CREATE POLICY "Admins can create their own views"
+ON public.saved_views FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update their own views"
+ON public.saved_views FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'))
+WITH CHECK (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete their own views"
+ON public.saved_views FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id AND public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_saved_views_updated_at
+    BEFORE UPDATE ON public.saved_views
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,4 @@
+-- Super admins are admins who are not limited to a department. The enum value is
+-- added on its own so the next migration can use it (new enum values cannot be
+-- used in the transaction that adds them).
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'super_admin';
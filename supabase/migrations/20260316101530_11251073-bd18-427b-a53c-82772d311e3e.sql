@@ -0,0 +1,377 @@
+-- Create departments table: the offices that handle complaints
+CREATE TABLE public.departments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Admins working for each department (an admin may belong to several)
+CREATE TABLE public.department_members (
+    department_id UUID NOT NULL REFERENCES public.departments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (department_id, user_id)
+);
+
+CREATE INDEX idx_department_members_user_id ON public.department_members(user_id);
+
+-- Categories belong to the department that handles them; complaints are routed accordingly
+ALTER TABLE public.categories
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+ALTER TABLE public.complaints
+ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_complaints_department_id ON public.complaints(department_id);
+
+CREATE TRIGGER update_departments_updated_at
+    BEFORE UPDATE ON public.departments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every existing admin keeps seeing everything until departments are set up
+INSERT INTO public.user_roles (user_id, role)
+SELECT user_id, 'super_admin'
+FROM public.user_roles
+WHERE role = 'admin'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- Whether a user may work on complaints of a department. Super admins see every
+-- department; complaints without a department are left to them for triage.
+CREATE OR REPLACE FUNCTION public.can_manage_department(_user_id UUID, _department_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.has_role(_user_id, 'admin')
+       AND (
+           public.has_role(_user_id, 'super_admin')
+           OR EXISTS (
+               SELECT 1
+               FROM public.department_members
+               WHERE user_id = _user_id
+                 AND department_id = _department_id
+           )
+       )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_manage_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT public.can_manage_department(_user_id, department_id)
+        FROM public.complaints
+        WHERE id = _complaint_id
+    ), false)
+$$;
+
+-- Route complaints to the department owning their category
+CREATE OR REPLACE FUNCTION public.route_complaint_to_department()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        SELECT department_id INTO NEW.department_id
+        FROM public.categories
+        WHERE id = NEW.category_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER route_complaint_to_department
+    BEFORE INSERT OR UPDATE OF category_id ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.route_complaint_to_department();
+
+-- Moving a category to another department moves its complaints along
+CREATE OR REPLACE FUNCTION public.reroute_category_complaints()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.complaints
+    SET department_id = NEW.department_id
+    WHERE category_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reroute_category_complaints
+    AFTER UPDATE OF department_id ON public.categories
+    FOR EACH ROW
+    WHEN (NEW.department_id IS DISTINCT FROM OLD.department_id)
+    EXECUTE FUNCTION public.reroute_category_complaints();
+
+-- Enable RLS
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.department_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view departments"
+ON public.departments FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Super admins can insert departments"
+ON public.departments FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Super admins can update departments"
+ON public.departments FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Super admins can delete departments"
+ON public.departments FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'super_admin'));
+
+CREATE POLICY "Admins can view department members"
+ON public.department_members FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Super admins can add department members"
+ON public.department_members FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'super_admin') AND public.has_role(user_id, 'admin'));
+
+CREATE POLICY "Super admins can remove department members"
+ON public.department_members FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'super_admin'));
+
+-- Scope admin access to complaints and everything hanging off them by department
+DROP POLICY "Admins can view all complaints" ON public.complaints;
+
+CREATE POLICY "Admins can view complaints of their departments"
+ON public.complaints FOR SELECT
+TO authenticated
+USING (public.can_manage_department(auth.uid(), department_id));
+
+DROP POLICY "Admins can update any complaint" ON public.complaints;
+
+CREATE POLICY "Admins can update complaints of their departments"
+ON public.complaints FOR UPDATE
+TO authenticated
+USING (public.can_manage_department(auth.uid(), department_id))
+WITH CHECK (
+    public.can_manage_department(auth.uid(), department_id)
+    AND (assigned_to IS NULL OR public.can_manage_department(assigned_to, department_id))
+);
+
+DROP POLICY "Admins can view all logs" ON public.complaint_logs;
+
+CREATE POLICY "Admins can view logs of their departments"
+ON public.complaint_logs FOR SELECT
+TO authenticated
+USING (public.can_manage_complaint(auth.uid(), complaint_id));
+
+DROP POLICY "Admins can insert logs" ON public.complaint_logs;
+
+CREATE POLICY "Admins can insert logs for their departments"
+ON public.complaint_logs FOR INSERT
+TO authenticated
+WITH CHECK (public.can_manage_complaint(auth.uid(), complaint_id));
+
+DROP POLICY "Admins can view all comments" ON public.complaint_comments;
+
+CREATE POLICY "Admins can view comments of their departments"
+ON public.complaint_comments FOR SELECT
+TO authenticated
+USING (public.can_manage_complaint(auth.uid(), complaint_id));
+
+DROP POLICY "Admins can insert comments" ON public.complaint_comments;
+
+CREATE POLICY "Admins can comment on complaints of their departments"
+ON public.complaint_comments FOR INSERT
+TO authenticated
+WITH CHECK (public.can_manage_complaint(auth.uid(), complaint_id));
+
+DROP POLICY "Admins can view all ratings" ON public.complaint_ratings;
+
+CREATE POLICY "Admins can view ratings of their departments"
+ON public.complaint_ratings FOR SELECT
+TO authenticated
+USING (public.can_manage_complaint(auth.uid(), complaint_id));
+
+DROP POLICY "Admins can view all attachments" ON public.complaint_attachments;
+
+CREATE POLICY "Admins can view attachments of their departments"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (public.can_manage_complaint(auth.uid(), complaint_id));
+
+DROP POLICY "Users can add attachments to their complaints" ON public.complaint_attachments;
+
+CREATE POLICY "Users can add attachments to their complaints"
+ON public.complaint_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+    uploaded_by = auth.uid()
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND (
+        public.can_manage_complaint(auth.uid(), complaint_id)
+        OR EXISTS (
+            SELECT 1 FROM public.complaints
+            WHERE complaints.id = complaint_attachments.complaint_id
+            AND complaints.user_id = auth.uid()
+        )
+    )
+    AND (
+        comment_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM public.complaint_comments
+            WHERE complaint_comments.id = complaint_attachments.comment_id
+            AND complaint_comments.complaint_id = complaint_attachments.complaint_id
+            AND complaint_comments.user_id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY "Admins can view all attachments" ON storage.objects;
+
+CREATE POLICY "Admins can view attachments of their departments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'complaint-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.complaint_attachments
+    WHERE complaint_attachments.storage_path = storage.objects.name
+    AND public.can_manage_complaint(auth.uid(), complaint_attachments.complaint_id)
+  )
+);
+
+-- Unassigned student messages go to the admins of the complaint's department
+CREATE OR REPLACE FUNCTION public.notify_complaint_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _admin_id UUID;
+    _preview TEXT := left(NEW.content, 140);
+BEGIN
+    SELECT * INTO _complaint
+    FROM public.complaints
+    WHERE id = NEW.complaint_id;
+
+    IF NEW.is_admin THEN
+        PERFORM public.create_notification(
+            _complaint.user_id, _complaint.id, 'comment',
+            'New reply on: ' || _complaint.subject,
+            _preview
+        );
+    ELSIF _complaint.assigned_to IS NOT NULL THEN
+        PERFORM public.create_notification(
+            _complaint.assigned_to, _complaint.id, 'comment',
+            'New message on: ' || _complaint.subject,
+            _preview
+        );
+    ELSE
+        FOR _admin_id IN
+            SELECT user_id FROM public.user_roles
+            WHERE role = 'admin'
+              AND public.can_manage_department(user_id, _complaint.department_id)
+        LOOP
+            PERFORM public.create_notification(
+                _admin_id, _complaint.id, 'comment',
+                'New message on: ' || _complaint.subject,
+                _preview
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The admin list shows the department; rows are already limited by the policies above
+DROP FUNCTION public.list_admin_complaints(TEXT);
+
+CREATE FUNCTION public.list_admin_complaints(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    subject TEXT,
+    description TEXT,
+    status TEXT,
+    priority complaint_priority,
+    admin_response TEXT,
+    category_id UUID,
+    category_name TEXT,
+    department_id UUID,
+    department_name TEXT,
+    user_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    assigned_to UUID,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    first_response_due_at TIMESTAMP WITH TIME ZONE,
+    first_responded_at TIMESTAMP WITH TIME ZONE,
+    resolution_due_at TIMESTAMP WITH TIME ZONE,
+    priority_rank INTEGER,
+    sla_due_at TIMESTAMP WITH TIME ZONE,
+    attachment_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.subject,
+        c.description,
+        c.status,
+        c.priority,
+        c.admin_response,
+        c.category_id,
+        cat.name,
+        c.department_id,
+        d.name,
+        c.user_id,
+        p.full_name,
+        p.email,
+        c.assigned_to,
+        c.assigned_at,
+        c.created_at,
+        c.updated_at,
+        c.resolved_at,
+        c.first_response_due_at,
+        c.first_responded_at,
+        c.resolution_due_at,
+        CASE c.priority
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            ELSE 1
+        END,
+        -- The deadline that currently matters: first response until answered, then resolution
+        CASE
+            WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL THEN c.first_response_due_at
+            ELSE c.resolution_due_at
+        END,
+        (SELECT count(*)::INTEGER FROM public.complaint_attachments a WHERE a.complaint_id = c.id)
+    FROM public.complaints c
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    LEFT JOIN public.departments d ON d.id = c.department_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE _search IS NULL
+       OR btrim(_search) = ''
+       OR c.subject ILIKE '%' || btrim(_search) || '%'
+       OR p.full_name ILIKE '%' || btrim(_search) || '%'
+       OR p.email ILIKE '%' || btrim(_search) || '%'
+       OR c.search_vector @@ websearch_to_tsquery('english', _search)
+       OR EXISTS (
+           SELECT 1 FROM public.complaint_comments cc
+           WHERE cc.complaint_id = c.id
+             AND cc.search_vector @@ websearch_to_tsquery('english', _search)
+       );
+$$;
@@ -0,0 +1,5 @@
+-- Staff roles granted next to 'admin', which marks back-office accounts. Added on
+-- their own because new enum values cannot be used in the transaction adding them.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'department_admin';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'auditor';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'staff';
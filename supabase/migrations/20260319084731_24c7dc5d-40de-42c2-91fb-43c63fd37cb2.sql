@@ -0,0 +1,350 @@
+-- What staff roles may do; which complaints they see is still limited by department
+CREATE TYPE public.app_permission AS ENUM (
+    'view_complaints',
+    'update_status',
+    'comment',
+    'manage_categories',
+    'export_reports',
+    'manage_settings',
+    'manage_users'
+);
+
+CREATE TABLE public.role_permissions (
+    role app_role NOT NULL,
+    permission app_permission NOT NULL,
+    PRIMARY KEY (role, permission)
+);
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+    ('super_admin', 'view_complaints'),
+    ('super_admin', 'update_status'),
+    ('super_admin', 'comment'),
+    ('super_admin', 'manage_categories'),
+    ('super_admin', 'export_reports'),
+    ('super_admin', 'manage_settings'),
+    ('super_admin', 'manage_users'),
+    ('department_admin', 'view_complaints'),
+    ('department_admin', 'update_status'),
+    ('department_admin', 'comment'),
+    ('department_admin', 'manage_categories'),
+    ('department_admin', 'export_reports'),
+    ('auditor', 'view_complaints'),
+    ('auditor', 'export_reports'),
+    ('staff', 'view_complaints'),
+    ('staff', 'update_status'),
+    ('staff', 'comment');
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view role permissions"
+ON public.role_permissions FOR SELECT
+TO authenticated
+USING (true);
+
+-- Check whether a user holds a permission through any of their roles
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles ur
+        JOIN public.role_permissions rp ON rp.role = ur.role
+        WHERE ur.user_id = _user_id
+          AND rp.permission = _permission
+    )
+$$;
+
+CREATE POLICY "User managers can change role permissions"
+ON public.role_permissions FOR ALL
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_users'))
+WITH CHECK (public.has_permission(auth.uid(), 'manage_users'));
+
+-- A permission on the complaints of a department (or of one complaint)
+CREATE OR REPLACE FUNCTION public.has_department_permission(_user_id UUID, _department_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.can_manage_department(_user_id, _department_id)
+       AND public.has_permission(_user_id, _permission)
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_complaint_permission(_user_id UUID, _complaint_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.can_manage_complaint(_user_id, _complaint_id)
+       AND public.has_permission(_user_id, _permission)
+$$;
+
+-- Complaints and everything hanging off them
+DROP POLICY "Admins can view complaints of their departments" ON public.complaints;
+
+CREATE POLICY "Staff can view complaints of their departments"
+ON public.complaints FOR SELECT
+TO authenticated
+USING (public.has_department_permission(auth.uid(), department_id, 'view_complaints'));
+
+DROP POLICY "Admins can update complaints of their departments" ON public.complaints;
+
+CREATE POLICY "Staff can update complaints of their departments"
+ON public.complaints FOR UPDATE
+TO authenticated
+USING (public.has_department_permission(auth.uid(), department_id, 'update_status'))
+WITH CHECK (
+    public.has_department_permission(auth.uid(), department_id, 'update_status')
+    AND (assigned_to IS NULL OR public.has_department_permission(assigned_to, department_id, 'update_status'))
+);
+
+DROP POLICY "Admins can view logs of their departments" ON public.complaint_logs;
+
+CREATE POLICY "Staff can view logs of their departments"
+ON public.complaint_logs FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), complaint_id, 'view_complaints'));
+
+DROP POLICY "Admins can insert logs for their departments" ON public.complaint_logs;
+
+CREATE POLICY "Staff can insert logs for their departments"
+ON public.complaint_logs FOR INSERT
+TO authenticated
+WITH CHECK (public.has_complaint_permission(auth.uid(), complaint_id, 'update_status'));
+
+DROP POLICY "Admins can view comments of their departments" ON public.complaint_comments;
+
+CREATE POLICY "Staff can view comments of their departments"
+ON public.complaint_comments FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), complaint_id, 'view_complaints'));
+
+DROP POLICY "Admins can comment on complaints of their departments" ON public.complaint_comments;
+
+CREATE POLICY "Staff can comment on complaints of their departments"
+ON public.complaint_comments FOR INSERT
+TO authenticated
+WITH CHECK (public.has_complaint_permission(auth.uid(), complaint_id, 'comment'));
+
+DROP POLICY "Admins can view ratings of their departments" ON public.complaint_ratings;
+
+CREATE POLICY "Staff can view ratings of their departments"
+ON public.complaint_ratings FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), complaint_id, 'view_complaints'));
+
+DROP POLICY "Admins can view attachments of their departments" ON public.complaint_attachments;
+
+CREATE POLICY "Staff can view attachments of their departments"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), complaint_id, 'view_complaints'));
+
+DROP POLICY "Users can add attachments to their complaints" ON public.complaint_attachments;
+
+CREATE POLICY "Users can add attachments to their complaints"
+ON public.complaint_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+    uploaded_by = auth.uid()
+    AND split_part(storage_path, '/', 1) = auth.uid()::text
+    AND (
+        public.has_complaint_permission(auth.uid(), complaint_id, 'comment')
+        OR EXISTS (
+            SELECT 1 FROM public.complaints
+            WHERE complaints.id = complaint_attachments.complaint_id
+            AND complaints.user_id = auth.uid()
+        )
+    )
+    AND (
+        comment_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM public.complaint_comments
+            WHERE complaint_comments.id = complaint_attachments.comment_id
+            AND complaint_comments.complaint_id = complaint_attachments.complaint_id
+            AND complaint_comments.user_id = auth.uid()
+        )
+    )
+);
+
+DROP POLICY "Admins can view attachments of their departments" ON storage.objects;
+
+CREATE POLICY "Staff can view attachments of their departments"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'complaint-attachments'
+  AND EXISTS (
+    SELECT 1 FROM public.complaint_attachments
+    WHERE complaint_attachments.storage_path = storage.objects.name
+    AND public.has_complaint_permission(auth.uid(), complaint_attachments.complaint_id, 'view_complaints')
+  )
+);
+
+-- Categories
+DROP POLICY "Admins can insert categories" ON public.categories;
+DROP POLICY "Admins can update categories" ON public.categories;
+DROP POLICY "Admins can delete categories" ON public.categories;
+
+CREATE POLICY "Category managers can insert categories"
+ON public.categories FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_categories'));
+
+CREATE POLICY "Category managers can update categories"
+ON public.categories FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_categories'));
+
+CREATE POLICY "Category managers can delete categories"
+ON public.categories FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_categories'));
+
+-- Workflow, SLA policies, app settings and departments
+DROP POLICY "Admins can insert complaint statuses" ON public.complaint_statuses;
+DROP POLICY "Admins can update complaint statuses" ON public.complaint_statuses;
+DROP POLICY "Admins can delete complaint statuses" ON public.complaint_statuses;
+
+CREATE POLICY "Settings managers can insert complaint statuses"
+ON public.complaint_statuses FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can update complaint statuses"
+ON public.complaint_statuses FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can delete complaint statuses"
+ON public.complaint_statuses FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can insert status transitions" ON public.complaint_status_transitions;
+DROP POLICY "Admins can delete status transitions" ON public.complaint_status_transitions;
+
+CREATE POLICY "Settings managers can insert status transitions"
+ON public.complaint_status_transitions FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can delete status transitions"
+ON public.complaint_status_transitions FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can insert SLA policies" ON public.sla_policies;
+DROP POLICY "Admins can update SLA policies" ON public.sla_policies;
+DROP POLICY "Admins can delete SLA policies" ON public.sla_policies;
+
+CREATE POLICY "Settings managers can insert SLA policies"
+ON public.sla_policies FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can update SLA policies"
+ON public.sla_policies FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can delete SLA policies"
+ON public.sla_policies FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Admins can update app settings" ON public.app_settings;
+
+CREATE POLICY "Settings managers can update app settings"
+ON public.app_settings FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+DROP POLICY "Super admins can insert departments" ON public.departments;
+DROP POLICY "Super admins can update departments" ON public.departments;
+DROP POLICY "Super admins can delete departments" ON public.departments;
+DROP POLICY "Super admins can add department members" ON public.department_members;
+DROP POLICY "Super admins can remove department members" ON public.department_members;
+
+CREATE POLICY "Settings managers can insert departments"
+ON public.departments FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can update departments"
+ON public.departments FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can delete departments"
+ON public.departments FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can add department members"
+ON public.department_members FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings') AND public.has_role(user_id, 'admin'));
+
+CREATE POLICY "Settings managers can remove department members"
+ON public.department_members FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+-- Granting roles was open to every admin; it now needs the user management permission
+DROP POLICY "Admins can insert roles" ON public.user_roles;
+
+CREATE POLICY "User managers can insert roles"
+ON public.user_roles FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Unassigned student messages only go to staff who can answer them
+CREATE OR REPLACE FUNCTION public.notify_complaint_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _admin_id UUID;
+    _preview TEXT := left(NEW.content, 140);
+BEGIN
+    SELECT * INTO _complaint
+    FROM public.complaints
+    WHERE id = NEW.complaint_id;
+
+    IF NEW.is_admin THEN
+        PERFORM public.create_notification(
+            _complaint.user_id, _complaint.id, 'comment',
+            'New reply on: ' || _complaint.subject,
+            _preview
+        );
+    ELSIF _complaint.assigned_to IS NOT NULL THEN
+        PERFORM public.create_notification(
+            _complaint.assigned_to, _complaint.id, 'comment',
+            'New message on: ' || _complaint.subject,
+            _preview
+        );
+    ELSE
+        FOR _admin_id IN
+            SELECT user_id FROM public.user_roles
+            WHERE role = 'admin'
+              AND public.has_department_permission(user_id, _complaint.department_id, 'comment')
+        LOOP
+            PERFORM public.create_notification(
+                _admin_id, _complaint.id, 'comment',
+                'New message on: ' || _complaint.subject,
+                _preview
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
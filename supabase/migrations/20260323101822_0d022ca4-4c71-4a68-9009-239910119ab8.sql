@@ -0,0 +1,101 @@
+-- Deactivated accounts are banned from signing in (see the manage-user function)
+ALTER TABLE public.profiles
+ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Audit trail of role grants, revocations and account (de)activations
+CREATE TABLE public.role_changes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    action TEXT NOT NULL CHECK (action IN ('granted', 'revoked', 'deactivated', 'reactivated')),
+    role app_role,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_role_changes_created_at ON public.role_changes(created_at DESC);
+CREATE INDEX idx_role_changes_user_id ON public.role_changes(user_id);
+
+ALTER TABLE public.role_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can view role changes"
+ON public.role_changes FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Rows are written by the triggers below and by the manage-user function
+
+CREATE POLICY "User managers can delete roles"
+ON public.user_roles FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_users'));
+
+-- Deactivated staff lose their permissions even before their session expires
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.user_roles ur
+        JOIN public.role_permissions rp ON rp.role = ur.role
+        WHERE ur.user_id = _user_id
+          AND rp.permission = _permission
+    )
+    AND NOT EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE user_id = _user_id
+          AND deactivated_at IS NOT NULL
+    )
+$$;
+
+-- Never leave the system without an active admin and super admin
+CREATE OR REPLACE FUNCTION public.prevent_last_admin_removal()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.role IN ('admin', 'super_admin') AND NOT EXISTS (
+        SELECT 1
+        FROM public.user_roles ur
+        JOIN public.profiles p ON p.user_id = ur.user_id
+        WHERE ur.role = OLD.role
+          AND ur.user_id <> OLD.user_id
+          AND p.deactivated_at IS NULL
+    ) THEN
+        RAISE EXCEPTION 'Cannot remove the last active %', replace(OLD.role::text, '_', ' ');
+    END IF;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER prevent_last_admin_removal
+    BEFORE DELETE ON public.user_roles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_last_admin_removal();
+
+-- Record who granted or revoked a role
+CREATE OR REPLACE FUNCTION public.log_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        -- The student role every sign-up gets is not worth recording
+        IF NEW.role = 'student' AND auth.uid() IS NULL THEN
+            RETURN NEW;
+        END IF;
+        INSERT INTO public.role_changes (user_id, changed_by, action, role)
+        VALUES (NEW.user_id, auth.uid(), 'granted', NEW.role);
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO public.role_changes (user_id, changed_by, action, role)
+    VALUES (OLD.user_id, auth.uid(), 'revoked', OLD.role);
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_role_change
+    AFTER INSERT OR DELETE ON public.user_roles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_role_change();
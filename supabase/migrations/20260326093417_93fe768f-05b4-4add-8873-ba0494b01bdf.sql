@@ -0,0 +1,4 @@
+-- Confidential complaints are only handled by designated admins. Added on their own
+-- because new enum values cannot be used in the transaction adding them.
+ALTER TYPE public.app_permission ADD VALUE IF NOT EXISTS 'handle_confidential';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'confidential_officer';
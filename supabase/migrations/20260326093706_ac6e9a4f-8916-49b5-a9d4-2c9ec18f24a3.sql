@@ -0,0 +1,310 @@
+-- Anonymous complaints hide the student from admins; confidential ones are only
+-- visible to admins holding the handle_confidential permission
+ALTER TABLE public.complaints
+ADD COLUMN is_anonymous BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN is_confidential BOOLEAN NOT NULL DEFAULT false;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+    ('super_admin', 'handle_confidential'),
+    ('confidential_officer', 'handle_confidential');
+
+-- Whether a user may see a complaint with the given confidentiality
+CREATE OR REPLACE FUNCTION public.can_see_confidential(_user_id UUID, _is_confidential BOOLEAN)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT NOT _is_confidential OR public.has_permission(_user_id, 'handle_confidential')
+$$;
+
+-- Comments, logs, ratings and attachments follow the complaint's confidentiality
+CREATE OR REPLACE FUNCTION public.can_manage_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE((
+        SELECT public.can_manage_department(_user_id, department_id)
+           AND public.can_see_confidential(_user_id, is_confidential)
+        FROM public.complaints
+        WHERE id = _complaint_id
+    ), false)
+$$;
+
+DROP POLICY "Staff can view complaints of their departments" ON public.complaints;
+
+CREATE POLICY "Staff can view complaints of their departments"
+ON public.complaints FOR SELECT
+TO authenticated
+USING (
+    public.has_department_permission(auth.uid(), department_id, 'view_complaints')
+    AND public.can_see_confidential(auth.uid(), is_confidential)
+);
+
+DROP POLICY "Staff can update complaints of their departments" ON public.complaints;
+
+CREATE POLICY "Staff can update complaints of their departments"
+ON public.complaints FOR UPDATE
+TO authenticated
+USING (
+    public.has_department_permission(auth.uid(), department_id, 'update_status')
+    AND public.can_see_confidential(auth.uid(), is_confidential)
+)
+WITH CHECK (
+    public.has_department_permission(auth.uid(), department_id, 'update_status')
+    AND public.can_see_confidential(auth.uid(), is_confidential)
+    AND (
+        assigned_to IS NULL
+        OR (
+            public.has_department_permission(assigned_to, department_id, 'update_status')
+            AND public.can_see_confidential(assigned_to, is_confidential)
+        )
+    )
+);
+
+-- Students choose anonymity and confidentiality when filing; admins cannot change them
+CREATE OR REPLACE FUNCTION public.protect_complaint_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_anonymous IS DISTINCT FROM OLD.is_anonymous
+       OR NEW.is_confidential IS DISTINCT FROM OLD.is_confidential THEN
+        RAISE EXCEPTION 'Anonymity and confidentiality cannot be changed after submission';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER protect_complaint_privacy
+    BEFORE UPDATE OF is_anonymous, is_confidential ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_complaint_privacy();
+
+-- Admins only see the profiles of staff and of students they may identify. The
+-- user id on an anonymous complaint is then meaningless to them on its own.
+DROP POLICY "Admins can view all profiles" ON public.profiles;
+
+CREATE POLICY "Admins can view staff and identified students"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (
+    public.has_role(auth.uid(), 'admin')
+    AND (
+        public.has_role(user_id, 'admin')
+        OR public.has_permission(auth.uid(), 'manage_users')
+        OR public.has_permission(auth.uid(), 'handle_confidential')
+        OR EXISTS (
+            SELECT 1 FROM public.complaints c
+            WHERE c.user_id = profiles.user_id
+              AND NOT c.is_anonymous
+        )
+    )
+);
+
+-- Unassigned student messages only go to staff who can see the complaint
+CREATE OR REPLACE FUNCTION public.notify_complaint_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _admin_id UUID;
+    _preview TEXT := left(NEW.content, 140);
+BEGIN
+    SELECT * INTO _complaint
+    FROM public.complaints
+    WHERE id = NEW.complaint_id;
+
+    IF NEW.is_admin THEN
+        PERFORM public.create_notification(
+            _complaint.user_id, _complaint.id, 'comment',
+            'New reply on: ' || _complaint.subject,
+            _preview
+        );
+    ELSIF _complaint.assigned_to IS NOT NULL THEN
+        PERFORM public.create_notification(
+            _complaint.assigned_to, _complaint.id, 'comment',
+            'New message on: ' || _complaint.subject,
+            _preview
+        );
+    ELSE
+        FOR _admin_id IN
+            SELECT user_id FROM public.user_roles
+            WHERE role = 'admin'
+              AND public.has_department_permission(user_id, _complaint.department_id, 'comment')
+              AND public.can_see_confidential(user_id, _complaint.is_confidential)
+        LOOP
+            PERFORM public.create_notification(
+                _admin_id, _complaint.id, 'comment',
+                'New message on: ' || _complaint.subject,
+                _preview
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Search results hide the student of anonymous complaints
+CREATE OR REPLACE FUNCTION public.search_complaints(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    complaint_id UUID,
+    subject TEXT,
+    status TEXT,
+    priority complaint_priority,
+    student_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    match_source TEXT,
+    comment_id UUID,
+    rank REAL,
+    headline TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english', _query) AS query
+    ),
+    hits AS (
+        SELECT c.id AS complaint_id, 'complaint' AS match_source, NULL::UUID AS comment_id,
+               ts_rank(c.search_vector, q.query) AS rank
+        FROM public.complaints c, q
+        WHERE c.search_vector @@ q.query
+        UNION ALL
+        -- Comment matches count a little less than matches on the complaint itself
+        SELECT cc.complaint_id, 'comment', cc.id, ts_rank(cc.search_vector, q.query) * 0.8
+        FROM public.complaint_comments cc, q
+        WHERE cc.search_vector @@ q.query
+    ),
+    best AS (
+        SELECT DISTINCT ON (complaint_id) *
+        FROM hits
+        ORDER BY complaint_id, rank DESC
+    ),
+    top AS (
+        SELECT * FROM best
+        ORDER BY rank DESC
+        LIMIT least(greatest(_limit, 1), 50)
+    )
+    SELECT
+        c.id,
+        c.subject,
+        c.status,
+        c.priority,
+        CASE WHEN c.is_anonymous AND NOT public.has_permission(auth.uid(), 'handle_confidential') THEN NULL ELSE p.full_name END,
+        c.created_at,
+        t.match_source,
+        t.comment_id,
+        t.rank,
+        ts_headline(
+            'english',
+            CASE
+                WHEN t.comment_id IS NOT NULL THEN cc.content
+                ELSE concat_ws(' … ', c.subject, c.description, c.admin_response)
+            END,
+            q.query,
+            format('StartSel=%s, StopSel=%s, MaxWords=25, MinWords=8, MaxFragments=2', chr(2), chr(3))
+        )
+    FROM top t
+    CROSS JOIN q
+    JOIN public.complaints c ON c.id = t.complaint_id
+    LEFT JOIN public.complaint_comments cc ON cc.id = t.comment_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    ORDER BY t.rank DESC, c.created_at DESC;
+$$;
+
+-- The admin list masks anonymous students and reports both flags
+DROP FUNCTION public.list_admin_complaints(TEXT);
+
+CREATE FUNCTION public.list_admin_complaints(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    subject TEXT,
+    description TEXT,
+    status TEXT,
+    priority complaint_priority,
+    admin_response TEXT,
+    category_id UUID,
+    category_name TEXT,
+    department_id UUID,
+    department_name TEXT,
+    user_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    assigned_to UUID,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    first_response_due_at TIMESTAMP WITH TIME ZONE,
+    first_responded_at TIMESTAMP WITH TIME ZONE,
+    resolution_due_at TIMESTAMP WITH TIME ZONE,
+    priority_rank INTEGER,
+    sla_due_at TIMESTAMP WITH TIME ZONE,
+    attachment_count INTEGER,
+    is_anonymous BOOLEAN,
+    is_confidential BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.subject,
+        c.description,
+        c.status,
+        c.priority,
+        c.admin_response,
+        c.category_id,
+        cat.name,
+        c.department_id,
+        d.name,
+        -- Anonymous complaints hide who filed them from all but confidential handlers
+        CASE WHEN i.hidden THEN NULL ELSE c.user_id END,
+        CASE WHEN i.hidden THEN NULL ELSE p.full_name END,
+        CASE WHEN i.hidden THEN NULL ELSE p.email END,
+        c.assigned_to,
+        c.assigned_at,
+        c.created_at,
+        c.updated_at,
+        c.resolved_at,
+        c.first_response_due_at,
+        c.first_responded_at,
+        c.resolution_due_at,
+        CASE c.priority
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            ELSE 1
+        END,
+        -- The deadline that currently matters: first response until answered, then resolution
+        CASE
+            WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL THEN c.first_response_due_at
+            ELSE c.resolution_due_at
+        END,
+        (SELECT count(*)::INTEGER FROM public.complaint_attachments a WHERE a.complaint_id = c.id),
+        c.is_anonymous,
+        c.is_confidential
+    FROM public.complaints c
+    CROSS JOIN LATERAL (
+        SELECT c.is_anonymous AND NOT public.has_permission(auth.uid(), 'handle_confidential') AS hidden
+    ) i
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    LEFT JOIN public.departments d ON d.id = c.department_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE _search IS NULL
+       OR btrim(_search) = ''
+       OR c.subject ILIKE '%' || btrim(_search) || '%'
+       OR (NOT i.hidden AND p.full_name ILIKE '%' || btrim(_search) || '%')
+       OR (NOT i.hidden AND p.email ILIKE '%' || btrim(_search) || '%')
+       OR c.search_vector @@ websearch_to_tsquery('english', _search)
+       OR EXISTS (
+           SELECT 1 FROM public.complaint_comments cc
+           WHERE cc.complaint_id = c.id
+             AND cc.search_vector @@ websearch_to_tsquery('english', _search)
+       );
+$$;
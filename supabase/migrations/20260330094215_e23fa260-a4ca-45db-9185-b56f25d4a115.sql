@@ -0,0 +1,116 @@
+-- Internal notes: admin-only comments used to coordinate on a complaint
+ALTER TABLE public.complaint_comments
+ADD COLUMN is_internal BOOLEAN NOT NULL DEFAULT false,
+ADD CONSTRAINT complaint_comments_internal_by_admin CHECK (NOT is_internal OR is_admin);
+
+-- Students only ever see the public thread
+DROP POLICY "Students can view comments on their complaints" ON public.complaint_comments;
+
+CREATE POLICY "Students can view comments on their complaints"
+ON public.complaint_comments FOR SELECT
+TO authenticated
+USING (
+    NOT is_internal
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_comments.complaint_id
+        AND complaints.user_id = auth.uid()
+    )
+);
+
+DROP POLICY "Students can add comments to their complaints" ON public.complaint_comments;
+
+CREATE POLICY "Students can add comments to their complaints"
+ON public.complaint_comments FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_comments.complaint_id
+        AND complaints.user_id = auth.uid()
+    )
+    AND is_admin = false
+    AND is_internal = false
+);
+
+-- Files attached to an internal note stay hidden too; the storage policy
+-- reads complaint_attachments, so it follows along
+DROP POLICY "Students can view attachments on their complaints" ON public.complaint_attachments;
+
+CREATE POLICY "Students can view attachments on their complaints"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_attachments.complaint_id
+        AND complaints.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.complaint_comments
+        WHERE complaint_comments.id = complaint_attachments.comment_id
+        AND complaint_comments.is_internal
+    )
+);
+
+-- A note is not a reply, so it doesn't stop the first-response clock
+CREATE OR REPLACE FUNCTION public.mark_complaint_first_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_admin AND NOT NEW.is_internal THEN
+        UPDATE public.complaints
+        SET first_responded_at = NEW.created_at
+        WHERE id = NEW.complaint_id
+          AND first_responded_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Internal notes never notify the student
+CREATE OR REPLACE FUNCTION public.notify_complaint_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _admin_id UUID;
+    _preview TEXT := left(NEW.content, 140);
+BEGIN
+    IF NEW.is_internal THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO _complaint
+    FROM public.complaints
+    WHERE id = NEW.complaint_id;
+
+    IF NEW.is_admin THEN
+        PERFORM public.create_notification(
+            _complaint.user_id, _complaint.id, 'comment',
+            'New reply on: ' || _complaint.subject,
+            _preview
+        );
+    ELSIF _complaint.assigned_to IS NOT NULL THEN
+        PERFORM public.create_notification(
+            _complaint.assigned_to, _complaint.id, 'comment',
+            'New message on: ' || _complaint.subject,
+            _preview
+        );
+    ELSE
+        FOR _admin_id IN
+            SELECT user_id FROM public.user_roles
+            WHERE role = 'admin'
+              AND public.has_department_permission(user_id, _complaint.department_id, 'comment')
+              AND public.can_see_confidential(user_id, _complaint.is_confidential)
+        LOOP
+            PERFORM public.create_notification(
+                _admin_id, _complaint.id, 'comment',
+                'New message on: ' || _complaint.subject,
+                _preview
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
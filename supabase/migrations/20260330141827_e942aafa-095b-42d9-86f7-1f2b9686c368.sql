@@ -0,0 +1,117 @@
+-- Mentions of admins in complaint comments and internal notes
+CREATE TABLE public.comment_mentions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    comment_id UUID NOT NULL REFERENCES public.complaint_comments(id) ON DELETE CASCADE,
+    complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+    mentioned_user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    mentioned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (comment_id, mentioned_user_id)
+);
+
+CREATE INDEX idx_comment_mentions_user_complaint ON public.comment_mentions(mentioned_user_id, complaint_id);
+
+ALTER TABLE public.comment_mentions ENABLE ROW LEVEL SECURITY;
+
+-- Being mentioned brings an admin from another department into the conversation,
+-- as long as the complaint's confidentiality allows them to see it
+CREATE OR REPLACE FUNCTION public.is_mentioned_on_complaint(_user_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.comment_mentions m
+        JOIN public.complaints c ON c.id = m.complaint_id
+        WHERE m.complaint_id = _complaint_id
+          AND m.mentioned_user_id = _user_id
+          AND public.can_see_confidential(_user_id, c.is_confidential)
+    )
+$$;
+
+-- Mentioned admins may read and comment, but status changes stay with the department
+CREATE OR REPLACE FUNCTION public.has_complaint_permission(_user_id UUID, _complaint_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT public.has_permission(_user_id, _permission)
+       AND (
+           public.can_manage_complaint(_user_id, _complaint_id)
+           OR (
+               _permission IN ('view_complaints', 'comment')
+               AND public.is_mentioned_on_complaint(_user_id, _complaint_id)
+           )
+       )
+$$;
+
+CREATE POLICY "Mentioned staff can view complaints"
+ON public.complaints FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), id, 'view_complaints'));
+
+CREATE POLICY "Staff can view mentions on complaints they can see"
+ON public.comment_mentions FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), complaint_id, 'view_complaints'));
+
+-- Authors record mentions for their own admin comments, and only of staff who
+-- may view complaints at all (and confidential ones, where that applies)
+CREATE POLICY "Staff can mention admins in their comments"
+ON public.comment_mentions FOR INSERT
+TO authenticated
+WITH CHECK (
+    mentioned_by = auth.uid()
+    AND public.has_complaint_permission(auth.uid(), complaint_id, 'comment')
+    AND public.has_permission(mentioned_user_id, 'view_complaints')
+    AND EXISTS (
+        SELECT 1 FROM public.complaint_comments cc
+        WHERE cc.id = comment_mentions.comment_id
+        AND cc.complaint_id = comment_mentions.complaint_id
+        AND cc.user_id = auth.uid()
+        AND cc.is_admin
+    )
+    AND EXISTS (
+        SELECT 1 FROM public.complaints c
+        WHERE c.id = comment_mentions.complaint_id
+        AND public.can_see_confidential(mentioned_user_id, c.is_confidential)
+    )
+);
+
+-- Mentions are a notification type and a preference of their own
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('status_change', 'priority_change', 'comment', 'assignment', 'mention'));
+
+ALTER TABLE public.notification_preferences DROP CONSTRAINT notification_preferences_event_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_event_type_check
+    CHECK (event_type IN ('status_change', 'priority_change', 'comment', 'assignment', 'mention'));
+
+CREATE OR REPLACE FUNCTION public.notify_comment_mention()
+RETURNS TRIGGER AS $$
+DECLARE
+    _subject TEXT;
+    _content TEXT;
+BEGIN
+    SELECT subject INTO _subject FROM public.complaints WHERE id = NEW.complaint_id;
+    SELECT content INTO _content FROM public.complaint_comments WHERE id = NEW.comment_id;
+
+    PERFORM public.create_notification(
+        NEW.mentioned_user_id, NEW.complaint_id, 'mention',
+        'You were mentioned on: ' || _subject,
+        left(_content, 140)
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_comment_mention
+    AFTER INSERT ON public.comment_mentions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.notify_comment_mention();
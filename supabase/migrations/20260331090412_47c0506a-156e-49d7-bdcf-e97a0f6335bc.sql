@@ -0,0 +1,3 @@
+-- Managing the reply template library. Added on its own because new enum values
+-- cannot be used in the transaction adding them.
+ALTER TYPE public.app_permission ADD VALUE IF NOT EXISTS 'manage_templates';
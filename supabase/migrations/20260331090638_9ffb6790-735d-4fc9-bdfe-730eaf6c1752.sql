@@ -0,0 +1,44 @@
+-- Reply templates admins insert into responses and comments, optionally limited to one category
+CREATE TABLE public.response_templates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_response_templates_category ON public.response_templates(category_id);
+
+ALTER TABLE public.response_templates ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+    ('super_admin', 'manage_templates'),
+    ('department_admin', 'manage_templates');
+
+CREATE POLICY "Staff can view response templates"
+ON public.response_templates FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'view_complaints'));
+
+CREATE POLICY "Template managers can create response templates"
+ON public.response_templates FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_templates'));
+
+CREATE POLICY "Template managers can update response templates"
+ON public.response_templates FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_templates'))
+WITH CHECK (public.has_permission(auth.uid(), 'manage_templates'));
+
+CREATE POLICY "Template managers can delete response templates"
+ON public.response_templates FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_templates'));
+
+CREATE TRIGGER update_response_templates_updated_at
+    BEFORE UPDATE ON public.response_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
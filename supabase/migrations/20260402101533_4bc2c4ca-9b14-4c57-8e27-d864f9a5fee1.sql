@@ -0,0 +1,181 @@
+-- Similar complaint detection and "+1" support for existing complaints
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX idx_complaints_subject_trgm ON public.complaints USING GIN (subject gin_trgm_ops);
+
+-- Students who reported the same problem on someone else's complaint instead of filing their own
+CREATE TABLE public.complaint_supporters (
+    complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (complaint_id, user_id)
+);
+
+CREATE INDEX idx_complaint_supporters_user ON public.complaint_supporters(user_id);
+
+ALTER TABLE public.complaint_supporters ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written through support_complaint below
+CREATE POLICY "Users can view their own support"
+ON public.complaint_supporters FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view supporters of complaints they can see"
+ON public.complaint_supporters FOR SELECT
+TO authenticated
+USING (public.has_complaint_permission(auth.uid(), complaint_id, 'view_complaints'));
+
+CREATE POLICY "Users can withdraw their own support"
+ON public.complaint_supporters FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- Complaints resembling the given text, best match first. Staff get any complaint
+-- they can view; students only see open, non-confidential complaints, and only
+-- their subject and category, never who filed them or what they wrote.
+CREATE OR REPLACE FUNCTION public.find_similar_complaints(
+    _subject TEXT,
+    _description TEXT DEFAULT NULL,
+    _category_id UUID DEFAULT NULL,
+    _exclude_id UUID DEFAULT NULL,
+    _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    complaint_id UUID,
+    subject TEXT,
+    status TEXT,
+    category_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    supporter_count INTEGER,
+    is_own BOOLEAN,
+    is_supported BOOLEAN,
+    score REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH q AS (
+        -- Any shared word counts for full-text matching; ranking sorts out the rest
+        SELECT NULLIF(
+            replace(plainto_tsquery('english', concat_ws(' ', _subject, _description))::TEXT, '&', '|'),
+            ''
+        )::tsquery AS query
+    ),
+    candidates AS (
+        SELECT
+            c.*,
+            similarity(c.subject, _subject) AS subject_score,
+            COALESCE(ts_rank(c.search_vector, q.query), 0) AS text_score
+        FROM public.complaints c
+        CROSS JOIN q
+        WHERE length(btrim(_subject)) >= 4
+          AND (_exclude_id IS NULL OR c.id <> _exclude_id)
+          AND (c.subject % _subject OR c.search_vector @@ q.query)
+          AND (
+              public.has_complaint_permission(auth.uid(), c.id, 'view_complaints')
+              OR (
+                  NOT public.has_role(auth.uid(), 'admin')
+                  AND NOT c.is_confidential
+                  AND NOT EXISTS (
+                      SELECT 1 FROM public.complaint_statuses s
+                      WHERE s.key = c.status AND s.is_final
+                  )
+              )
+          )
+    )
+    SELECT
+        c.id,
+        c.subject,
+        c.status,
+        cat.name,
+        c.created_at,
+        (SELECT count(*)::INTEGER FROM public.complaint_supporters cs WHERE cs.complaint_id = c.id),
+        c.user_id = auth.uid(),
+        EXISTS (
+            SELECT 1 FROM public.complaint_supporters cs
+            WHERE cs.complaint_id = c.id AND cs.user_id = auth.uid()
+        ),
+        (c.subject_score + c.text_score + CASE WHEN c.category_id = _category_id THEN 0.1 ELSE 0 END)::REAL AS score
+    FROM candidates c
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    WHERE c.subject_score >= 0.3 OR c.text_score >= 0.1
+    ORDER BY score DESC
+    LIMIT least(greatest(_limit, 1), 20);
+$$;
+
+-- "+1" an open complaint someone else filed; returns the new number of supporters
+CREATE OR REPLACE FUNCTION public.support_complaint(_complaint_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _count INTEGER;
+BEGIN
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id;
+
+    IF NOT FOUND OR _complaint.is_confidential THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _complaint.user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You filed this complaint yourself';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.complaint_statuses
+        WHERE key = _complaint.status AND is_final
+    ) THEN
+        RAISE EXCEPTION 'This complaint is already closed';
+    END IF;
+
+    INSERT INTO public.complaint_supporters (complaint_id, user_id)
+    VALUES (_complaint_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    SELECT count(*)::INTEGER INTO _count
+    FROM public.complaint_supporters
+    WHERE complaint_id = _complaint_id;
+
+    RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.support_complaint(UUID) FROM PUBLIC, anon;
+
+-- Supporters hear when the complaint they backed is closed. They cannot open
+-- someone else's complaint, so the notification doesn't link to it.
+CREATE OR REPLACE FUNCTION public.notify_complaint_supporters()
+RETURNS TRIGGER AS $$
+DECLARE
+    _status public.complaint_statuses%ROWTYPE;
+    _supporter_id UUID;
+BEGIN
+    SELECT * INTO _status FROM public.complaint_statuses WHERE key = NEW.status;
+
+    IF _status.is_final THEN
+        FOR _supporter_id IN
+            SELECT user_id FROM public.complaint_supporters WHERE complaint_id = NEW.id
+        LOOP
+            PERFORM public.create_notification(
+                _supporter_id, NULL, 'status_change',
+                'A complaint you +1''d was closed: ' || NEW.subject,
+                'It is now ' || _status.label
+            );
+        END LOOP;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_complaint_supporters
+    AFTER UPDATE OF status ON public.complaints
+    FOR EACH ROW
+    WHEN (NEW.status IS DISTINCT FROM OLD.status)
+    EXECUTE FUNCTION public.notify_complaint_supporters();
@@ -0,0 +1,552 @@
+-- Merging duplicate complaints into a primary one, and grouping related
+-- complaints under a parent "incident" without touching their threads
+ALTER TABLE public.complaints
+ADD COLUMN merged_into UUID REFERENCES public.complaints(id) ON DELETE SET NULL,
+ADD COLUMN parent_id UUID REFERENCES public.complaints(id) ON DELETE SET NULL,
+ADD CONSTRAINT complaints_not_merged_into_self CHECK (merged_into <> id),
+ADD CONSTRAINT complaints_not_own_parent CHECK (parent_id <> id);
+
+CREATE INDEX idx_complaints_merged_into ON public.complaints(merged_into) WHERE merged_into IS NOT NULL;
+CREATE INDEX idx_complaints_parent_id ON public.complaints(parent_id) WHERE parent_id IS NOT NULL;
+
+-- Moved rows remember the complaint they were written on, so they stay
+-- visible to that complaint's student and no one else's
+ALTER TABLE public.complaint_comments
+ADD COLUMN merged_from_complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE;
+
+ALTER TABLE public.complaint_attachments
+ADD COLUMN merged_from_complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE;
+
+ALTER TABLE public.complaint_logs
+ADD COLUMN merged_from_complaint_id UUID REFERENCES public.complaints(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_complaint_comments_merged_from ON public.complaint_comments(merged_from_complaint_id)
+    WHERE merged_from_complaint_id IS NOT NULL;
+
+DROP POLICY "Students can view comments on their complaints" ON public.complaint_comments;
+
+CREATE POLICY "Students can view comments on their complaints"
+ON public.complaint_comments FOR SELECT
+TO authenticated
+USING (
+    NOT is_internal
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = COALESCE(complaint_comments.merged_from_complaint_id, complaint_comments.complaint_id)
+        AND complaints.user_id = auth.uid()
+    )
+);
+
+-- The conversation of a merged complaint continues on the primary
+DROP POLICY "Students can add comments to their complaints" ON public.complaint_comments;
+
+CREATE POLICY "Students can add comments to their complaints"
+ON public.complaint_comments FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_comments.complaint_id
+        AND complaints.user_id = auth.uid()
+        AND complaints.merged_into IS NULL
+    )
+    AND is_admin = false
+    AND is_internal = false
+);
+
+DROP POLICY "Students can view attachments on their complaints" ON public.complaint_attachments;
+
+CREATE POLICY "Students can view attachments on their complaints"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = COALESCE(complaint_attachments.merged_from_complaint_id, complaint_attachments.complaint_id)
+        AND complaints.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.complaint_comments
+        WHERE complaint_comments.id = complaint_attachments.comment_id
+        AND complaint_comments.is_internal
+    )
+);
+
+DROP POLICY "Students can view attachments on their complaints" ON storage.objects;
+
+CREATE POLICY "Students can view attachments on their complaints"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'complaint-attachments'
+    AND EXISTS (
+        SELECT 1
+        FROM public.complaint_attachments a
+        JOIN public.complaints c ON c.id = COALESCE(a.merged_from_complaint_id, a.complaint_id)
+        WHERE a.storage_path = storage.objects.name
+        AND c.user_id = auth.uid()
+    )
+);
+
+DROP POLICY "Students can view logs for their complaints" ON public.complaint_logs;
+
+CREATE POLICY "Students can view logs for their complaints"
+ON public.complaint_logs FOR SELECT
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE id = COALESCE(complaint_logs.merged_from_complaint_id, complaint_logs.complaint_id)
+        AND user_id = auth.uid()
+    )
+);
+
+-- Merging may close a duplicate from any status, but only into a final one,
+-- and a merged complaint stays closed. Students cannot file straight into
+-- a merge or an incident.
+CREATE OR REPLACE FUNCTION public.enforce_complaint_status()
+RETURNS TRIGGER AS $$
+DECLARE
+    _is_final BOOLEAN;
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        SELECT key INTO NEW.status
+        FROM public.complaint_statuses
+        WHERE is_initial;
+
+        IF NEW.status IS NULL THEN
+            RAISE EXCEPTION 'No initial complaint status is configured';
+        END IF;
+
+        NEW.resolved_at = NULL;
+        NEW.merged_into = NULL;
+        NEW.parent_id = NULL;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        SELECT is_final INTO _is_final
+        FROM public.complaint_statuses
+        WHERE key = NEW.status;
+
+        IF OLD.merged_into IS NOT NULL THEN
+            RAISE EXCEPTION 'Merged complaints cannot change status'
+                USING ERRCODE = 'check_violation';
+        ELSIF NEW.merged_into IS NOT NULL THEN
+            IF NOT COALESCE(_is_final, false) THEN
+                RAISE EXCEPTION 'Merged complaints must be closed in a final status'
+                    USING ERRCODE = 'check_violation';
+            END IF;
+        ELSIF NOT EXISTS (
+            SELECT 1
+            FROM public.complaint_status_transitions
+            WHERE from_status = OLD.status
+              AND to_status = NEW.status
+        ) THEN
+            RAISE EXCEPTION 'Status transition from "%" to "%" is not allowed', OLD.status, NEW.status
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF _is_final THEN
+            NEW.resolved_at = COALESCE(OLD.resolved_at, now());
+        ELSE
+            NEW.resolved_at = NULL;
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Students hear that their complaint was merged rather than just closed
+CREATE OR REPLACE FUNCTION public.notify_complaint_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    _label TEXT;
+BEGIN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+        SELECT label INTO _label
+        FROM public.complaint_statuses
+        WHERE key = NEW.status;
+
+        IF NEW.merged_into IS NOT NULL AND OLD.merged_into IS NULL THEN
+            PERFORM public.create_notification(
+                NEW.user_id, NEW.id, 'status_change',
+                'Complaint merged: ' || NEW.subject,
+                'It is being handled together with another report of the same problem'
+            );
+        ELSE
+            PERFORM public.create_notification(
+                NEW.user_id, NEW.id, 'status_change',
+                'Status updated: ' || NEW.subject,
+                'Your complaint is now ' || COALESCE(_label, NEW.status)
+            );
+        END IF;
+
+        PERFORM public.create_notification(
+            NEW.assigned_to, NEW.id, 'status_change',
+            'Status updated: ' || NEW.subject,
+            'Moved to ' || COALESCE(_label, NEW.status)
+        );
+    END IF;
+
+    IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+        PERFORM public.create_notification(
+            NEW.user_id, NEW.id, 'priority_change',
+            'Priority updated: ' || NEW.subject,
+            'Priority changed from ' || OLD.priority || ' to ' || NEW.priority
+        );
+    END IF;
+
+    IF NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+        PERFORM public.create_notification(
+            NEW.assigned_to, NEW.id, 'assignment',
+            'Assigned to you: ' || NEW.subject,
+            NULL
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Students of merged complaints follow the primary complaint's progress
+CREATE OR REPLACE FUNCTION public.notify_merged_complaints()
+RETURNS TRIGGER AS $$
+DECLARE
+    _label TEXT;
+    _merged public.complaints%ROWTYPE;
+BEGIN
+    SELECT label INTO _label
+    FROM public.complaint_statuses
+    WHERE key = NEW.status;
+
+    FOR _merged IN
+        SELECT * FROM public.complaints WHERE merged_into = NEW.id
+    LOOP
+        PERFORM public.create_notification(
+            _merged.user_id, _merged.id, 'status_change',
+            'Update on: ' || _merged.subject,
+            'The report your complaint was merged into is now ' || COALESCE(_label, NEW.status)
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER notify_merged_complaints
+    AFTER UPDATE OF status ON public.complaints
+    FOR EACH ROW
+    WHEN (NEW.status IS DISTINCT FROM OLD.status)
+    EXECUTE FUNCTION public.notify_merged_complaints();
+
+-- Merge duplicates into a primary complaint: their comments, attachments, logs
+-- and +1s move over, and each duplicate is closed with a pointer to the primary.
+-- Returns the number of complaints merged.
+CREATE OR REPLACE FUNCTION public.merge_complaints(
+    _primary_id UUID,
+    _duplicate_ids UUID[],
+    _status TEXT,
+    _note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _primary public.complaints%ROWTYPE;
+    _duplicate public.complaints%ROWTYPE;
+    _note_clean TEXT := NULLIF(btrim(COALESCE(_note, '')), '');
+    _count INTEGER := 0;
+BEGIN
+    SELECT * INTO _primary FROM public.complaints WHERE id = _primary_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _primary_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _primary.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot merge into a complaint that was itself merged'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.complaint_statuses WHERE key = _status AND is_final) THEN
+        RAISE EXCEPTION 'Merged complaints must be closed in a final status'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _primary_id = ANY(_duplicate_ids) THEN
+        RAISE EXCEPTION 'A complaint cannot be merged into itself'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    FOR _duplicate IN
+        SELECT * FROM public.complaints
+        WHERE id = ANY(_duplicate_ids)
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        IF NOT public.has_complaint_permission(auth.uid(), _duplicate.id, 'update_status') THEN
+            RAISE EXCEPTION 'Complaint not found';
+        END IF;
+
+        IF _duplicate.merged_into IS NOT NULL THEN
+            RAISE EXCEPTION '"%" was already merged', _duplicate.subject
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        -- Confidential threads must not end up where other admins can read them
+        IF _duplicate.is_confidential <> _primary.is_confidential THEN
+            RAISE EXCEPTION 'Confidential and regular complaints cannot be merged'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE public.complaint_comments
+        SET merged_from_complaint_id = COALESCE(merged_from_complaint_id, complaint_id),
+            complaint_id = _primary_id
+        WHERE complaint_id = _duplicate.id;
+
+        UPDATE public.complaint_attachments
+        SET merged_from_complaint_id = COALESCE(merged_from_complaint_id, complaint_id),
+            complaint_id = _primary_id
+        WHERE complaint_id = _duplicate.id;
+
+        UPDATE public.complaint_logs
+        SET merged_from_complaint_id = COALESCE(merged_from_complaint_id, complaint_id),
+            complaint_id = _primary_id
+        WHERE complaint_id = _duplicate.id;
+
+        -- Supporters follow the primary instead of hearing the duplicate was closed
+        INSERT INTO public.complaint_supporters (complaint_id, user_id, created_at)
+        SELECT _primary_id, user_id, created_at
+        FROM public.complaint_supporters
+        WHERE complaint_id = _duplicate.id
+          AND user_id IS DISTINCT FROM _primary.user_id
+        ON CONFLICT DO NOTHING;
+
+        DELETE FROM public.complaint_supporters WHERE complaint_id = _duplicate.id;
+
+        -- Earlier merges now point at the primary directly. Complaints linked to
+        -- the duplicate join the primary's incident, or the primary itself.
+        UPDATE public.complaints SET merged_into = _primary_id WHERE merged_into = _duplicate.id;
+
+        IF _primary.parent_id = _duplicate.id THEN
+            UPDATE public.complaints SET parent_id = NULL WHERE id = _primary_id;
+            _primary.parent_id := NULL;
+        END IF;
+
+        UPDATE public.complaints
+        SET parent_id = COALESCE(_primary.parent_id, _primary_id)
+        WHERE parent_id = _duplicate.id;
+
+        UPDATE public.complaints
+        SET merged_into = _primary_id,
+            status = _status,
+            admin_response = COALESCE(_note_clean, admin_response)
+        WHERE id = _duplicate.id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, old_status, new_status, notes, performed_by)
+        VALUES (_duplicate.id, 'Merged into: ' || _primary.subject, _duplicate.status, _status, _note_clean, auth.uid());
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_primary_id, 'Merged in: ' || _duplicate.subject, _note_clean, auth.uid());
+
+        _count := _count + 1;
+    END LOOP;
+
+    IF _count = 0 OR _count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) d) THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_complaints(UUID, UUID[], TEXT, TEXT) FROM PUBLIC, anon;
+
+-- Link a complaint to a parent incident, or unlink it without one.
+-- Incidents are one level deep: a parent cannot have a parent of its own.
+CREATE OR REPLACE FUNCTION public.set_complaint_parent(_complaint_id UUID, _parent_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _parent public.complaints%ROWTYPE;
+    _old_parent public.complaints%ROWTYPE;
+BEGIN
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _complaint_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _complaint.parent_id IS NOT DISTINCT FROM _parent_id THEN
+        RETURN;
+    END IF;
+
+    IF _parent_id IS NOT NULL THEN
+        SELECT * INTO _parent FROM public.complaints WHERE id = _parent_id;
+
+        IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _parent_id, 'view_complaints') THEN
+            RAISE EXCEPTION 'Complaint not found';
+        END IF;
+
+        IF _parent_id = _complaint_id THEN
+            RAISE EXCEPTION 'A complaint cannot be linked to itself'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF _parent.parent_id IS NOT NULL OR _parent.merged_into IS NOT NULL THEN
+            RAISE EXCEPTION '"%" is not an incident that complaints can be linked to', _parent.subject
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF EXISTS (SELECT 1 FROM public.complaints WHERE parent_id = _complaint_id) THEN
+            RAISE EXCEPTION 'This complaint already groups other complaints'
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    SELECT * INTO _old_parent FROM public.complaints WHERE id = _complaint.parent_id;
+
+    UPDATE public.complaints SET parent_id = _parent_id WHERE id = _complaint_id;
+
+    IF _old_parent.id IS NOT NULL THEN
+        INSERT INTO public.complaint_logs (complaint_id, action, performed_by)
+        VALUES
+            (_complaint_id, 'Unlinked from incident: ' || _old_parent.subject, auth.uid()),
+            (_old_parent.id, 'Unlinked: ' || _complaint.subject, auth.uid());
+    END IF;
+
+    IF _parent_id IS NOT NULL THEN
+        INSERT INTO public.complaint_logs (complaint_id, action, performed_by)
+        VALUES
+            (_complaint_id, 'Linked to incident: ' || _parent.subject, auth.uid()),
+            (_parent_id, 'Linked: ' || _complaint.subject, auth.uid());
+    END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_complaint_parent(UUID, UUID) FROM PUBLIC, anon;
+
+-- Where a student's merged complaint stands. The primary belongs to someone
+-- else, so only its progress is shared, not its subject or response.
+CREATE OR REPLACE FUNCTION public.get_merged_complaint_outcome(_complaint_id UUID)
+RETURNS TABLE (
+    status TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.status, p.resolved_at, p.updated_at
+    FROM public.complaints c
+    JOIN public.complaints p ON p.id = c.merged_into
+    WHERE c.id = _complaint_id
+      AND c.user_id = auth.uid()
+$$;
+
+-- The admin list reports merges and incident links
+DROP FUNCTION public.list_admin_complaints(TEXT);
+
+CREATE FUNCTION public.list_admin_complaints(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    subject TEXT,
+    description TEXT,
+    status TEXT,
+    priority complaint_priority,
+    admin_response TEXT,
+    category_id UUID,
+    category_name TEXT,
+    department_id UUID,
+    department_name TEXT,
+    user_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    assigned_to UUID,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    first_response_due_at TIMESTAMP WITH TIME ZONE,
+    first_responded_at TIMESTAMP WITH TIME ZONE,
+    resolution_due_at TIMESTAMP WITH TIME ZONE,
+    priority_rank INTEGER,
+    sla_due_at TIMESTAMP WITH TIME ZONE,
+    attachment_count INTEGER,
+    is_anonymous BOOLEAN,
+    is_confidential BOOLEAN,
+    merged_into UUID,
+    parent_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.subject,
+        c.description,
+        c.status,
+        c.priority,
+        c.admin_response,
+        c.category_id,
+        cat.name,
+        c.department_id,
+        d.name,
+        -- Anonymous complaints hide who filed them from all but confidential handlers
+        CASE WHEN i.hidden THEN NULL ELSE c.user_id END,
+        CASE WHEN i.hidden THEN NULL ELSE p.full_name END,
+        CASE WHEN i.hidden THEN NULL ELSE p.email END,
+        c.assigned_to,
+        c.assigned_at,
+        c.created_at,
+        c.updated_at,
+        c.resolved_at,
+        c.first_response_due_at,
+        c.first_responded_at,
+        c.resolution_due_at,
+        CASE c.priority
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            ELSE 1
+        END,
+        -- The deadline that currently matters: first response until answered, then resolution
+        CASE
+            WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL THEN c.first_response_due_at
+            ELSE c.resolution_due_at
+        END,
+        (SELECT count(*)::INTEGER FROM public.complaint_attachments a WHERE a.complaint_id = c.id),
+        c.is_anonymous,
+        c.is_confidential,
+        c.merged_into,
+        c.parent_id
+    FROM public.complaints c
+    CROSS JOIN LATERAL (
+        SELECT c.is_anonymous AND NOT public.has_permission(auth.uid(), 'handle_confidential') AS hidden
+    ) i
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    LEFT JOIN public.departments d ON d.id = c.department_id
+    LEFT JOIN public.profiles p ON p.user_id = c.user_id
+    WHERE _search IS NULL
+       OR btrim(_search) = ''
+       OR c.subject ILIKE '%' || btrim(_search) || '%'
+       OR (NOT i.hidden AND p.full_name ILIKE '%' || btrim(_search) || '%')
+       OR (NOT i.hidden AND p.email ILIKE '%' || btrim(_search) || '%')
+       OR c.search_vector @@ websearch_to_tsquery('english', _search)
+       OR EXISTS (
+           SELECT 1 FROM public.complaint_comments cc
+           WHERE cc.complaint_id = c.id
+             AND cc.search_vector @@ websearch_to_tsquery('english', _search)
+       );
+$$;
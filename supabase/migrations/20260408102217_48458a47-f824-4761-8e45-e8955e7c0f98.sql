@@ -0,0 +1,131 @@
+-- Mass incidents: one update or resolution for an incident reaches every
+-- complaint linked to it, each with its own comment and log entry
+
+-- The incident itself and the complaints linked to it
+CREATE OR REPLACE FUNCTION public.incident_complaints(_incident_id UUID)
+RETURNS SETOF public.complaints
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT *
+    FROM public.complaints
+    WHERE (id = _incident_id OR parent_id = _incident_id)
+      AND merged_into IS NULL
+    ORDER BY created_at
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.incident_complaints(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Post the same reply on every complaint of an incident. The comment triggers
+-- notify each student; returns the complaints that were updated.
+CREATE OR REPLACE FUNCTION public.broadcast_incident_update(_incident_id UUID, _content TEXT)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _content_clean TEXT := btrim(COALESCE(_content, ''));
+    _complaint public.complaints%ROWTYPE;
+    _ids UUID[] := '{}';
+BEGIN
+    IF length(_content_clean) = 0 OR length(_content_clean) > 2000 THEN
+        RAISE EXCEPTION 'The update must be between 1 and 2000 characters'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT public.has_complaint_permission(auth.uid(), _incident_id, 'comment') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    FOR _complaint IN SELECT * FROM public.incident_complaints(_incident_id)
+    LOOP
+        IF NOT public.has_complaint_permission(auth.uid(), _complaint.id, 'comment') THEN
+            RAISE EXCEPTION 'You cannot comment on the linked complaint "%"', _complaint.subject
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        INSERT INTO public.complaint_comments (complaint_id, user_id, content, is_admin)
+        VALUES (_complaint.id, auth.uid(), _content_clean, true);
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_complaint.id, 'Incident update posted', _content_clean, auth.uid());
+
+        _ids := _ids || _complaint.id;
+    END LOOP;
+
+    RETURN _ids;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.broadcast_incident_update(UUID, TEXT) FROM PUBLIC, anon;
+
+-- Close every open complaint of an incident in a final status. Each one must
+-- allow the move under the workflow; nothing changes if any does not.
+CREATE OR REPLACE FUNCTION public.resolve_incident(_incident_id UUID, _status TEXT, _response TEXT DEFAULT NULL)
+RETURNS TABLE (complaint_id UUID, old_status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    _incident public.complaints%ROWTYPE;
+    _complaint public.complaints%ROWTYPE;
+    _response_clean TEXT := NULLIF(btrim(COALESCE(_response, '')), '');
+BEGIN
+    SELECT * INTO _incident FROM public.complaints WHERE id = _incident_id;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _incident_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.complaint_statuses WHERE key = _status AND is_final) THEN
+        RAISE EXCEPTION 'Incidents can only be resolved into a final status'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    FOR _complaint IN
+        SELECT c.*
+        FROM public.incident_complaints(_incident_id) c
+        JOIN public.complaint_statuses s ON s.key = c.status
+        WHERE NOT s.is_final
+    LOOP
+        IF NOT public.has_complaint_permission(auth.uid(), _complaint.id, 'update_status') THEN
+            RAISE EXCEPTION 'You cannot update the linked complaint "%"', _complaint.subject
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM public.complaint_status_transitions
+            WHERE from_status = _complaint.status AND to_status = _status
+        ) THEN
+            RAISE EXCEPTION '"%" cannot move from "%" to "%"', _complaint.subject, _complaint.status, _status
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE public.complaints
+        SET status = _status,
+            admin_response = COALESCE(_response_clean, admin_response)
+        WHERE id = _complaint.id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, old_status, new_status, notes, performed_by)
+        VALUES (
+            _complaint.id,
+            CASE WHEN _complaint.id = _incident_id
+                THEN 'Incident resolved'
+                ELSE 'Resolved with incident: ' || _incident.subject
+            END,
+            _complaint.status, _status, _response_clean, auth.uid()
+        );
+
+        complaint_id := _complaint.id;
+        old_status := _complaint.status;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_incident(UUID, TEXT, TEXT) FROM PUBLIC, anon;
@@ -0,0 +1,188 @@
+-- Escalation rules: complaints matching a rule's conditions get its actions
+-- applied automatically by the run-escalations function
+CREATE TABLE public.escalation_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT NOT NULL CHECK (length(btrim(name)) BETWEEN 1 AND 100),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    -- Conditions; a NULL condition matches every complaint
+    status TEXT REFERENCES public.complaint_statuses(key) ON DELETE CASCADE,
+    priority complaint_priority,
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    min_age_hours INTEGER NOT NULL CHECK (min_age_hours > 0),
+    require_no_admin_response BOOLEAN NOT NULL DEFAULT false,
+    -- Actions
+    raise_priority_to complaint_priority,
+    assign_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    notify_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    internal_note TEXT CHECK (length(internal_note) <= 2000),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK (
+        raise_priority_to IS NOT NULL
+        OR assign_to IS NOT NULL
+        OR notify_user_id IS NOT NULL
+        OR internal_note IS NOT NULL
+    )
+);
+
+ALTER TABLE public.escalation_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Settings managers can view escalation rules"
+ON public.escalation_rules FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can insert escalation rules"
+ON public.escalation_rules FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can update escalation rules"
+ON public.escalation_rules FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can delete escalation rules"
+ON public.escalation_rules FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE TRIGGER update_escalation_rules_updated_at
+    BEFORE UPDATE ON public.escalation_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Each rule fires at most once per complaint
+CREATE TABLE public.complaint_escalations (
+    rule_id UUID NOT NULL REFERENCES public.escalation_rules(id) ON DELETE CASCADE,
+    complaint_id UUID NOT NULL REFERENCES public.complaints(id) ON DELETE CASCADE,
+    escalated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    PRIMARY KEY (rule_id, complaint_id)
+);
+
+CREATE INDEX idx_complaint_escalations_complaint ON public.complaint_escalations(complaint_id);
+
+ALTER TABLE public.complaint_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Settings managers can view escalations"
+ON public.complaint_escalations FOR SELECT
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+-- Automated actions have no user behind them: a NULL actor is the system
+ALTER TABLE public.complaint_logs ALTER COLUMN performed_by DROP NOT NULL;
+ALTER TABLE public.complaint_comments ALTER COLUMN user_id DROP NOT NULL;
+
+-- Supervisors hear about escalations through their own notification event
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('status_change', 'priority_change', 'comment', 'assignment', 'mention', 'escalation'));
+
+ALTER TABLE public.notification_preferences DROP CONSTRAINT notification_preferences_event_type_check;
+ALTER TABLE public.notification_preferences ADD CONSTRAINT notification_preferences_event_type_check
+    CHECK (event_type IN ('status_change', 'priority_change', 'comment', 'assignment', 'mention', 'escalation'));
+
+-- Apply a rule's actions to one complaint, logging each of them under the
+-- system actor. Priority is only ever raised, and complaints are only handed
+-- to or shown to staff who may handle them. Returns false when the rule had
+-- already fired for the complaint or the complaint has since been closed.
+CREATE OR REPLACE FUNCTION public.escalate_complaint(_rule_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rule public.escalation_rules%ROWTYPE;
+    _complaint public.complaints%ROWTYPE;
+    _reason TEXT;
+BEGIN
+    SELECT * INTO _rule FROM public.escalation_rules WHERE id = _rule_id AND is_active;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+    IF NOT FOUND
+       OR _complaint.merged_into IS NOT NULL
+       OR EXISTS (SELECT 1 FROM public.complaint_statuses WHERE key = _complaint.status AND is_final) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.complaint_escalations (rule_id, complaint_id)
+    VALUES (_rule_id, _complaint_id)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    _reason := 'Escalation rule: ' || _rule.name;
+
+    IF _rule.raise_priority_to IS NOT NULL AND _rule.raise_priority_to > _complaint.priority THEN
+        UPDATE public.complaints SET priority = _rule.raise_priority_to WHERE id = _complaint_id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_complaint_id, 'Priority: ' || _complaint.priority || ' → ' || _rule.raise_priority_to, _reason, NULL);
+    END IF;
+
+    IF _rule.assign_to IS NOT NULL
+       AND _rule.assign_to IS DISTINCT FROM _complaint.assigned_to
+       AND public.has_complaint_permission(_rule.assign_to, _complaint_id, 'update_status') THEN
+        UPDATE public.complaints SET assigned_to = _rule.assign_to WHERE id = _complaint_id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (
+            _complaint_id,
+            'Assigned → ' || COALESCE((SELECT full_name FROM public.profiles WHERE user_id = _rule.assign_to), 'Unknown admin'),
+            _reason, NULL
+        );
+    END IF;
+
+    IF _rule.notify_user_id IS NOT NULL
+       AND public.has_complaint_permission(_rule.notify_user_id, _complaint_id, 'view_complaints') THEN
+        PERFORM public.create_notification(
+            _rule.notify_user_id, _complaint_id, 'escalation',
+            'Escalated: ' || _complaint.subject,
+            _rule.name
+        );
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (
+            _complaint_id,
+            'Escalated to ' || COALESCE((SELECT full_name FROM public.profiles WHERE user_id = _rule.notify_user_id), 'Unknown admin'),
+            _reason, NULL
+        );
+    END IF;
+
+    IF _rule.internal_note IS NOT NULL THEN
+        INSERT INTO public.complaint_comments (complaint_id, user_id, content, is_admin, is_internal)
+        VALUES (_complaint_id, NULL, _rule.internal_note, true, true);
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_complaint_id, 'Internal note added', _reason, NULL);
+    END IF;
+
+    RETURN true;
+END;
+$$;
+
+-- Only the scheduled function (using the service role) applies rules
+REVOKE EXECUTE ON FUNCTION public.escalate_complaint(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Evaluate the escalation rules every 15 minutes
+SELECT cron.schedule(
+    'run-escalation-rules',
+    '*/15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := 'https://inqytwqwjqpjgetaezhz.supabase.co/functions/v1/run-escalations',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
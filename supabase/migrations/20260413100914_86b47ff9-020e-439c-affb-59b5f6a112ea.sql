@@ -0,0 +1,281 @@
+-- Automatic triage: weighted keywords suggest a priority and a category for
+-- each new complaint; admins accept or override the suggestion
+CREATE TABLE public.triage_keywords (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    -- Lowercase words, optionally joined by single spaces, hyphens or apostrophes
+    keyword TEXT NOT NULL CHECK (keyword ~ '^[a-z0-9]+([ ''-][a-z0-9]+)*$' AND length(keyword) <= 60),
+    weight INTEGER NOT NULL DEFAULT 1 CHECK (weight BETWEEN 1 AND 10),
+    -- Each keyword points at either a priority or a category
+    priority complaint_priority,
+    category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    CHECK ((priority IS NULL) <> (category_id IS NULL)),
+    UNIQUE NULLS NOT DISTINCT (keyword, priority, category_id)
+);
+
+ALTER TABLE public.triage_keywords ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view triage keywords"
+ON public.triage_keywords FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Settings managers can insert triage keywords"
+ON public.triage_keywords FOR INSERT
+TO authenticated
+WITH CHECK (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can update triage keywords"
+ON public.triage_keywords FOR UPDATE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+CREATE POLICY "Settings managers can delete triage keywords"
+ON public.triage_keywords FOR DELETE
+TO authenticated
+USING (public.has_permission(auth.uid(), 'manage_settings'));
+
+-- A starting set; admins tune it under Auto-Triage
+INSERT INTO public.triage_keywords (keyword, weight, priority) VALUES
+    ('harassment', 8, 'critical'),
+    ('assault', 10, 'critical'),
+    ('threat', 6, 'critical'),
+    ('unsafe', 6, 'critical'),
+    ('emergency', 6, 'critical'),
+    ('injury', 6, 'critical'),
+    ('discrimination', 6, 'high'),
+    ('urgent', 4, 'high'),
+    ('deadline', 3, 'high'),
+    ('exam', 2, 'high'),
+    ('broken', 2, 'high'),
+    ('not working', 2, 'high'),
+    ('suggestion', 3, 'low'),
+    ('minor', 3, 'low'),
+    ('feedback', 2, 'low');
+
+INSERT INTO public.triage_keywords (keyword, weight, category_id)
+SELECT k.keyword, k.weight, c.id
+FROM (VALUES
+    ('grade', 3, 'Academic'),
+    ('exam', 3, 'Academic'),
+    ('course', 2, 'Academic'),
+    ('lecturer', 2, 'Academic'),
+    ('classroom', 2, 'Facilities'),
+    ('wifi', 3, 'Facilities'),
+    ('heating', 3, 'Facilities'),
+    ('toilet', 3, 'Facilities'),
+    ('library', 2, 'Facilities'),
+    ('transcript', 3, 'Administrative'),
+    ('enrollment', 3, 'Administrative'),
+    ('certificate', 2, 'Administrative'),
+    ('fee', 3, 'Financial'),
+    ('scholarship', 4, 'Financial'),
+    ('refund', 3, 'Financial'),
+    ('payment', 3, 'Financial')
+) AS k(keyword, weight, category)
+JOIN public.categories c ON c.name = k.category;
+
+-- The suggestion made at submission, why it was made, and whether admins
+-- followed it (NULL while nobody has decided)
+ALTER TABLE public.complaints
+ADD COLUMN suggested_priority complaint_priority,
+ADD COLUMN suggested_category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+ADD COLUMN triage_reasons JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN priority_suggestion_accepted BOOLEAN,
+ADD COLUMN category_suggestion_accepted BOOLEAN;
+
+-- Scores the text against the keywords. The priority and the category with
+-- the highest total weight win; ties go to the higher priority and to the
+-- category name that sorts first. Reasons list every matched keyword.
+CREATE OR REPLACE FUNCTION public.classify_complaint(_subject TEXT, _description TEXT)
+RETURNS TABLE (priority complaint_priority, category_id UUID, reasons JSONB)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH content AS (
+        SELECT regexp_replace(lower(concat_ws(' ', _subject, _description)), '\s+', ' ', 'g') AS body
+    ),
+    hits AS (
+        SELECT k.*
+        FROM public.triage_keywords k, content
+        WHERE content.body ~ ('\m' || k.keyword || '\M')
+    )
+    SELECT
+        (
+            SELECT h.priority FROM hits h
+            WHERE h.priority IS NOT NULL
+            GROUP BY h.priority
+            ORDER BY sum(h.weight) DESC, h.priority DESC
+            LIMIT 1
+        ),
+        (
+            SELECT h.category_id FROM hits h
+            JOIN public.categories c ON c.id = h.category_id
+            GROUP BY h.category_id, c.name
+            ORDER BY sum(h.weight) DESC, c.name
+            LIMIT 1
+        ),
+        COALESCE(
+            (
+                SELECT jsonb_agg(
+                    jsonb_build_object('keyword', h.keyword, 'weight', h.weight, 'priority', h.priority, 'category_id', h.category_id)
+                    ORDER BY h.weight DESC, h.keyword
+                )
+                FROM hits h
+            ),
+            '[]'::jsonb
+        )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.classify_complaint(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Lets settings managers try out the keywords before relying on them
+CREATE OR REPLACE FUNCTION public.preview_triage(_subject TEXT, _description TEXT)
+RETURNS TABLE (priority complaint_priority, category_id UUID, reasons JSONB)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.has_permission(auth.uid(), 'manage_settings') THEN
+        RAISE EXCEPTION 'Not allowed' USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY SELECT * FROM public.classify_complaint(_subject, _description);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_triage(TEXT, TEXT) FROM PUBLIC, anon;
+
+CREATE OR REPLACE FUNCTION public.suggest_complaint_triage()
+RETURNS TRIGGER AS $$
+DECLARE
+    _suggestion RECORD;
+BEGIN
+    SELECT * INTO _suggestion FROM public.classify_complaint(NEW.subject, NEW.description);
+
+    NEW.suggested_priority := _suggestion.priority;
+    NEW.suggested_category_id := _suggestion.category_id;
+    NEW.triage_reasons := _suggestion.reasons;
+    NEW.priority_suggestion_accepted := NULL;
+    NEW.category_suggestion_accepted := NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER suggest_complaint_triage
+    BEFORE INSERT ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.suggest_complaint_triage();
+
+-- The first time an admin sets the priority or category by hand, record
+-- whether it matches the suggestion. Automated changes (no user) don't count.
+CREATE OR REPLACE FUNCTION public.track_triage_outcome()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.priority IS DISTINCT FROM OLD.priority
+       AND OLD.suggested_priority IS NOT NULL
+       AND OLD.priority_suggestion_accepted IS NULL
+       AND NEW.priority_suggestion_accepted IS NULL THEN
+        NEW.priority_suggestion_accepted := NEW.priority = OLD.suggested_priority;
+    END IF;
+
+    IF NEW.category_id IS DISTINCT FROM OLD.category_id
+       AND OLD.suggested_category_id IS NOT NULL
+       AND OLD.category_suggestion_accepted IS NULL
+       AND NEW.category_suggestion_accepted IS NULL THEN
+        NEW.category_suggestion_accepted := NEW.category_id IS NOT DISTINCT FROM OLD.suggested_category_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER track_triage_outcome
+    BEFORE UPDATE OF priority, category_id ON public.complaints
+    FOR EACH ROW
+    EXECUTE FUNCTION public.track_triage_outcome();
+
+-- Accept (apply) or dismiss the pending suggestion of a complaint
+CREATE OR REPLACE FUNCTION public.review_triage_suggestion(_complaint_id UUID, _accept BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _changes TEXT[] := '{}';
+BEGIN
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _complaint_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _complaint.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'Merged complaints cannot be triaged'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF (_complaint.suggested_priority IS NULL OR _complaint.priority_suggestion_accepted IS NOT NULL)
+       AND (_complaint.suggested_category_id IS NULL OR _complaint.category_suggestion_accepted IS NOT NULL) THEN
+        RAISE EXCEPTION 'There is no pending suggestion for this complaint'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _accept THEN
+        IF _complaint.suggested_priority IS NOT NULL
+           AND _complaint.priority_suggestion_accepted IS NULL
+           AND _complaint.suggested_priority <> _complaint.priority THEN
+            _changes := _changes || ('Priority: ' || _complaint.priority || ' → ' || _complaint.suggested_priority);
+        END IF;
+
+        IF _complaint.suggested_category_id IS NOT NULL
+           AND _complaint.category_suggestion_accepted IS NULL
+           AND _complaint.suggested_category_id IS DISTINCT FROM _complaint.category_id THEN
+            _changes := _changes || (
+                'Category: '
+                || COALESCE((SELECT name FROM public.categories WHERE id = _complaint.category_id), 'None')
+                || ' → '
+                || (SELECT name FROM public.categories WHERE id = _complaint.suggested_category_id)
+            );
+        END IF;
+    END IF;
+
+    UPDATE public.complaints
+    SET priority = CASE
+            WHEN _accept AND priority_suggestion_accepted IS NULL THEN COALESCE(suggested_priority, priority)
+            ELSE priority
+        END,
+        category_id = CASE
+            WHEN _accept AND category_suggestion_accepted IS NULL THEN COALESCE(suggested_category_id, category_id)
+            ELSE category_id
+        END,
+        priority_suggestion_accepted = CASE
+            WHEN suggested_priority IS NOT NULL THEN COALESCE(priority_suggestion_accepted, _accept)
+        END,
+        category_suggestion_accepted = CASE
+            WHEN suggested_category_id IS NOT NULL THEN COALESCE(category_suggestion_accepted, _accept)
+        END
+    WHERE id = _complaint_id;
+
+    INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+    VALUES (
+        _complaint_id,
+        CASE WHEN _accept THEN 'Triage suggestion accepted' ELSE 'Triage suggestion dismissed' END,
+        NULLIF(array_to_string(_changes, ', '), ''),
+        auth.uid()
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_triage_suggestion(UUID, BOOLEAN) FROM PUBLIC, anon;
@@ -0,0 +1,26 @@
+-- Users may edit their own profile, but only user managers may (de)activate
+-- an account. Deactivated staff would otherwise clear deactivated_at with
+-- their still-valid session and get their permissions back. The manage-user
+-- function uses the service role and has no auth.uid().
+CREATE OR REPLACE FUNCTION public.protect_profile_deactivation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR public.has_permission(auth.uid(), 'manage_users') THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.deactivated_at := NULL;
+    ELSIF NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at THEN
+        RAISE EXCEPTION 'Only user managers can deactivate or reactivate accounts'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER protect_profile_deactivation
+    BEFORE INSERT OR UPDATE OF deactivated_at ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_deactivation();
@@ -0,0 +1,503 @@
+-- Keep the submitter of a complaint out of reach of staff. Hiding their profile
+-- is not enough: the student's user id on the complaint, their comments,
+-- ratings, uploads and log entries links an anonymous complaint to the ones
+-- they filed under their name. Those columns are no longer readable by clients;
+-- staff get the submitter only through the masked list_admin_complaints and
+-- search_complaints, and realtime leaves out columns the role can't select.
+
+-- Whether the current user filed the complaint. Ownership checks go through
+-- here because policies can no longer read the submitter column. Only ever
+-- answers for the caller, so it can't be used to test who filed what.
+CREATE OR REPLACE FUNCTION public.is_complaint_owner(_complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE id = _complaint_id
+          AND user_id = auth.uid()
+    )
+$$;
+
+-- Whether the current user wrote the comment
+CREATE OR REPLACE FUNCTION public.is_comment_author(_comment_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.complaint_comments
+        WHERE id = _comment_id
+          AND user_id = auth.uid()
+    )
+$$;
+
+-- Whether the user filed at least one complaint under their name
+CREATE OR REPLACE FUNCTION public.has_identified_complaint(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE user_id = _user_id
+          AND NOT is_anonymous
+    )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_identified_complaint(UUID) FROM PUBLIC, anon;
+
+-- The submitter as the current user may know them: on their own complaints,
+-- and on complaints they can view unless filed anonymously, which only
+-- confidential handlers see through. NULL otherwise.
+CREATE OR REPLACE FUNCTION public.complaint_submitter(_complaint_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT c.user_id
+    FROM public.complaints c
+    WHERE c.id = _complaint_id
+      AND (
+          c.user_id = auth.uid()
+          OR (
+              public.has_complaint_permission(auth.uid(), c.id, 'view_complaints')
+              AND (NOT c.is_anonymous OR public.has_permission(auth.uid(), 'handle_confidential'))
+          )
+      )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complaint_submitter(UUID) FROM PUBLIC, anon;
+
+-- Staff comments keep their author in a column of its own; students' comments
+-- and system notes have none
+ALTER TABLE public.complaint_comments
+ADD COLUMN author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.complaint_comments SET author_id = user_id WHERE is_admin;
+
+CREATE OR REPLACE FUNCTION public.set_comment_author()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.author_id := CASE WHEN NEW.is_admin THEN NEW.user_id END;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER set_comment_author
+    BEFORE INSERT OR UPDATE OF user_id, is_admin, author_id ON public.complaint_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_comment_author();
+
+-- Actions students take on their own complaints (reopening) are logged without
+-- their id
+ALTER TABLE public.complaint_logs
+ADD COLUMN performed_by_submitter BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE public.complaint_logs l
+SET performed_by = NULL, performed_by_submitter = true
+FROM public.complaints c
+WHERE c.id = COALESCE(l.merged_from_complaint_id, l.complaint_id)
+  AND c.user_id = l.performed_by;
+
+CREATE OR REPLACE FUNCTION public.hide_submitter_in_logs()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.performed_by IS NOT NULL AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE id = COALESCE(NEW.merged_from_complaint_id, NEW.complaint_id)
+          AND user_id = NEW.performed_by
+    ) THEN
+        NEW.performed_by := NULL;
+        NEW.performed_by_submitter := true;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER hide_submitter_in_logs
+    BEFORE INSERT ON public.complaint_logs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.hide_submitter_in_logs();
+
+-- Column grants leave out the submitter. Columns added to these tables later
+-- must be granted here too.
+REVOKE SELECT ON public.complaints FROM anon, authenticated;
+GRANT SELECT (
+    id, subject, description, status, priority, admin_response, category_id,
+    department_id, assigned_to, assigned_at, created_at, updated_at, resolved_at,
+    first_response_due_at, first_responded_at, resolution_due_at, search_vector,
+    is_anonymous, is_confidential, merged_into, parent_id,
+    suggested_priority, suggested_category_id, triage_reasons,
+    priority_suggestion_accepted, category_suggestion_accepted
+) ON public.complaints TO authenticated;
+
+REVOKE SELECT ON public.complaint_comments FROM anon, authenticated;
+GRANT SELECT (
+    id, complaint_id, author_id, content, is_admin, is_internal, created_at,
+    search_vector, merged_from_complaint_id
+) ON public.complaint_comments TO authenticated;
+
+REVOKE SELECT ON public.complaint_attachments FROM anon, authenticated;
+GRANT SELECT (
+    id, complaint_id, comment_id, storage_path, file_name, mime_type, size_bytes,
+    created_at, merged_from_complaint_id
+) ON public.complaint_attachments TO authenticated;
+
+REVOKE SELECT ON public.complaint_ratings FROM anon, authenticated;
+GRANT SELECT (
+    id, complaint_id, rating, comment, created_at, updated_at
+) ON public.complaint_ratings TO authenticated;
+
+-- Policies that looked the submitter up themselves
+DROP POLICY "Students can add comments to their complaints" ON public.complaint_comments;
+
+CREATE POLICY "Students can add comments to their complaints"
+ON public.complaint_comments FOR INSERT
+TO authenticated
+WITH CHECK (
+    public.is_complaint_owner(complaint_id)
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_comments.complaint_id
+        AND complaints.merged_into IS NULL
+    )
+    AND is_admin = false
+    AND is_internal = false
+);
+
+DROP POLICY "Students can view comments on their complaints" ON public.complaint_comments;
+
+CREATE POLICY "Students can view comments on their complaints"
+ON public.complaint_comments FOR SELECT
+TO authenticated
+USING (
+    NOT is_internal
+    AND public.is_complaint_owner(COALESCE(merged_from_complaint_id, complaint_id))
+);
+
+DROP POLICY "Students can view logs for their complaints" ON public.complaint_logs;
+
+CREATE POLICY "Students can view logs for their complaints"
+ON public.complaint_logs FOR SELECT
+TO authenticated
+USING (public.is_complaint_owner(COALESCE(merged_from_complaint_id, complaint_id)));
+
+DROP POLICY "Students can rate their resolved complaints" ON public.complaint_ratings;
+
+CREATE POLICY "Students can rate their resolved complaints"
+ON public.complaint_ratings FOR INSERT
+TO authenticated
+WITH CHECK (
+    auth.uid() = user_id
+    AND public.is_complaint_owner(complaint_id)
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_ratings.complaint_id
+          AND complaints.resolved_at IS NOT NULL
+    )
+);
+
+DROP POLICY "Students can update their ratings" ON public.complaint_ratings;
+
+CREATE POLICY "Students can update their ratings"
+ON public.complaint_ratings FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+    auth.uid() = user_id
+    AND public.is_complaint_owner(complaint_id)
+    AND EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE complaints.id = complaint_ratings.complaint_id
+          AND complaints.resolved_at IS NOT NULL
+    )
+);
+
+DROP POLICY "Staff can mention admins in their comments" ON public.comment_mentions;
+
+CREATE POLICY "Staff can mention admins in their comments"
+ON public.comment_mentions FOR INSERT
+TO authenticated
+WITH CHECK (
+    mentioned_by = auth.uid()
+    AND public.has_complaint_permission(auth.uid(), complaint_id, 'comment')
+    AND public.has_permission(mentioned_user_id, 'view_complaints')
+    AND EXISTS (
+        SELECT 1 FROM public.complaint_comments cc
+        WHERE cc.id = comment_mentions.comment_id
+        AND cc.complaint_id = comment_mentions.complaint_id
+        AND cc.author_id = auth.uid()
+    )
+    AND EXISTS (
+        SELECT 1 FROM public.complaints c
+        WHERE c.id = comment_mentions.complaint_id
+        AND public.can_see_confidential(mentioned_user_id, c.is_confidential)
+    )
+);
+
+DROP POLICY "Admins can view staff and identified students" ON public.profiles;
+
+CREATE POLICY "Admins can view staff and identified students"
+ON public.profiles FOR SELECT
+TO authenticated
+USING (
+    public.has_role(auth.uid(), 'admin')
+    AND (
+        public.has_role(user_id, 'admin')
+        OR public.has_permission(auth.uid(), 'manage_users')
+        OR public.has_permission(auth.uid(), 'handle_confidential')
+        OR public.has_identified_complaint(user_id)
+    )
+);
+
+-- New files live under the complaint rather than the uploader:
+-- <complaint id>/<random name>. Older files keep their paths.
+DROP POLICY "Students can view attachments on their complaints" ON public.complaint_attachments;
+
+CREATE POLICY "Students can view attachments on their complaints"
+ON public.complaint_attachments FOR SELECT
+TO authenticated
+USING (
+    public.is_complaint_owner(COALESCE(merged_from_complaint_id, complaint_id))
+    AND NOT EXISTS (
+        SELECT 1 FROM public.complaint_comments
+        WHERE complaint_comments.id = complaint_attachments.comment_id
+        AND complaint_comments.is_internal
+    )
+);
+
+DROP POLICY "Users can add attachments to their complaints" ON public.complaint_attachments;
+
+CREATE POLICY "Users can add attachments to their complaints"
+ON public.complaint_attachments FOR INSERT
+TO authenticated
+WITH CHECK (
+    uploaded_by = auth.uid()
+    AND split_part(storage_path, '/', 1) = complaint_id::text
+    AND (
+        public.has_complaint_permission(auth.uid(), complaint_id, 'comment')
+        OR public.is_complaint_owner(complaint_id)
+    )
+    AND (
+        comment_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM public.complaint_comments
+            WHERE complaint_comments.id = complaint_attachments.comment_id
+            AND complaint_comments.complaint_id = complaint_attachments.complaint_id
+            AND public.is_comment_author(complaint_comments.id)
+        )
+    )
+);
+
+DROP POLICY "Students can upload their own attachments" ON storage.objects;
+
+CREATE POLICY "Users can upload attachments to their complaints"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+    bucket_id = 'complaint-attachments'
+    AND EXISTS (
+        SELECT 1 FROM public.complaints c
+        WHERE c.id::text = (storage.foldername(name))[1]
+        AND (
+            public.has_complaint_permission(auth.uid(), c.id, 'comment')
+            OR public.is_complaint_owner(c.id)
+        )
+    )
+);
+
+-- Lets an upload that failed halfway clean up after itself
+CREATE POLICY "Uploaders can delete their own files"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+    bucket_id = 'complaint-attachments'
+    AND owner = auth.uid()
+);
+
+DROP POLICY "Students can view attachments on their complaints" ON storage.objects;
+
+CREATE POLICY "Students can view attachments on their complaints"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+    bucket_id = 'complaint-attachments'
+    AND EXISTS (
+        SELECT 1
+        FROM public.complaint_attachments a
+        WHERE a.storage_path = storage.objects.name
+        AND public.is_complaint_owner(COALESCE(a.merged_from_complaint_id, a.complaint_id))
+    )
+);
+
+-- The admin list and search read the submitter through complaint_submitter,
+-- which already leaves out students the caller may not identify
+CREATE OR REPLACE FUNCTION public.list_admin_complaints(_search TEXT DEFAULT NULL)
+RETURNS TABLE (
+    id UUID,
+    subject TEXT,
+    description TEXT,
+    status TEXT,
+    priority complaint_priority,
+    admin_response TEXT,
+    category_id UUID,
+    category_name TEXT,
+    department_id UUID,
+    department_name TEXT,
+    user_id UUID,
+    student_name TEXT,
+    student_email TEXT,
+    assigned_to UUID,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    first_response_due_at TIMESTAMP WITH TIME ZONE,
+    first_responded_at TIMESTAMP WITH TIME ZONE,
+    resolution_due_at TIMESTAMP WITH TIME ZONE,
+    priority_rank INTEGER,
+    sla_due_at TIMESTAMP WITH TIME ZONE,
+    attachment_count INTEGER,
+    is_anonymous BOOLEAN,
+    is_confidential BOOLEAN,
+    merged_into UUID,
+    parent_id UUID
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT
+        c.id,
+        c.subject,
+        c.description,
+        c.status,
+        c.priority,
+        c.admin_response,
+        c.category_id,
+        cat.name,
+        c.department_id,
+        d.name,
+        s.user_id,
+        p.full_name,
+        p.email,
+        c.assigned_to,
+        c.assigned_at,
+        c.created_at,
+        c.updated_at,
+        c.resolved_at,
+        c.first_response_due_at,
+        c.first_responded_at,
+        c.resolution_due_at,
+        CASE c.priority
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            ELSE 1
+        END,
+        -- The deadline that currently matters: first response until answered, then resolution
+        CASE
+            WHEN c.first_responded_at IS NULL AND c.first_response_due_at IS NOT NULL THEN c.first_response_due_at
+            ELSE c.resolution_due_at
+        END,
+        (SELECT count(*)::INTEGER FROM public.complaint_attachments a WHERE a.complaint_id = c.id),
+        c.is_anonymous,
+        c.is_confidential,
+        c.merged_into,
+        c.parent_id
+    FROM public.complaints c
+    CROSS JOIN LATERAL (SELECT public.complaint_submitter(c.id) AS user_id) s
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    LEFT JOIN public.departments d ON d.id = c.department_id
+    LEFT JOIN public.profiles p ON p.user_id = s.user_id
+    WHERE _search IS NULL
+       OR btrim(_search) = ''
+       OR c.subject ILIKE '%' || btrim(_search) || '%'
+       OR p.full_name ILIKE '%' || btrim(_search) || '%'
+       OR p.email ILIKE '%' || btrim(_search) || '%'
+       OR c.search_vector @@ websearch_to_tsquery('english', _search)
+       OR EXISTS (
+           SELECT 1 FROM public.complaint_comments cc
+           WHERE cc.complaint_id = c.id
+             AND cc.search_vector @@ websearch_to_tsquery('english', _search)
+       );
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_complaints(_query TEXT, _limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    complaint_id UUID,
+    subject TEXT,
+    status TEXT,
+    priority complaint_priority,
+    student_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    match_source TEXT,
+    comment_id UUID,
+    rank REAL,
+    headline TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH q AS (
+        SELECT websearch_to_tsquery('english', _query) AS query
+    ),
+    hits AS (
+        SELECT c.id AS complaint_id, 'complaint' AS match_source, NULL::UUID AS comment_id,
+               ts_rank(c.search_vector, q.query) AS rank
+        FROM public.complaints c, q
+        WHERE c.search_vector @@ q.query
+        UNION ALL
+        -- Comment matches count a little less than matches on the complaint itself
+        SELECT cc.complaint_id, 'comment', cc.id, ts_rank(cc.search_vector, q.query) * 0.8
+        FROM public.complaint_comments cc, q
+        WHERE cc.search_vector @@ q.query
+    ),
+    best AS (
+        SELECT DISTINCT ON (complaint_id) *
+        FROM hits
+        ORDER BY complaint_id, rank DESC
+    ),
+    top AS (
+        SELECT * FROM best
+        ORDER BY rank DESC
+        LIMIT least(greatest(_limit, 1), 50)
+    )
+    SELECT
+        c.id,
+        c.subject,
+        c.status,
+        c.priority,
+        p.full_name,
+        c.created_at,
+        t.match_source,
+        t.comment_id,
+        t.rank,
+        ts_headline(
+            'english',
+            CASE
+                WHEN t.comment_id IS NOT NULL THEN cc.content
+                ELSE concat_ws(' … ', c.subject, c.description, c.admin_response)
+            END,
+            q.query,
+            format('StartSel=%s, StopSel=%s, MaxWords=25, MinWords=8, MaxFragments=2', chr(2), chr(3))
+        )
+    FROM top t
+    CROSS JOIN q
+    JOIN public.complaints c ON c.id = t.complaint_id
+    LEFT JOIN public.complaint_comments cc ON cc.id = t.comment_id
+    LEFT JOIN public.profiles p ON p.user_id = public.complaint_submitter(c.id)
+    ORDER BY t.rank DESC, c.created_at DESC;
+$$;
@@ -0,0 +1,114 @@
+-- Students no longer find other students' anonymous complaints among similar
+-- ones: even the subject of a report filed anonymously can say too much. They
+-- can't support them either.
+CREATE OR REPLACE FUNCTION public.find_similar_complaints(
+    _subject TEXT,
+    _description TEXT DEFAULT NULL,
+    _category_id UUID DEFAULT NULL,
+    _exclude_id UUID DEFAULT NULL,
+    _limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    complaint_id UUID,
+    subject TEXT,
+    status TEXT,
+    category_name TEXT,
+    created_at TIMESTAMP WITH TIME ZONE,
+    supporter_count INTEGER,
+    is_own BOOLEAN,
+    is_supported BOOLEAN,
+    score REAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH q AS (
+        -- Any shared word counts for full-text matching; ranking sorts out the rest
+        SELECT NULLIF(
+            replace(plainto_tsquery('english', concat_ws(' ', _subject, _description))::TEXT, '&', '|'),
+            ''
+        )::tsquery AS query
+    ),
+    candidates AS (
+        SELECT
+            c.*,
+            similarity(c.subject, _subject) AS subject_score,
+            COALESCE(ts_rank(c.search_vector, q.query), 0) AS text_score
+        FROM public.complaints c
+        CROSS JOIN q
+        WHERE length(btrim(_subject)) >= 4
+          AND (_exclude_id IS NULL OR c.id <> _exclude_id)
+          AND (c.subject % _subject OR c.search_vector @@ q.query)
+          AND (
+              public.has_complaint_permission(auth.uid(), c.id, 'view_complaints')
+              OR (
+                  NOT public.has_role(auth.uid(), 'admin')
+                  AND NOT c.is_confidential
+                  AND (NOT c.is_anonymous OR c.user_id = auth.uid())
+                  AND NOT EXISTS (
+                      SELECT 1 FROM public.complaint_statuses s
+                      WHERE s.key = c.status AND s.is_final
+                  )
+              )
+          )
+    )
+    SELECT
+        c.id,
+        c.subject,
+        c.status,
+        cat.name,
+        c.created_at,
+        (SELECT count(*)::INTEGER FROM public.complaint_supporters cs WHERE cs.complaint_id = c.id),
+        c.user_id = auth.uid(),
+        EXISTS (
+            SELECT 1 FROM public.complaint_supporters cs
+            WHERE cs.complaint_id = c.id AND cs.user_id = auth.uid()
+        ),
+        (c.subject_score + c.text_score + CASE WHEN c.category_id = _category_id THEN 0.1 ELSE 0 END)::REAL AS score
+    FROM candidates c
+    LEFT JOIN public.categories cat ON cat.id = c.category_id
+    WHERE c.subject_score >= 0.3 OR c.text_score >= 0.1
+    ORDER BY score DESC
+    LIMIT least(greatest(_limit, 1), 20);
+$$;
+
+CREATE OR REPLACE FUNCTION public.support_complaint(_complaint_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _count INTEGER;
+BEGIN
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id;
+
+    IF NOT FOUND OR _complaint.is_confidential OR _complaint.is_anonymous THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _complaint.user_id = auth.uid() THEN
+        RAISE EXCEPTION 'You filed this complaint yourself';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.complaint_statuses
+        WHERE key = _complaint.status AND is_final
+    ) THEN
+        RAISE EXCEPTION 'This complaint is already closed';
+    END IF;
+
+    INSERT INTO public.complaint_supporters (complaint_id, user_id)
+    VALUES (_complaint_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+
+    SELECT count(*)::INTEGER INTO _count
+    FROM public.complaint_supporters
+    WHERE complaint_id = _complaint_id;
+
+    RETURN _count;
+END;
+$$;
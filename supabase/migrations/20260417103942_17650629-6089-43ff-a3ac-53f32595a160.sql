@@ -0,0 +1,193 @@
+-- Merge and link log entries no longer quote the subject of the other
+-- complaint: students read the logs of their own complaints, and the other
+-- complaint is usually someone else's. Admins find it under related complaints.
+CREATE OR REPLACE FUNCTION public.merge_complaints(
+    _primary_id UUID,
+    _duplicate_ids UUID[],
+    _status TEXT,
+    _note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _primary public.complaints%ROWTYPE;
+    _duplicate public.complaints%ROWTYPE;
+    _note_clean TEXT := NULLIF(btrim(COALESCE(_note, '')), '');
+    _count INTEGER := 0;
+BEGIN
+    SELECT * INTO _primary FROM public.complaints WHERE id = _primary_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _primary_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _primary.merged_into IS NOT NULL THEN
+        RAISE EXCEPTION 'Cannot merge into a complaint that was itself merged'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.complaint_statuses WHERE key = _status AND is_final) THEN
+        RAISE EXCEPTION 'Merged complaints must be closed in a final status'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF _primary_id = ANY(_duplicate_ids) THEN
+        RAISE EXCEPTION 'A complaint cannot be merged into itself'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    FOR _duplicate IN
+        SELECT * FROM public.complaints
+        WHERE id = ANY(_duplicate_ids)
+        ORDER BY created_at
+        FOR UPDATE
+    LOOP
+        IF NOT public.has_complaint_permission(auth.uid(), _duplicate.id, 'update_status') THEN
+            RAISE EXCEPTION 'Complaint not found';
+        END IF;
+
+        IF _duplicate.merged_into IS NOT NULL THEN
+            RAISE EXCEPTION '"%" was already merged', _duplicate.subject
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        -- Confidential threads must not end up where other admins can read them
+        IF _duplicate.is_confidential <> _primary.is_confidential THEN
+            RAISE EXCEPTION 'Confidential and regular complaints cannot be merged'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE public.complaint_comments
+        SET merged_from_complaint_id = COALESCE(merged_from_complaint_id, complaint_id),
+            complaint_id = _primary_id
+        WHERE complaint_id = _duplicate.id;
+
+        UPDATE public.complaint_attachments
+        SET merged_from_complaint_id = COALESCE(merged_from_complaint_id, complaint_id),
+            complaint_id = _primary_id
+        WHERE complaint_id = _duplicate.id;
+
+        UPDATE public.complaint_logs
+        SET merged_from_complaint_id = COALESCE(merged_from_complaint_id, complaint_id),
+            complaint_id = _primary_id
+        WHERE complaint_id = _duplicate.id;
+
+        -- Supporters follow the primary instead of hearing the duplicate was closed
+        INSERT INTO public.complaint_supporters (complaint_id, user_id, created_at)
+        SELECT _primary_id, user_id, created_at
+        FROM public.complaint_supporters
+        WHERE complaint_id = _duplicate.id
+          AND user_id IS DISTINCT FROM _primary.user_id
+        ON CONFLICT DO NOTHING;
+
+        DELETE FROM public.complaint_supporters WHERE complaint_id = _duplicate.id;
+
+        -- Earlier merges now point at the primary directly. Complaints linked to
+        -- the duplicate join the primary's incident, or the primary itself.
+        UPDATE public.complaints SET merged_into = _primary_id WHERE merged_into = _duplicate.id;
+
+        IF _primary.parent_id = _duplicate.id THEN
+            UPDATE public.complaints SET parent_id = NULL WHERE id = _primary_id;
+            _primary.parent_id := NULL;
+        END IF;
+
+        UPDATE public.complaints
+        SET parent_id = COALESCE(_primary.parent_id, _primary_id)
+        WHERE parent_id = _duplicate.id;
+
+        UPDATE public.complaints
+        SET merged_into = _primary_id,
+            status = _status,
+            admin_response = COALESCE(_note_clean, admin_response)
+        WHERE id = _duplicate.id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, old_status, new_status, notes, performed_by)
+        VALUES (_duplicate.id, 'Merged into another complaint', _duplicate.status, _status, _note_clean, auth.uid());
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_primary_id, 'A related complaint was merged in', _note_clean, auth.uid());
+
+        _count := _count + 1;
+    END LOOP;
+
+    IF _count = 0 OR _count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) d) THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    RETURN _count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_complaint_parent(_complaint_id UUID, _parent_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _complaint public.complaints%ROWTYPE;
+    _parent public.complaints%ROWTYPE;
+    _old_parent public.complaints%ROWTYPE;
+BEGIN
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _complaint_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF _complaint.parent_id IS NOT DISTINCT FROM _parent_id THEN
+        RETURN;
+    END IF;
+
+    IF _parent_id IS NOT NULL THEN
+        SELECT * INTO _parent FROM public.complaints WHERE id = _parent_id;
+
+        IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _parent_id, 'view_complaints') THEN
+            RAISE EXCEPTION 'Complaint not found';
+        END IF;
+
+        IF _parent_id = _complaint_id THEN
+            RAISE EXCEPTION 'A complaint cannot be linked to itself'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF _parent.parent_id IS NOT NULL OR _parent.merged_into IS NOT NULL THEN
+            RAISE EXCEPTION '"%" is not an incident that complaints can be linked to', _parent.subject
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF EXISTS (SELECT 1 FROM public.complaints WHERE parent_id = _complaint_id) THEN
+            RAISE EXCEPTION 'This complaint already groups other complaints'
+                USING ERRCODE = 'check_violation';
+        END IF;
+    END IF;
+
+    SELECT * INTO _old_parent FROM public.complaints WHERE id = _complaint.parent_id;
+
+    UPDATE public.complaints SET parent_id = _parent_id WHERE id = _complaint_id;
+
+    IF _old_parent.id IS NOT NULL THEN
+        INSERT INTO public.complaint_logs (complaint_id, action, performed_by)
+        VALUES
+            (_complaint_id, 'Unlinked from an incident', auth.uid()),
+            (_old_parent.id, 'A related complaint was unlinked', auth.uid());
+    END IF;
+
+    IF _parent_id IS NOT NULL THEN
+        INSERT INTO public.complaint_logs (complaint_id, action, performed_by)
+        VALUES
+            (_complaint_id, 'Linked to an incident', auth.uid()),
+            (_parent_id, 'A related complaint was linked', auth.uid());
+    END IF;
+END;
+$$;
+
+UPDATE public.complaint_logs SET action = 'Merged into another complaint' WHERE action LIKE 'Merged into: %';
+UPDATE public.complaint_logs SET action = 'A related complaint was merged in' WHERE action LIKE 'Merged in: %';
+UPDATE public.complaint_logs SET action = 'Unlinked from an incident' WHERE action LIKE 'Unlinked from incident: %';
+UPDATE public.complaint_logs SET action = 'A related complaint was unlinked' WHERE action LIKE 'Unlinked: %';
+UPDATE public.complaint_logs SET action = 'Linked to an incident' WHERE action LIKE 'Linked to incident: %';
+UPDATE public.complaint_logs SET action = 'A related complaint was linked' WHERE action LIKE 'Linked: %';
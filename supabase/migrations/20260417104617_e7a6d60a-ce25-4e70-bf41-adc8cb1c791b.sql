@@ -0,0 +1,67 @@
+-- Resolving an incident no longer quotes the incident's subject on the linked
+-- complaints, whose students can read their logs
+CREATE OR REPLACE FUNCTION public.resolve_incident(_incident_id UUID, _status TEXT, _response TEXT DEFAULT NULL)
+RETURNS TABLE (complaint_id UUID, old_status TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+    _incident public.complaints%ROWTYPE;
+    _complaint public.complaints%ROWTYPE;
+    _response_clean TEXT := NULLIF(btrim(COALESCE(_response, '')), '');
+BEGIN
+    SELECT * INTO _incident FROM public.complaints WHERE id = _incident_id;
+
+    IF NOT FOUND OR NOT public.has_complaint_permission(auth.uid(), _incident_id, 'update_status') THEN
+        RAISE EXCEPTION 'Complaint not found';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.complaint_statuses WHERE key = _status AND is_final) THEN
+        RAISE EXCEPTION 'Incidents can only be resolved into a final status'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    FOR _complaint IN
+        SELECT c.*
+        FROM public.incident_complaints(_incident_id) c
+        JOIN public.complaint_statuses s ON s.key = c.status
+        WHERE NOT s.is_final
+    LOOP
+        IF NOT public.has_complaint_permission(auth.uid(), _complaint.id, 'update_status') THEN
+            RAISE EXCEPTION 'You cannot update the linked complaint "%"', _complaint.subject
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM public.complaint_status_transitions
+            WHERE from_status = _complaint.status AND to_status = _status
+        ) THEN
+            RAISE EXCEPTION '"%" cannot move from "%" to "%"', _complaint.subject, _complaint.status, _status
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        UPDATE public.complaints
+        SET status = _status,
+            admin_response = COALESCE(_response_clean, admin_response)
+        WHERE id = _complaint.id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, old_status, new_status, notes, performed_by)
+        VALUES (
+            _complaint.id,
+            CASE WHEN _complaint.id = _incident_id
+                THEN 'Incident resolved'
+                ELSE 'Resolved with its incident'
+            END,
+            _complaint.status, _status, _response_clean, auth.uid()
+        );
+
+        complaint_id := _complaint.id;
+        old_status := _complaint.status;
+        RETURN NEXT;
+    END LOOP;
+END;
+$$;
+
+UPDATE public.complaint_logs SET action = 'Resolved with its incident' WHERE action LIKE 'Resolved with incident: %';
@@ -0,0 +1,98 @@
+-- Reassigning through an escalation rule restarts the assignment clock, as
+-- assigning by hand does
+CREATE OR REPLACE FUNCTION public.escalate_complaint(_rule_id UUID, _complaint_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _rule public.escalation_rules%ROWTYPE;
+    _complaint public.complaints%ROWTYPE;
+    _reason TEXT;
+BEGIN
+    SELECT * INTO _rule FROM public.escalation_rules WHERE id = _rule_id AND is_active;
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO _complaint FROM public.complaints WHERE id = _complaint_id FOR UPDATE;
+    IF NOT FOUND
+       OR _complaint.merged_into IS NOT NULL
+       OR EXISTS (SELECT 1 FROM public.complaint_statuses WHERE key = _complaint.status AND is_final) THEN
+        RETURN false;
+    END IF;
+
+    INSERT INTO public.complaint_escalations (rule_id, complaint_id)
+    VALUES (_rule_id, _complaint_id)
+    ON CONFLICT DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    _reason := 'Escalation rule: ' || _rule.name;
+
+    IF _rule.raise_priority_to IS NOT NULL AND _rule.raise_priority_to > _complaint.priority THEN
+        UPDATE public.complaints SET priority = _rule.raise_priority_to WHERE id = _complaint_id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_complaint_id, 'Priority: ' || _complaint.priority || ' → ' || _rule.raise_priority_to, _reason, NULL);
+    END IF;
+
+    IF _rule.assign_to IS NOT NULL
+       AND _rule.assign_to IS DISTINCT FROM _complaint.assigned_to
+       AND public.has_complaint_permission(_rule.assign_to, _complaint_id, 'update_status') THEN
+        UPDATE public.complaints SET assigned_to = _rule.assign_to, assigned_at = now() WHERE id = _complaint_id;
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (
+            _complaint_id,
+            'Assigned → ' || COALESCE((SELECT full_name FROM public.profiles WHERE user_id = _rule.assign_to), 'Unknown admin'),
+            _reason, NULL
+        );
+    END IF;
+
+    IF _rule.notify_user_id IS NOT NULL
+       AND public.has_complaint_permission(_rule.notify_user_id, _complaint_id, 'view_complaints') THEN
+        PERFORM public.create_notification(
+            _rule.notify_user_id, _complaint_id, 'escalation',
+            'Escalated: ' || _complaint.subject,
+            _rule.name
+        );
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (
+            _complaint_id,
+            'Escalated to ' || COALESCE((SELECT full_name FROM public.profiles WHERE user_id = _rule.notify_user_id), 'Unknown admin'),
+            _reason, NULL
+        );
+    END IF;
+
+    IF _rule.internal_note IS NOT NULL THEN
+        INSERT INTO public.complaint_comments (complaint_id, user_id, content, is_admin, is_internal)
+        VALUES (_complaint_id, NULL, _rule.internal_note, true, true);
+
+        INSERT INTO public.complaint_logs (complaint_id, action, notes, performed_by)
+        VALUES (_complaint_id, 'Internal note added', _reason, NULL);
+    END IF;
+
+    RETURN true;
+END;
+$$;
+
+-- Complaints an escalation has already reassigned take the time of that
+-- reassignment, unless someone has assigned them by hand since
+UPDATE public.complaints c
+SET assigned_at = l.escalated_at
+FROM (
+    SELECT complaint_id, max(created_at) AS escalated_at
+    FROM public.complaint_logs
+    WHERE performed_by IS NULL
+      AND action LIKE 'Assigned → %'
+      AND notes LIKE 'Escalation rule: %'
+    GROUP BY complaint_id
+) l
+WHERE c.id = l.complaint_id
+  AND c.assigned_to IS NOT NULL
+  AND (c.assigned_at IS NULL OR c.assigned_at < l.escalated_at);
@@ -0,0 +1,44 @@
+-- A suggestion that already matches the submitted priority or category counts
+-- as accepted from the start. Before, leaving it alone never counted while any
+-- later change counted as not followed, which pulled the acceptance rate down.
+CREATE OR REPLACE FUNCTION public.suggest_complaint_triage()
+RETURNS TRIGGER AS $$
+DECLARE
+    _suggestion RECORD;
+BEGIN
+    SELECT * INTO _suggestion FROM public.classify_complaint(NEW.subject, NEW.description);
+
+    NEW.suggested_priority := _suggestion.priority;
+    NEW.suggested_category_id := _suggestion.category_id;
+    NEW.triage_reasons := _suggestion.reasons;
+    NEW.priority_suggestion_accepted := CASE WHEN _suggestion.priority = NEW.priority THEN true END;
+    NEW.category_suggestion_accepted := CASE WHEN _suggestion.category_id = NEW.category_id THEN true END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing complaints: the earliest priority change logged shows the priority
+-- at submission (falling back to the current one). Only a triage review
+-- changes the category, and accepting one already records true.
+UPDATE public.complaints c
+SET priority_suggestion_accepted = true
+WHERE c.suggested_priority IS NOT NULL
+  AND c.priority_suggestion_accepted IS DISTINCT FROM true
+  AND c.suggested_priority::text = COALESCE(
+      (
+          SELECT substring(l.action FROM 'Priority: (\w+) → ')
+          FROM public.complaint_logs l
+          WHERE l.complaint_id = c.id
+            AND l.action ~ 'Priority: \w+ → '
+          ORDER BY l.created_at
+          LIMIT 1
+      ),
+      c.priority::text
+  );
+
+UPDATE public.complaints
+SET category_suggestion_accepted = true
+WHERE suggested_category_id IS NOT NULL
+  AND category_suggestion_accepted IS DISTINCT FROM true
+  AND category_id = suggested_category_id;
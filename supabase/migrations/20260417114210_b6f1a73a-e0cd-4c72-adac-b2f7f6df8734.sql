@@ -0,0 +1,37 @@
+-- Notifications no longer name the student behind an anonymous complaint: when
+-- they comment on or reopen it, staff would read their user id as the actor
+CREATE OR REPLACE FUNCTION public.create_notification(
+    _user_id UUID,
+    _complaint_id UUID,
+    _type TEXT,
+    _title TEXT,
+    _body TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    _actor_id UUID := auth.uid();
+BEGIN
+    IF _user_id IS NULL OR _user_id = _actor_id THEN
+        RETURN;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.complaints
+        WHERE id = _complaint_id
+          AND user_id = _actor_id
+          AND is_anonymous
+    ) THEN
+        _actor_id := NULL;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, complaint_id, type, title, body, actor_id)
+    VALUES (_user_id, _complaint_id, _type, _title, _body, _actor_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+UPDATE public.notifications n
+SET actor_id = NULL
+FROM public.complaints c
+WHERE c.id = n.complaint_id
+  AND c.is_anonymous
+  AND n.actor_id = c.user_id;
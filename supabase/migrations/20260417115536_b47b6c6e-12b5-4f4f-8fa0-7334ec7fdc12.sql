@@ -0,0 +1,19 @@
+-- The daily digest job no longer points at one project: the base URL of the
+-- functions is read from the vault (secret "project_url", e.g.
+-- https://<project-ref>.supabase.co) next to the service role key, so local,
+-- staging and forked projects call their own send-digest. Scheduling under the
+-- same name replaces the existing job.
+SELECT cron.schedule(
+    'send-daily-digest',
+    '0 7 * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-digest',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
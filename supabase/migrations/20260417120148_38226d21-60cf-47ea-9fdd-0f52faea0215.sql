@@ -0,0 +1,16 @@
+-- Like the digest job, the escalation job reads the base URL of the functions
+-- from the vault (secret "project_url") instead of naming one project
+SELECT cron.schedule(
+    'run-escalation-rules',
+    '*/15 * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/run-escalations',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    );
+    $$
+);
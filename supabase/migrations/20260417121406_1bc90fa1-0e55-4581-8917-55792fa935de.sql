@@ -0,0 +1,37 @@
+-- When an admin first replied in the conversation. first_responded_at also
+-- counts status changes and response edits, so escalation rules waiting for
+-- "no admin response" read this instead. Internal notes don't count.
+ALTER TABLE public.complaints
+ADD COLUMN first_admin_reply_at TIMESTAMP WITH TIME ZONE;
+
+GRANT SELECT (first_admin_reply_at) ON public.complaints TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.mark_complaint_first_response()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.is_admin AND NOT NEW.is_internal THEN
+        UPDATE public.complaints
+        SET first_responded_at = COALESCE(first_responded_at, NEW.created_at),
+            first_admin_reply_at = COALESCE(first_admin_reply_at, NEW.created_at)
+        WHERE id = NEW.complaint_id
+          AND (first_responded_at IS NULL OR first_admin_reply_at IS NULL);
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill without touching updated_at
+ALTER TABLE public.complaints DISABLE TRIGGER update_complaints_updated_at;
+
+UPDATE public.complaints c
+SET first_admin_reply_at = r.replied_at
+FROM (
+    SELECT complaint_id, min(created_at) AS replied_at
+    FROM public.complaint_comments
+    WHERE is_admin AND NOT is_internal
+    GROUP BY complaint_id
+) r
+WHERE c.id = r.complaint_id;
+
+ALTER TABLE public.complaints ENABLE TRIGGER update_complaints_updated_at;